@@ -5,6 +5,7 @@ import { spawn } from "child_process";
 import dotenv from "dotenv";
 import fs from "fs";
 import path from "path";
+import { FileTokenStore } from "./src/client/token-store.js";
 
 // Загружаем переменные окружения
 dotenv.config();
@@ -189,18 +190,40 @@ async function getToken() {
 			envContent = fs.readFileSync(envPath, "utf8");
 		}
 
-		// Удаляем старый токен если есть
+		// Удаляем старые токены если есть
 		envContent = envContent.replace(/^TICKTICK_ACCESS_TOKEN=.*$/m, "");
+		envContent = envContent.replace(/^TICKTICK_REFRESH_TOKEN=.*$/m, "");
 
-		// Добавляем новый токен
+		// Добавляем новые токены
 		if (envContent && !envContent.endsWith("\n")) {
 			envContent += "\n";
 		}
 		envContent += `TICKTICK_ACCESS_TOKEN=${tokenData.access_token}\n`;
+		if (tokenData.refresh_token) {
+			envContent += `TICKTICK_REFRESH_TOKEN=${tokenData.refresh_token}\n`;
+		}
 
 		fs.writeFileSync(envPath, envContent);
 		console.log("✅ Токен автоматически сохранен в .env файл");
 
+		// Сохраняем токены и срок действия в хранилище токенов, если оно настроено
+		const tokenStorePath = process.env.TICKTICK_TOKEN_STORE;
+		if (tokenStorePath) {
+			const tokenStore = new FileTokenStore(
+				tokenStorePath,
+				process.env.TICKTICK_TOKEN_PASSPHRASE
+			);
+			await tokenStore.save({
+				accessToken: tokenData.access_token,
+				refreshToken: tokenData.refresh_token,
+				expiresAt: tokenData.expires_in
+					? new Date(Date.now() + tokenData.expires_in * 1000).toISOString()
+					: undefined,
+				scope: tokenData.scope,
+			});
+			console.log(`✅ Токены сохранены в хранилище ${tokenStorePath}`);
+		}
+
 		// Показываем информацию о токене
 		if (tokenData.expires_in) {
 			const expiresAt = new Date(Date.now() + tokenData.expires_in * 1000);
@@ -208,7 +231,9 @@ async function getToken() {
 		}
 
 		if (tokenData.refresh_token) {
-			console.log("🔄 Refresh token также получен");
+			console.log(
+				"🔄 Refresh token также получен: сервер будет обновлять access token автоматически"
+			);
 		}
 
 		console.log("\n🚀 Готово! Теперь вы можете использовать MCP сервер:");
@@ -0,0 +1,140 @@
+import fs from "fs";
+import { TickTickClient } from "./ticktick-client.js";
+import { FileTokenStore } from "./token-store.js";
+import { FileCompletionLog } from "./completion-log.js";
+import { FileUndoJournal } from "./undo-journal.js";
+import {
+	AccountsConfig,
+	TickTickClientConfig,
+	TickTickValidationError,
+} from "../types/ticktick.js";
+
+/**
+ * Имя аккаунта, под которым регистрируется токен из TICKTICK_ACCESS_TOKEN
+ */
+export const DEFAULT_ACCOUNT_NAME = "default";
+
+/**
+ * Реестр именованных аккаунтов TickTick, у каждого свой экземпляр TickTickClient
+ */
+export class AccountRegistry {
+	private readonly clients = new Map<string, TickTickClient>();
+	private readonly defaultAccount: string;
+
+	constructor(config: AccountsConfig, baseConfig: TickTickClientConfig = {}) {
+		for (const account of config.accounts || []) {
+			if (
+				!account.name?.trim() ||
+				(!account.accessToken?.trim() && !account.tokenStorePath)
+			) {
+				throw new Error(
+					"Каждый аккаунт в конфигурации должен иметь name и accessToken или tokenStorePath"
+				);
+			}
+			if (this.clients.has(account.name)) {
+				throw new Error(`Аккаунт "${account.name}" указан несколько раз`);
+			}
+
+			this.clients.set(
+				account.name,
+				new TickTickClient({
+					...baseConfig,
+					baseUrl: account.baseUrl || baseConfig.baseUrl,
+					accessToken: account.accessToken,
+					refreshToken: account.refreshToken,
+					tokenStore: account.tokenStorePath
+						? new FileTokenStore(
+								account.tokenStorePath,
+								account.tokenStorePassphrase
+						  )
+						: undefined,
+					completionLog: account.completionLogPath
+						? new FileCompletionLog(account.completionLogPath)
+						: undefined,
+					undoJournal: account.undoJournalPath
+						? new FileUndoJournal(
+								account.undoJournalPath,
+								account.undoRetentionDays
+						  )
+						: undefined,
+				})
+			);
+		}
+
+		// Токен из окружения (или хранилища токенов) доступен как аккаунт "default"
+		if (
+			(baseConfig.accessToken || baseConfig.tokenStore) &&
+			!this.clients.has(DEFAULT_ACCOUNT_NAME)
+		) {
+			this.clients.set(DEFAULT_ACCOUNT_NAME, new TickTickClient(baseConfig));
+		}
+
+		if (this.clients.size === 0) {
+			throw new Error(
+				"Access token не найден. Установите TICKTICK_ACCESS_TOKEN в переменных окружения или настройте аккаунты."
+			);
+		}
+
+		this.defaultAccount =
+			config.defaultAccount ||
+			(this.clients.has(DEFAULT_ACCOUNT_NAME)
+				? DEFAULT_ACCOUNT_NAME
+				: [...this.clients.keys()][0]);
+
+		if (!this.clients.has(this.defaultAccount)) {
+			throw new Error(
+				`Аккаунт по умолчанию "${this.defaultAccount}" отсутствует в конфигурации`
+			);
+		}
+	}
+
+	/**
+	 * Загрузить аккаунты из JSON файла
+	 */
+	static fromFile(
+		filePath: string,
+		baseConfig: TickTickClientConfig = {}
+	): AccountRegistry {
+		let config: AccountsConfig;
+		try {
+			config = JSON.parse(fs.readFileSync(filePath, "utf8"));
+		} catch (error) {
+			throw new Error(
+				`Не удалось прочитать конфигурацию аккаунтов ${filePath}: ${
+					(error as Error).message
+				}`
+			);
+		}
+		return new AccountRegistry(config, baseConfig);
+	}
+
+	/**
+	 * Получить клиент аккаунта по имени (или аккаунта по умолчанию)
+	 */
+	getClient(account?: string): TickTickClient {
+		const name = account || this.defaultAccount;
+		const client = this.clients.get(name);
+
+		if (!client) {
+			throw new TickTickValidationError(
+				`Аккаунт "${name}" не найден. Доступные аккаунты: ${this.getAccountNames().join(
+					", "
+				)}`,
+				{ field: "account", value: name }
+			);
+		}
+
+		return client;
+	}
+
+	/**
+	 * Имена всех зарегистрированных аккаунтов
+	 */
+	getAccountNames(): string[] {
+		return [...this.clients.keys()];
+	}
+
+	getDefaultAccount(): string {
+		return this.defaultAccount;
+	}
+}
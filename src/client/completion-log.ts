@@ -0,0 +1,87 @@
+import fs from "fs/promises";
+import path from "path";
+import {
+	CompletionLog,
+	CompletionLogQuery,
+	CompletionRecord,
+} from "../types/ticktick.js";
+import { Logger } from "../utils/logger.js";
+
+/**
+ * Журнал завершенных задач в файле JSON Lines (одна запись на строку). Файл
+ * только дополняется, записи пишутся по очереди, поэтому строки параллельных
+ * завершений не перемешиваются.
+ */
+export class FileCompletionLog implements CompletionLog {
+	private readonly logger = new Logger(FileCompletionLog.name);
+	private writeQueue: Promise<void> = Promise.resolve();
+
+	constructor(private readonly filePath: string) {}
+
+	/**
+	 * Добавить запись в конец журнала
+	 */
+	append(record: CompletionRecord): Promise<void> {
+		const write = this.writeQueue.then(async () => {
+			await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+			await fs.appendFile(this.filePath, `${JSON.stringify(record)}\n`, {
+				mode: 0o600,
+			});
+		});
+		// Ошибка записи возвращается вызывающему, но не блокирует очередь
+		this.writeQueue = write.catch(() => undefined);
+		return write;
+	}
+
+	/**
+	 * Записи журнала по фильтру, сначала последние. Возвращает пустой список,
+	 * если журнала еще нет. Поврежденные строки пропускаются.
+	 */
+	async list(query: CompletionLogQuery = {}): Promise<CompletionRecord[]> {
+		await this.writeQueue;
+
+		let raw: string;
+		try {
+			raw = await fs.readFile(this.filePath, "utf8");
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+				return [];
+			}
+			throw error;
+		}
+
+		const records: CompletionRecord[] = [];
+		for (const [index, line] of raw.split("\n").entries()) {
+			if (!line.trim()) {
+				continue;
+			}
+
+			let record: CompletionRecord;
+			try {
+				record = JSON.parse(line);
+			} catch {
+				this.logger.warn(
+					`Skipping malformed line ${index + 1} of completion log ${
+						this.filePath
+					}`
+				);
+				continue;
+			}
+
+			const time = new Date(record.completedAt).getTime();
+			if (
+				(query.from !== undefined && !(time >= query.from)) ||
+				(query.to !== undefined && !(time < query.to)) ||
+				(query.projectIds && !query.projectIds.includes(record.projectId))
+			) {
+				continue;
+			}
+			records.push(record);
+		}
+
+		return records.sort(
+			(a, b) =>
+				new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime()
+		);
+	}
+}
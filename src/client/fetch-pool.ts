@@ -0,0 +1,93 @@
+import { FetchPoolStatus } from "../types/ticktick.js";
+
+export type PoolResult<T, R> =
+	| { item: T; value: R; error?: undefined }
+	| { item: T; value?: undefined; error: unknown };
+
+/**
+ * Пул запросов с ограничением параллельности. Один пул на клиента, поэтому
+ * одновременные многопроектные операции делят общий лимит. После ответа 429
+ * новые запросы не запускаются до окончания паузы.
+ */
+export class FetchPool {
+	private active = 0;
+	private readonly queue: (() => void)[] = [];
+	private pausedUntil = 0;
+
+	constructor(private readonly concurrency: number) {
+		if (!Number.isInteger(concurrency) || concurrency < 1) {
+			throw new Error(
+				`Параллельность запросов должна быть целым числом больше 0: ${concurrency}`
+			);
+		}
+	}
+
+	/**
+	 * Приостановить запуск новых запросов (например, после ответа 429)
+	 */
+	backOff(ms: number): void {
+		this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+	}
+
+	/**
+	 * Выполнить функцию, когда освободится место в пуле
+	 */
+	async run<R>(fn: () => Promise<R>): Promise<R> {
+		await this.acquire();
+		try {
+			return await fn();
+		} finally {
+			this.release();
+		}
+	}
+
+	/**
+	 * Выполнить функцию для каждого элемента. Ошибки не прерывают остальные
+	 * запросы, а возвращаются в результатах вместе с элементом.
+	 */
+	async map<T, R>(
+		items: T[],
+		fn: (item: T) => Promise<R>
+	): Promise<PoolResult<T, R>[]> {
+		return Promise.all(
+			items.map((item) =>
+				this.run(() => fn(item)).then(
+					(value): PoolResult<T, R> => ({ item, value }),
+					(error): PoolResult<T, R> => ({ item, error })
+				)
+			)
+		);
+	}
+
+	getStatus(): FetchPoolStatus {
+		return {
+			concurrency: this.concurrency,
+			active: this.active,
+			queued: this.queue.length,
+		};
+	}
+
+	private async acquire(): Promise<void> {
+		if (this.active < this.concurrency) {
+			this.active++;
+		} else {
+			// Место передается напрямую из release, счетчик не меняется
+			await new Promise<void>((resolve) => this.queue.push(resolve));
+		}
+
+		let wait = this.pausedUntil - Date.now();
+		while (wait > 0) {
+			await new Promise((resolve) => setTimeout(resolve, wait));
+			wait = this.pausedUntil - Date.now();
+		}
+	}
+
+	private release(): void {
+		const next = this.queue.shift();
+		if (next) {
+			next();
+		} else {
+			this.active--;
+		}
+	}
+}
@@ -0,0 +1,129 @@
+import { RateLimiterStatus } from "../types/ticktick.js";
+
+/**
+ * Разобрать заголовок Retry-After (секунды или HTTP дата) в миллисекунды
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+	if (!value?.trim()) {
+		return undefined;
+	}
+
+	const seconds = Number(value);
+	if (!isNaN(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(value);
+	if (!isNaN(date)) {
+		return Math.max(0, date - Date.now());
+	}
+
+	return undefined;
+}
+
+/**
+ * Ограничитель частоты запросов по алгоритму token bucket. Запросы сверх
+ * бюджета не отклоняются, а ждут в очереди (FIFO). После ответа 429 выдача
+ * приостанавливается на время из Retry-After.
+ */
+export class RateLimiter {
+	private tokens: number;
+	private lastRefill = Date.now();
+	private readonly queue: (() => void)[] = [];
+	private pausedUntil = 0;
+	private timer?: NodeJS.Timeout;
+
+	/**
+	 * @param requestsPerMinute Скорость пополнения бюджета, 0 - без ограничения
+	 * @param burst Максимальный бюджет (сколько запросов можно сделать подряд)
+	 */
+	constructor(
+		private readonly requestsPerMinute: number,
+		private readonly burst: number
+	) {
+		if (!(requestsPerMinute >= 0) || !(burst >= 1)) {
+			throw new Error(
+				`Невалидные параметры ограничения запросов: ${requestsPerMinute} в минуту, burst ${burst}`
+			);
+		}
+		this.tokens = burst;
+	}
+
+	/**
+	 * Дождаться разрешения на запрос
+	 */
+	acquire(): Promise<void> {
+		return new Promise((resolve) => {
+			this.queue.push(resolve);
+			this.drain();
+		});
+	}
+
+	/**
+	 * Приостановить выдачу разрешений (например, по Retry-After)
+	 */
+	pause(ms: number): void {
+		this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+	}
+
+	getStatus(): RateLimiterStatus {
+		this.refill();
+		const pausedMs = Math.max(0, this.pausedUntil - Date.now());
+		return {
+			requestsPerMinute: this.requestsPerMinute,
+			burst: this.burst,
+			availableTokens: this.isUnlimited()
+				? this.burst
+				: Math.floor(this.tokens),
+			queueDepth: this.queue.length,
+			pausedUntil:
+				pausedMs > 0 ? new Date(this.pausedUntil).toISOString() : undefined,
+		};
+	}
+
+	private isUnlimited(): boolean {
+		return this.requestsPerMinute === 0;
+	}
+
+	private refill(): void {
+		const now = Date.now();
+		if (!this.isUnlimited()) {
+			this.tokens = Math.min(
+				this.burst,
+				this.tokens + ((now - this.lastRefill) * this.requestsPerMinute) / 60000
+			);
+		}
+		this.lastRefill = now;
+	}
+
+	private drain(): void {
+		if (this.timer) {
+			return;
+		}
+
+		this.refill();
+		while (
+			this.queue.length > 0 &&
+			Date.now() >= this.pausedUntil &&
+			(this.isUnlimited() || this.tokens >= 1)
+		) {
+			if (!this.isUnlimited()) {
+				this.tokens -= 1;
+			}
+			this.queue.shift()!();
+		}
+
+		if (this.queue.length === 0) {
+			return;
+		}
+
+		const pauseWait = this.pausedUntil - Date.now();
+		const tokenWait = this.isUnlimited()
+			? 0
+			: ((1 - this.tokens) * 60000) / this.requestsPerMinute;
+		this.timer = setTimeout(() => {
+			this.timer = undefined;
+			this.drain();
+		}, Math.max(1, Math.ceil(Math.max(pauseWait, tokenWait))));
+	}
+}
@@ -0,0 +1,105 @@
+import { CacheStats } from "../types/ticktick.js";
+
+interface CacheEntry {
+	value: unknown;
+	expiresAt: number;
+}
+
+/**
+ * Кэш ответов API с TTL. Одновременные запросы одного ключа ждут одну загрузку,
+ * а результат загрузки, начатой до инвалидации, в кэш не попадает.
+ */
+export class ResponseCache {
+	private readonly entries = new Map<string, CacheEntry>();
+	private readonly pending = new Map<string, Promise<unknown>>();
+	private epoch = 0;
+	private hits = 0;
+	private misses = 0;
+
+	constructor(private readonly ttlMs: number) {
+		if (!(ttlMs >= 0)) {
+			throw new Error(`TTL кэша не может быть отрицательным: ${ttlMs}`);
+		}
+	}
+
+	get enabled(): boolean {
+		return this.ttlMs > 0;
+	}
+
+	/**
+	 * Вернуть значение из кэша или загрузить его. Возвращаются копии, чтобы
+	 * изменения на стороне вызывающего кода не портили кэш.
+	 */
+	async getOrLoad<T>(key: string, loader: () => Promise<T>): Promise<T> {
+		if (!this.enabled) {
+			return loader();
+		}
+
+		const entry = this.entries.get(key);
+		if (entry && entry.expiresAt > Date.now()) {
+			this.hits++;
+			return structuredClone(entry.value) as T;
+		}
+		this.entries.delete(key);
+
+		let promise = this.pending.get(key);
+		if (!promise) {
+			this.misses++;
+			const epoch = this.epoch;
+			promise = loader()
+				.then((value) => {
+					if (epoch === this.epoch) {
+						this.entries.set(key, {
+							value: structuredClone(value),
+							expiresAt: Date.now() + this.ttlMs,
+						});
+					}
+					return value;
+				})
+				.finally(() => {
+					if (this.pending.get(key) === promise) {
+						this.pending.delete(key);
+					}
+				});
+			this.pending.set(key, promise);
+		}
+
+		return structuredClone(await promise) as T;
+	}
+
+	/**
+	 * Удалить записи, подходящие под условие
+	 */
+	invalidateWhere(predicate: (key: string, value: unknown) => boolean): void {
+		this.epoch++;
+		for (const [key, entry] of this.entries) {
+			if (predicate(key, entry.value)) {
+				this.entries.delete(key);
+			}
+		}
+		for (const key of this.pending.keys()) {
+			if (predicate(key, undefined)) {
+				this.pending.delete(key);
+			}
+		}
+	}
+
+	invalidate(...keys: string[]): void {
+		this.invalidateWhere((key) => keys.includes(key));
+	}
+
+	clear(): void {
+		this.epoch++;
+		this.entries.clear();
+		this.pending.clear();
+	}
+
+	getStats(): CacheStats {
+		return {
+			ttlMs: this.ttlMs,
+			entries: this.entries.size,
+			hits: this.hits,
+			misses: this.misses,
+		};
+	}
+}
@@ -1,3 +1,5 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
 import {
 	Task,
 	Project,
@@ -10,6 +12,37 @@ import {
 	TickTickApiError,
 	TickTickErrorCode,
 	TickTickValidationError,
+	OAuthClientConfig,
+	StoredToken,
+	TokenStore,
+	CacheStats,
+	FailedProject,
+	ProjectsDataResult,
+	ClientStatus,
+	MoveTaskRequest,
+	MoveTaskResult,
+	TaskPatch,
+	TaskPatchResult,
+	ChecklistItem,
+	PromoteChecklistItemsOptions,
+	FoldSourceAction,
+	ChecklistConversionItemResult,
+	ChecklistConversionResult,
+	TaskDateOptions,
+	DATE_ORDERS,
+	TaskOccurrencesOptions,
+	TaskOccurrencesResult,
+	RecurrenceInput,
+	CompletionLog,
+	CompletionRecord,
+	CompletedTasksQuery,
+	UndoChange,
+	UndoChangeResult,
+	UndoEntry,
+	UndoIdMap,
+	UndoJournal,
+	UndoResult,
+	PlannedRequest,
 } from "../types/ticktick.js";
 import {
 	validateISO8601Date,
@@ -25,37 +58,267 @@ import {
 	validateTaskDates,
 	validateTaskRepeatFlag,
 } from "../utils/validators.js";
+import {
+	AmbiguousDateError,
+	DateParseOptions,
+	expandTaskOccurrences,
+} from "../utils/date-utils.js";
+import { Logger } from "../utils/logger.js";
+import {
+	applyTaskPatch,
+	diffTasks,
+	findCopyDifferences,
+} from "../utils/task-patch.js";
+import { resolveRecurrence } from "../utils/recurrence.js";
+import { parseReminder } from "../utils/reminders.js";
+import { parseDateRange } from "../utils/task-filters.js";
+import { ResponseCache } from "./response-cache.js";
+import { FetchPool, PoolResult } from "./fetch-pool.js";
+import { RateLimiter, parseRetryAfter } from "./rate-limiter.js";
+import { remapUndoChange, summarizeUndoChange } from "./undo-journal.js";
+
+/**
+ * За сколько до истечения срока токен обновляется заранее
+ */
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * TTL кэша ответов по умолчанию
+ */
+const DEFAULT_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Параллельность запросов в многопроектных операциях по умолчанию
+ */
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Ограничение частоты запросов по умолчанию (лимит TickTick Open API -
+ * около 100 запросов в минуту)
+ */
+const DEFAULT_REQUESTS_PER_MINUTE = 100;
+const DEFAULT_RATE_LIMIT_BURST = 10;
+
+/**
+ * Дольше этого ответ 429 не ждем, а возвращаем ошибку
+ */
+const MAX_RETRY_WAIT_MS = 60 * 1000;
+
+const PROJECTS_CACHE_KEY = "projects";
+
+function projectCacheKey(projectId: string): string {
+	return `project:${projectId}`;
+}
 
-class Logger {
-	constructor(private context: string) {}
+function projectDataCacheKey(projectId: string): string {
+	return `project-data:${projectId}`;
+}
 
-	log(message: string, ...args: any[]) {
-		console.log(`[${this.context}] ${message}`, ...args);
-	}
+function taskCacheKey(projectId: string, taskId: string): string {
+	return `task:${projectId}:${taskId}`;
+}
 
-	error(message: string, error?: any) {
-		console.error(`[${this.context}] ${message}`, error);
-	}
+/**
+ * Изменения, накопленные за одну операцию для журнала отмены
+ */
+interface UndoScope {
+	changes: UndoChange[];
+}
 
-	warn(message: string, ...args: any[]) {
-		console.warn(`[${this.context}] ${message}`, ...args);
-	}
+/**
+ * Изменяющие запросы, собранные в режиме dryRun вместо отправки в API
+ */
+interface DryRunScope {
+	requests: PlannedRequest[];
 }
 
 export class TickTickClient {
 	private readonly logger = new Logger(TickTickClient.name);
 	private readonly baseUrl: string;
 	private readonly timeout: number;
-	private readonly accessToken: string;
+	private readonly tokenStore?: TokenStore;
+	private readonly oauth?: OAuthClientConfig;
+	private token?: StoredToken;
+	private tokenLoadPromise?: Promise<void>;
+	private refreshPromise?: Promise<void>;
+	private readonly cache: ResponseCache;
+	private readonly fetchPool: FetchPool;
+	private readonly rateLimiter: RateLimiter;
+	private moveEndpointSupported?: boolean; // undefined - еще не проверялся
+	private readonly dateOptions: DateParseOptions;
+	private readonly completionLog?: CompletionLog;
+	private readonly undoJournal?: UndoJournal;
+	private readonly undoScope = new AsyncLocalStorage<UndoScope>();
+	private readonly dryRunScope = new AsyncLocalStorage<DryRunScope>();
 
 	constructor(config: TickTickClientConfig = {}) {
 		this.baseUrl = config.baseUrl || "https://api.ticktick.com/open/v1";
 		this.timeout = config.timeout || 10000;
+		this.tokenStore = config.tokenStore;
+		this.oauth = config.oauth;
+		this.completionLog = config.completionLog;
+		this.undoJournal = config.undoJournal;
+		this.dateOptions = {
+			defaultTimeZone: config.timeZone,
+			dateOrder: config.dateOrder,
+		};
+		if (config.dateOrder && !DATE_ORDERS.includes(config.dateOrder)) {
+			throw new Error(
+				`Невалидный порядок дат: ${
+					config.dateOrder
+				}. Допустимые значения: ${DATE_ORDERS.join(", ")}`
+			);
+		}
+		this.cache = new ResponseCache(config.cacheTtl ?? DEFAULT_CACHE_TTL_MS);
+		this.fetchPool = new FetchPool(config.concurrency ?? DEFAULT_CONCURRENCY);
+		this.rateLimiter = new RateLimiter(
+			config.rateLimit?.requestsPerMinute ?? DEFAULT_REQUESTS_PER_MINUTE,
+			config.rateLimit?.burst ?? DEFAULT_RATE_LIMIT_BURST
+		);
 
-		if (!config.accessToken) {
+		if (!config.accessToken && !config.tokenStore) {
 			throw new Error("Access token обязателен для создания TickTickClient");
 		}
-		this.accessToken = config.accessToken;
+
+		if (config.accessToken) {
+			this.token = {
+				accessToken: config.accessToken,
+				refreshToken: config.refreshToken,
+			};
+		}
+	}
+
+	/**
+	 * Получить актуальный access token: при первом вызове загружает его из хранилища,
+	 * а при скором истечении срока обновляет заранее
+	 */
+	private async getAccessToken(): Promise<string> {
+		await this.loadStoredToken();
+
+		if (!this.token?.accessToken) {
+			throw new TickTickApiError(
+				"Access token не найден ни в конфигурации, ни в хранилище токенов. Запустите 'npm run get-token'.",
+				401,
+				TickTickErrorCode.UNAUTHORIZED
+			);
+		}
+
+		const expiresAt = this.token.expiresAt
+			? new Date(this.token.expiresAt).getTime()
+			: undefined;
+		if (
+			expiresAt !== undefined &&
+			expiresAt - TOKEN_REFRESH_MARGIN_MS <= Date.now() &&
+			this.canRefreshToken()
+		) {
+			this.logger.log("Access token expires soon, refreshing");
+			await this.refreshAccessToken();
+		}
+
+		return this.token.accessToken;
+	}
+
+	/**
+	 * Загрузить токен из хранилища один раз. Параллельные вызовы ждут одну
+	 * загрузку, а после ошибки следующий вызов пробует снова.
+	 */
+	private loadStoredToken(): Promise<void> {
+		if (!this.tokenLoadPromise) {
+			this.tokenLoadPromise = this.readStoredToken().catch((error) => {
+				this.tokenLoadPromise = undefined;
+				throw error;
+			});
+		}
+		return this.tokenLoadPromise;
+	}
+
+	private async readStoredToken(): Promise<void> {
+		const storedToken = await this.tokenStore?.load();
+		if (storedToken?.accessToken) {
+			this.token = storedToken;
+		}
+	}
+
+	private canRefreshToken(): boolean {
+		return !!(this.token?.refreshToken && this.oauth);
+	}
+
+	/**
+	 * Обновить access token по refresh token. Параллельные вызовы ждут один запрос.
+	 */
+	private async refreshAccessToken(): Promise<void> {
+		if (!this.refreshPromise) {
+			this.refreshPromise = this.requestTokenRefresh().finally(() => {
+				this.refreshPromise = undefined;
+			});
+		}
+		return this.refreshPromise;
+	}
+
+	private async requestTokenRefresh(): Promise<void> {
+		if (!this.oauth || !this.token?.refreshToken) {
+			throw new TickTickApiError(
+				"Невозможно обновить токен: отсутствует refresh token или OAuth credentials",
+				401,
+				TickTickErrorCode.UNAUTHORIZED
+			);
+		}
+
+		const tokenUrl = this.oauth.tokenUrl || "https://ticktick.com/oauth/token";
+		const response = await fetch(tokenUrl, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/x-www-form-urlencoded",
+				Authorization: `Basic ${Buffer.from(
+					`${this.oauth.clientId}:${this.oauth.clientSecret}`
+				).toString("base64")}`,
+			},
+			body: new URLSearchParams({
+				grant_type: "refresh_token",
+				refresh_token: this.token.refreshToken,
+			}),
+		});
+
+		if (!response.ok) {
+			const errorText = await response.text().catch(() => "");
+			this.logger.error(`Token refresh failed: ${response.status}`, errorText);
+			throw new TickTickApiError(
+				"Не удалось обновить access token. Запустите 'npm run get-token' для повторной авторизации.",
+				response.status,
+				TickTickErrorCode.UNAUTHORIZED,
+				{ message: errorText }
+			);
+		}
+
+		const tokenData = await response.json();
+		if (!tokenData.access_token) {
+			throw new TickTickApiError(
+				"Ответ на обновление токена не содержит access_token",
+				response.status,
+				TickTickErrorCode.UNAUTHORIZED,
+				tokenData
+			);
+		}
+
+		this.token = {
+			accessToken: tokenData.access_token,
+			// Если сервер не выдал новый refresh token, продолжаем использовать старый
+			refreshToken: tokenData.refresh_token || this.token.refreshToken,
+			expiresAt: tokenData.expires_in
+				? new Date(Date.now() + tokenData.expires_in * 1000).toISOString()
+				: undefined,
+			scope: tokenData.scope || this.token.scope,
+		};
+
+		if (this.tokenStore) {
+			try {
+				await this.tokenStore.save(this.token);
+			} catch (error) {
+				this.logger.error("Failed to persist refreshed token", error);
+			}
+		}
+
+		this.logger.log("Access token refreshed successfully");
 	}
 
 	/**
@@ -64,17 +327,28 @@ export class TickTickClient {
 	private async makeAuthenticatedRequest<T>(
 		endpoint: string,
 		options: RequestInit = {},
-		retryCount: number = 0
+		retryCount: number = 0,
+		tokenRefreshed: boolean = false
 	): Promise<T> {
+		const dryRun = this.dryRunScope.getStore();
+		if (dryRun && options.method && options.method !== "GET") {
+			return this.planRequest<T>(dryRun, endpoint, options);
+		}
+
 		const url = `${this.baseUrl}${endpoint}`;
 		const maxRetries = 3;
 		const retryDelay = Math.min(1000 * Math.pow(2, retryCount), 10000); // Exponential backoff
 
+		const accessToken = await this.getAccessToken();
+
+		// Ждем бюджета до запуска таймаута, чтобы очередь не превращалась в таймауты
+		await this.rateLimiter.acquire();
+
 		const controller = new AbortController();
 		const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
 		try {
-			this.logger.log(`Making request to ${endpoint}`, {
+			this.logger.debug(`Making request to ${endpoint}`, {
 				method: options.method || "GET",
 				retryCount,
 			});
@@ -82,7 +356,7 @@ export class TickTickClient {
 			const response = await fetch(url, {
 				...options,
 				headers: {
-					Authorization: `Bearer ${this.accessToken}`,
+					Authorization: `Bearer ${accessToken}`,
 					"Content-Type": "application/json",
 					...options.headers,
 				},
@@ -144,6 +418,24 @@ export class TickTickClient {
 					}
 				}
 
+				// При 401 обновляем токен и повторяем исходный запрос один раз
+				if (
+					response.status === 401 &&
+					!tokenRefreshed &&
+					this.canRefreshToken()
+				) {
+					this.logger.warn(
+						`Request to ${endpoint} unauthorized, refreshing access token`
+					);
+					await this.refreshAccessToken();
+					return this.makeAuthenticatedRequest(
+						endpoint,
+						options,
+						retryCount,
+						true
+					);
+				}
+
 				const apiError = TickTickApiError.fromHttpStatus(
 					response.status,
 					enhancedMessage || undefined,
@@ -159,17 +451,33 @@ export class TickTickClient {
 						errorDetails?.errorCode === "unknown_exception"
 					);
 
-				if (shouldRetry && retryCount < maxRetries) {
+				// При 429 ждем столько, сколько указал сервер в Retry-After. Остальные
+				// запросы клиента тоже ждут, чтобы не усугублять превышение лимита.
+				let waitMs = retryDelay;
+				if (response.status === 429) {
+					waitMs =
+						parseRetryAfter(response.headers.get("retry-after")) ?? retryDelay;
+					this.rateLimiter.pause(waitMs);
+					this.fetchPool.backOff(waitMs);
+					apiError.details = { ...apiError.details, retryAfterMs: waitMs };
+				}
+
+				if (
+					shouldRetry &&
+					retryCount < maxRetries &&
+					waitMs <= MAX_RETRY_WAIT_MS
+				) {
 					this.logger.warn(
-						`Retrying request to ${endpoint} in ${retryDelay}ms (attempt ${
+						`Retrying request to ${endpoint} in ${waitMs}ms (attempt ${
 							retryCount + 1
 						}/${maxRetries})`
 					);
-					await new Promise((resolve) => setTimeout(resolve, retryDelay));
+					await new Promise((resolve) => setTimeout(resolve, waitMs));
 					return this.makeAuthenticatedRequest(
 						endpoint,
 						options,
-						retryCount + 1
+						retryCount + 1,
+						tokenRefreshed
 					);
 				}
 
@@ -187,7 +495,7 @@ export class TickTickClient {
 				(!contentType?.includes("application/json") &&
 					!contentType?.includes("text/"))
 			) {
-				this.logger.log(
+				this.logger.debug(
 					`Request to ${endpoint} completed successfully (no content)`
 				);
 				return undefined as T;
@@ -195,7 +503,7 @@ export class TickTickClient {
 
 			const text = await response.text();
 			if (!text.trim()) {
-				this.logger.log(
+				this.logger.debug(
 					`Request to ${endpoint} completed successfully (empty response)`
 				);
 				return undefined as T;
@@ -203,7 +511,7 @@ export class TickTickClient {
 
 			try {
 				const result = JSON.parse(text);
-				this.logger.log(`Request to ${endpoint} completed successfully`);
+				this.logger.debug(`Request to ${endpoint} completed successfully`);
 				return result;
 			} catch (parseError) {
 				this.logger.error("Failed to parse JSON response", {
@@ -264,7 +572,12 @@ export class TickTickClient {
 					}/${maxRetries})`
 				);
 				await new Promise((resolve) => setTimeout(resolve, retryDelay));
-				return this.makeAuthenticatedRequest(endpoint, options, retryCount + 1);
+				return this.makeAuthenticatedRequest(
+					endpoint,
+					options,
+					retryCount + 1,
+					tokenRefreshed
+				);
 			}
 
 			throw networkError;
@@ -272,213 +585,872 @@ export class TickTickClient {
 	}
 
 	/**
-	 * Получить все проекты пользователя
+	 * Запомнить изменяющий запрос вместо отправки (режим dryRun). Ответом
+	 * служит тело запроса, созданные объекты получают временный ID.
 	 */
-	async getProjects(): Promise<Project[]> {
-		return this.makeAuthenticatedRequest<Project[]>("/project");
+	private planRequest<T>(
+		scope: DryRunScope,
+		endpoint: string,
+		options: RequestInit
+	): T {
+		const body =
+			typeof options.body === "string" ? JSON.parse(options.body) : undefined;
+		scope.requests.push({ method: options.method!, endpoint, body });
+		this.logger.debug(`Dry run: ${options.method} ${endpoint}`);
+
+		if (body && typeof body === "object" && !Array.isArray(body)) {
+			return { id: `dry-run-${scope.requests.length}`, ...body } as T;
+		}
+		return body as T;
 	}
 
 	/**
-	 * Получить проект по ID
+	 * Выполнить операцию без изменений в TickTick: чтение выполняется как
+	 * обычно, а изменяющие запросы проходят валидацию и возвращаются списком
 	 */
-	async getProject(projectId: string): Promise<Project> {
-		return this.makeAuthenticatedRequest<Project>(`/project/${projectId}`);
+	async dryRun<T>(
+		operation: () => Promise<T>
+	): Promise<{ result: T; requests: PlannedRequest[] }> {
+		const scope: DryRunScope = { requests: [] };
+		const result = await this.dryRunScope.run(scope, operation);
+		return { result, requests: scope.requests };
+	}
+
+	private isDryRun(): boolean {
+		return this.dryRunScope.getStore() !== undefined;
 	}
 
 	/**
-	 * Получить проект с данными (включая задачи)
+	 * Может ли moveTask пересоздать задачу с удалением исходной: API
+	 * перемещения не поддерживается или еще не проверялся
 	 */
-	async getProjectWithData(projectId: string): Promise<ProjectData> {
-		return this.makeAuthenticatedRequest<ProjectData>(
-			`/project/${projectId}/data`
-		);
+	mayRecreateOnMove(): boolean {
+		return this.moveEndpointSupported !== true;
 	}
 
 	/**
-	 * Создать новый проект с валидацией
+	 * Переместить задачу в другой проект. Если API не поддерживает перемещение,
+	 * задача пересоздается в целевом проекте (с проверкой копии) и удаляется из
+	 * исходного - в этом случае у нее будет новый ID.
 	 */
-	async createProject(project: CreateProjectRequest): Promise<Project> {
-		// Валидация обязательных полей
-		if (!project.name?.trim()) {
-			throw new TickTickValidationError("Название проекта обязательно");
+	async moveTask(
+		fromProjectId: string,
+		taskId: string,
+		toProjectId: string
+	): Promise<MoveTaskResult> {
+		if (!toProjectId?.trim()) {
+			throw new TickTickValidationError("ID целевого проекта обязателен");
 		}
-
-		// Валидация цвета
-		if (project.color && !validateProjectColor(project.color)) {
+		if (fromProjectId === toProjectId) {
 			throw new TickTickValidationError(
-				`Невалидный цвет проекта: ${project.color}. Ожидается формат #RRGGBB`,
-				{ field: "color", value: project.color }
+				"Задача уже находится в целевом проекте",
+				{ field: "targetProjectId", value: toProjectId }
 			);
 		}
 
-		// Валидация режима отображения
-		if (project.viewMode && !validateViewMode(project.viewMode)) {
-			throw new TickTickValidationError(
-				`Невалидный режим отображения: ${project.viewMode}. Допустимые значения: list, kanban, timeline`,
-				{ field: "viewMode", value: project.viewMode }
-			);
-		}
+		const task = await this.getTask(fromProjectId, taskId);
+		// Проверяем целевой проект до изменений, чтобы не потерять задачу
+		await this.getProject(toProjectId);
 
-		// Валидация типа проекта
-		if (project.kind && !validateProjectKind(project.kind)) {
-			throw new TickTickValidationError(
-				`Невалидный тип проекта: ${project.kind}. Допустимые значения: TASK, NOTE`,
-				{ field: "kind", value: project.kind }
-			);
+		if (this.moveEndpointSupported !== false) {
+			const moved = await this.moveTaskDirectly({
+				fromProjectId,
+				toProjectId,
+				taskId,
+			});
+			if (moved) {
+				this.recordChange({
+					type: "moveTask",
+					taskId,
+					fromProjectId,
+					toProjectId,
+				});
+				return {
+					taskId,
+					newTaskId: taskId,
+					fromProjectId,
+					toProjectId,
+					method: "move",
+					task: this.isDryRun()
+						? { ...task, projectId: toProjectId }
+						: await this.getTask(toProjectId, taskId),
+				};
+			}
 		}
 
-		return this.makeAuthenticatedRequest<Project>("/project", {
-			method: "POST",
-			body: JSON.stringify(project),
-		});
+		return this.recreateTask(task, toProjectId);
 	}
 
 	/**
-	 * Обновить проект с валидацией
+	 * Переместить задачу через API. Возвращает false, если API не поддерживает
+	 * перемещение.
 	 */
-	async updateProject(
-		projectId: string,
-		project: UpdateProjectRequest
-	): Promise<Project> {
-		// Валидация ID проекта
-		if (!projectId?.trim()) {
-			throw new TickTickValidationError("ID проекта обязателен");
+	private async moveTaskDirectly(move: MoveTaskRequest): Promise<boolean> {
+		try {
+			await this.makeAuthenticatedRequest<unknown>("/task/move", {
+				method: "POST",
+				body: JSON.stringify([move]),
+			});
+		} catch (error) {
+			if (
+				error instanceof TickTickApiError &&
+				(error.status === 404 || error.status === 405 || error.status === 501)
+			) {
+				this.logger.warn(
+					"Task move endpoint is not supported, falling back to recreate"
+				);
+				this.moveEndpointSupported = false;
+				return false;
+			}
+			throw error;
+		} finally {
+			this.invalidateTask(move.fromProjectId, move.taskId);
+			this.cache.invalidate(projectDataCacheKey(move.toProjectId));
 		}
 
-		// Валидация названия (если указано)
-		if (project.name !== undefined && !project.name?.trim()) {
-			throw new TickTickValidationError(
-				"Название проекта не может быть пустым"
-			);
+		// В режиме dryRun запрос не отправлялся, поддержка API не проверена
+		if (!this.isDryRun()) {
+			this.moveEndpointSupported = true;
 		}
+		return true;
+	}
 
-		// Валидация цвета
-		if (project.color && !validateProjectColor(project.color)) {
-			throw new TickTickValidationError(
-				`Невалидный цвет проекта: ${project.color}. Ожидается формат #RRGGBB`,
-				{ field: "color", value: project.color }
+	/**
+	 * Создать копию задачи в целевом проекте, проверить ее и удалить исходную
+	 */
+	private async recreateTask(
+		task: Task,
+		toProjectId: string
+	): Promise<MoveTaskResult> {
+		const created = await this.createTask(
+			this.toCreateTaskRequest(task, toProjectId)
+		);
+
+		// В режиме dryRun копия не создается, проверять нечего
+		const copy = this.isDryRun()
+			? created
+			: await this.getTask(toProjectId, created.id);
+		const differences = findCopyDifferences(task, copy);
+		if (differences.length > 0) {
+			throw new TickTickApiError(
+				`Копия задачи "${
+					task.title
+				}" в проекте ${toProjectId} не совпадает с исходной (${differences.join(
+					", "
+				)}), исходная задача не удалена`,
+				undefined,
+				TickTickErrorCode.SERVER_ERROR,
+				{ taskId: task.id, newTaskId: created.id, differences }
 			);
 		}
 
-		// Валидация режима отображения
-		if (project.viewMode && !validateViewMode(project.viewMode)) {
-			throw new TickTickValidationError(
-				`Невалидный режим отображения: ${project.viewMode}. Допустимые значения: list, kanban, timeline`,
-				{ field: "viewMode", value: project.viewMode }
-			);
+		// Перенос статуса копии, а не новое завершение: в журнал не пишется
+		if (task.status === 2) {
+			await this.sendTaskCompletion(toProjectId, created.id);
 		}
 
-		// Валидация типа проекта
-		if (project.kind && !validateProjectKind(project.kind)) {
-			throw new TickTickValidationError(
-				`Невалидный тип проекта: ${project.kind}. Допустимые значения: TASK, NOTE`,
-				{ field: "kind", value: project.kind }
+		const result: MoveTaskResult = {
+			taskId: task.id,
+			newTaskId: created.id,
+			fromProjectId: task.projectId,
+			toProjectId,
+			method: "recreate",
+			task: copy,
+		};
+
+		try {
+			await this.deleteTask(task.projectId, task.id);
+		} catch (error) {
+			this.logger.error(
+				`Failed to delete source task ${task.id} after copying it to ${toProjectId}`,
+				error
 			);
+			result.warning = `Копия создана, но исходную задачу удалить не удалось: ${
+				(error as Error).message
+			}`;
 		}
 
-		return this.makeAuthenticatedRequest<Project>(`/project/${projectId}`, {
-			method: "POST",
-			body: JSON.stringify(project),
-		});
-	}
-
-	/**
-	 * Удалить проект
-	 */
-	async deleteProject(projectId: string): Promise<void> {
-		await this.makeAuthenticatedRequest<void>(`/project/${projectId}`, {
-			method: "DELETE",
-		});
+		return result;
 	}
 
 	/**
-	 * Получить задачу по ID
+	 * Запрос на создание копии задачи (с подзадачами, напоминаниями,
+	 * повторением и тегами) в указанном проекте
 	 */
-	async getTask(projectId: string, taskId: string): Promise<Task> {
-		return this.makeAuthenticatedRequest<Task>(
-			`/project/${projectId}/task/${taskId}`
-		);
+	private toCreateTaskRequest(
+		task: Task,
+		projectId: string
+	): CreateTaskRequest {
+		return {
+			title: task.title,
+			projectId,
+			content: task.content,
+			desc: task.desc,
+			isAllDay: task.isAllDay,
+			startDate: task.startDate,
+			dueDate: task.dueDate,
+			timeZone: task.timeZone,
+			reminders: task.reminders,
+			repeatFlag: task.repeatFlag,
+			priority: task.priority,
+			sortOrder: task.sortOrder,
+			tags: task.tags,
+			items: task.items?.map(({ id, completedTime, ...item }) => item),
+		};
 	}
 
 	/**
-	 * Создать новую задачу с валидацией
+	 * Преобразовать подзадачи в отдельные задачи. Подзадачи удаляются из
+	 * исходной задачи только после того, как задачи для них созданы.
 	 */
-	async createTask(task: CreateTaskRequest): Promise<Task> {
-		// Валидация обязательных полей
-		if (!task.title?.trim()) {
-			throw new TickTickValidationError("Название задачи обязательно");
+	async promoteChecklistItems(
+		projectId: string,
+		taskId: string,
+		itemIds: string[],
+		options: PromoteChecklistItemsOptions = {}
+	): Promise<ChecklistConversionResult> {
+		if (itemIds.length === 0) {
+			throw new TickTickValidationError("Укажите хотя бы одну подзадачу", {
+				field: "itemIds",
+			});
 		}
-
-		if (!task.projectId?.trim()) {
-			throw new TickTickValidationError("ID проекта обязателен");
+		if (new Set(itemIds).size !== itemIds.length) {
+			throw new TickTickValidationError("ID подзадач не должны повторяться", {
+				field: "itemIds",
+				value: itemIds,
+			});
 		}
 
-		// Валидация и нормализация дат
-		if (task.startDate) {
-			try {
-				// Используем parseAndFormatDate для поддержки различных форматов дат
-				task.startDate = parseAndFormatDate(task.startDate, task.timeZone);
-			} catch (error) {
-				throw new TickTickValidationError(
-					`Невалидная дата начала: ${task.startDate}`,
-					{ field: "startDate", value: task.startDate }
-				);
+		const targetProjectId = options.targetProjectId || projectId;
+		this.cache.invalidate(taskCacheKey(projectId, taskId));
+		const task = await this.getTask(projectId, taskId);
+
+		const items = itemIds.map((id) => {
+			const item = task.items?.find((item) => item.id === id);
+			if (!item) {
+				throw new TickTickValidationError(`Подзадача с ID ${id} не найдена`, {
+					field: "itemIds",
+					value: id,
+				});
 			}
+			return item;
+		});
+
+		if (targetProjectId !== projectId) {
+			await this.getProject(targetProjectId);
 		}
 
-		if (task.dueDate) {
-			try {
-				// Используем parseAndFormatDate для поддержки различных форматов дат
-				task.dueDate = parseAndFormatDate(task.dueDate, task.timeZone);
-			} catch (error) {
-				throw new TickTickValidationError(
-					`Невалидная дата окончания: ${task.dueDate}`,
-					{ field: "dueDate", value: task.dueDate }
-				);
-			}
+		const created = await this.runBatch(items, (item) =>
+			this.createTaskFromItem(task, item, targetProjectId, options)
+		);
+
+		const results: ChecklistConversionItemResult[] = created.map((result) =>
+			result.error === undefined
+				? {
+						success: true,
+						title: result.item.title,
+						itemId: result.item.id,
+						projectId: targetProjectId,
+						taskId: result.value!.id,
+						task: result.value,
+				  }
+				: {
+						success: false,
+						title: result.item.title,
+						itemId: result.item.id,
+						...this.describeFailure(result.error),
+				  }
+		);
+
+		const promotedIds = results
+			.filter((result) => result.success)
+			.map((result) => result.itemId!);
+		const summary = {
+			converted: promotedIds.length,
+			failed: results.length - promotedIds.length,
+			results,
+		};
+
+		if (promotedIds.length === 0) {
+			return { task, changes: [], ...summary };
 		}
 
-		// Проверяем, что дата начала не позже даты окончания
 		try {
-			validateTaskDates(task.startDate, task.dueDate);
-		} catch (error) {
-			throw new TickTickValidationError((error as Error).message, {
-				field: "dateRange",
-				value: { startDate: task.startDate, dueDate: task.dueDate },
+			const { after, changes } = await this.patchTask(projectId, taskId, {
+				removeItemIds: promotedIds,
 			});
+			return { task: after, changes, ...summary };
+		} catch (error) {
+			this.logger.error(
+				`Failed to remove promoted checklist items from task ${taskId}`,
+				error
+			);
+			return {
+				task,
+				changes: [],
+				...summary,
+				warning: `Задачи созданы, но подзадачи не удалось удалить из исходной задачи: ${
+					(error as Error).message
+				}`,
+			};
 		}
+	}
 
-		// Валидация правила повторения
-		if (task.repeatFlag) {
-			try {
-				validateTaskRepeatFlag(task.repeatFlag);
-			} catch (error) {
-				throw new TickTickValidationError((error as Error).message, {
-					field: "repeatFlag",
-					value: task.repeatFlag,
-				});
-			}
+	/**
+	 * Создать задачу из подзадачи. Собственная дата подзадачи становится датой
+	 * начала задачи, иначе даты берутся из исходной задачи (если включено).
+	 */
+	private async createTaskFromItem(
+		source: Task,
+		item: ChecklistItem,
+		projectId: string,
+		{
+			inheritDates = true,
+			inheritPriority = true,
+		}: PromoteChecklistItemsOptions
+	): Promise<Task> {
+		const itemStartDate =
+			typeof item.startDate === "number"
+				? new Date(item.startDate).toISOString()
+				: item.startDate || undefined;
+		const dates = itemStartDate
+			? {
+					isAllDay: item.isAllDay,
+					startDate: itemStartDate,
+					timeZone: item.timeZone || source.timeZone,
+			  }
+			: inheritDates
+			? {
+					isAllDay: source.isAllDay,
+					startDate: source.startDate || undefined,
+					dueDate: source.dueDate || undefined,
+					timeZone: source.timeZone || undefined,
+			  }
+			: {};
+
+		const task = await this.createTask({
+			title: item.title,
+			projectId,
+			...dates,
+			priority: inheritPriority ? source.priority : undefined,
+		});
+
+		if (item.status === 1) {
+			await this.sendTaskCompletion(projectId, task.id);
+			return { ...task, status: 2 };
 		}
 
-		// Валидация временной зоны
-		if (task.timeZone && !validateTimeZone(task.timeZone)) {
+		return task;
+	}
+
+	/**
+	 * Перенести задачи в чек-лист целевой задачи. Исходные задачи завершаются
+	 * или удаляются только после того, как подзадачи для них добавлены.
+	 */
+	async foldTasksIntoChecklist(
+		projectId: string,
+		taskId: string,
+		sources: { projectId: string; taskId: string }[],
+		sourceAction: FoldSourceAction = "complete"
+	): Promise<ChecklistConversionResult> {
+		if (sources.length === 0) {
+			throw new TickTickValidationError("Укажите хотя бы одну задачу", {
+				field: "tasks",
+			});
+		}
+		if (sources.some((source) => source.taskId === taskId)) {
 			throw new TickTickValidationError(
-				`Невалидная временная зона: ${task.timeZone}`,
-				{ field: "timeZone", value: task.timeZone }
+				"Задачу нельзя перенести в ее собственный чек-лист",
+				{ field: "tasks", value: taskId }
 			);
 		}
+		if (
+			new Set(sources.map((source) => source.taskId)).size !== sources.length
+		) {
+			throw new TickTickValidationError("Задачи не должны повторяться", {
+				field: "tasks",
+			});
+		}
 
-		// Валидация приоритета
-		if (task.priority !== undefined && !validatePriority(task.priority)) {
-			throw new TickTickValidationError(
-				`Невалидный приоритет: ${task.priority}. Допустимые значения: 0, 1, 3, 5`,
-				{ field: "priority", value: task.priority }
-			);
+		const loaded = await this.runBatch(sources, (source) =>
+			this.getTask(source.projectId, source.taskId)
+		);
+
+		const results: ChecklistConversionItemResult[] = loaded.map((result) =>
+			result.error === undefined
+				? {
+						success: true,
+						title: result.value!.title,
+						projectId: result.item.projectId,
+						taskId: result.item.taskId,
+				  }
+				: {
+						success: false,
+						projectId: result.item.projectId,
+						taskId: result.item.taskId,
+						...this.describeFailure(result.error),
+				  }
+		);
+		const tasks = loaded
+			.filter((result) => result.error === undefined)
+			.map((result) => result.value!);
+
+		if (tasks.length === 0) {
+			return {
+				task: await this.getTask(projectId, taskId),
+				changes: [],
+				converted: 0,
+				failed: results.length,
+				results,
+			};
 		}
 
-		// Валидация подзадач
-		if (task.items) {
-			for (let i = 0; i < task.items.length; i++) {
+		// Ошибка здесь прерывает операцию до изменения исходных задач
+		const { before, after, changes } = await this.patchTask(projectId, taskId, {
+			addItems: tasks.map((task) => ({
+				title: task.title,
+				status: task.status === 2 ? 1 : 0,
+				isAllDay: task.isAllDay,
+				startDate: task.startDate || task.dueDate || undefined,
+				timeZone: task.timeZone || undefined,
+			})),
+		});
+
+		const beforeIds = new Set((before.items || []).map((item) => item.id));
+		const addedItems = (after.items || []).filter(
+			(item) => !beforeIds.has(item.id)
+		);
+
+		const finished = await this.runBatch(tasks, async (task) => {
+			if (sourceAction === "delete") {
+				await this.deleteTask(task.projectId, task.id);
+			} else if (task.status !== 2) {
+				await this.completeTask(task.projectId, task.id);
+			}
+		});
+
+		for (const [index, task] of tasks.entries()) {
+			const result = results.find((result) => result.taskId === task.id)!;
+			const itemIndex = addedItems.findIndex(
+				(item) => item.title === task.title
+			);
+			if (itemIndex !== -1) {
+				result.itemId = addedItems.splice(itemIndex, 1)[0].id;
+			}
+
+			const warnings: string[] = [];
+			if (task.content || task.desc || task.items?.length) {
+				warnings.push(
+					"описание и подзадачи исходной задачи в чек-лист не переносятся"
+				);
+			}
+			const error = finished[index].error;
+			if (error !== undefined) {
+				this.logger.error(
+					`Failed to ${sourceAction} source task ${task.id} after folding it into task ${taskId}`,
+					error
+				);
+				warnings.push(
+					`исходную задачу не удалось ${
+						sourceAction === "delete" ? "удалить" : "завершить"
+					}: ${error instanceof Error ? error.message : String(error)}`
+				);
+			}
+			if (warnings.length > 0) {
+				result.warning = warnings.join("; ");
+			}
+		}
+
+		return {
+			task: after,
+			changes,
+			converted: tasks.length,
+			failed: results.length - tasks.length,
+			results,
+		};
+	}
+
+	private describeFailure(error: unknown): {
+		error: string;
+		code?: TickTickErrorCode;
+	} {
+		return {
+			error: error instanceof Error ? error.message : String(error),
+			code: error instanceof TickTickApiError ? error.code : undefined,
+		};
+	}
+
+	/**
+	 * Сбросить кэш ответов: весь или только для одного проекта
+	 */
+	clearCache(projectId?: string): void {
+		if (projectId) {
+			this.invalidateProject(projectId);
+		} else {
+			this.cache.clear();
+		}
+	}
+
+	getCacheStats(): CacheStats {
+		return this.cache.getStats();
+	}
+
+	/**
+	 * Настройки разбора дат аккаунта: временная зона и порядок дня и месяца
+	 */
+	getDateOptions(): DateParseOptions {
+		return { ...this.dateOptions };
+	}
+
+	/**
+	 * Текущее состояние клиента: бюджет запросов, очереди и кэш
+	 */
+	getStatus(): ClientStatus {
+		return {
+			rateLimit: this.rateLimiter.getStatus(),
+			fetchPool: this.fetchPool.getStatus(),
+			cache: this.cache.getStats(),
+		};
+	}
+
+	/**
+	 * Сбросить кэш проекта: сам проект, список проектов, данные и задачи проекта
+	 */
+	private invalidateProject(projectId: string): void {
+		this.cache.invalidateWhere(
+			(key) =>
+				key === PROJECTS_CACHE_KEY ||
+				key === projectCacheKey(projectId) ||
+				key === projectDataCacheKey(projectId) ||
+				key.startsWith(taskCacheKey(projectId, ""))
+		);
+	}
+
+	/**
+	 * Сбросить кэш задачи и данных ее проекта. Задача могла быть перенесена из
+	 * другого проекта, поэтому сбрасываются и все данные проектов, где она есть.
+	 */
+	private invalidateTask(projectId: string, taskId: string): void {
+		this.cache.invalidateWhere(
+			(key, value) =>
+				key === projectDataCacheKey(projectId) ||
+				(key.startsWith("task:") && key.endsWith(`:${taskId}`)) ||
+				(key.startsWith(projectDataCacheKey("")) &&
+					!!(value as ProjectData | undefined)?.tasks?.some(
+						(task) => task.id === taskId
+					))
+		);
+	}
+
+	/**
+	 * Получить все проекты пользователя
+	 */
+	async getProjects(): Promise<Project[]> {
+		return this.cache.getOrLoad(PROJECTS_CACHE_KEY, () =>
+			this.makeAuthenticatedRequest<Project[]>("/project")
+		);
+	}
+
+	/**
+	 * Получить проект по ID
+	 */
+	async getProject(projectId: string): Promise<Project> {
+		return this.cache.getOrLoad(projectCacheKey(projectId), () =>
+			this.makeAuthenticatedRequest<Project>(`/project/${projectId}`)
+		);
+	}
+
+	/**
+	 * Получить проект с данными (включая задачи)
+	 */
+	async getProjectWithData(projectId: string): Promise<ProjectData> {
+		return this.cache.getOrLoad(projectDataCacheKey(projectId), () =>
+			this.makeAuthenticatedRequest<ProjectData>(`/project/${projectId}/data`)
+		);
+	}
+
+	/**
+	 * Создать новый проект с валидацией
+	 */
+	async createProject(project: CreateProjectRequest): Promise<Project> {
+		// Валидация обязательных полей
+		if (!project.name?.trim()) {
+			throw new TickTickValidationError("Название проекта обязательно");
+		}
+
+		// Валидация цвета
+		if (project.color && !validateProjectColor(project.color)) {
+			throw new TickTickValidationError(
+				`Невалидный цвет проекта: ${project.color}. Ожидается формат #RRGGBB`,
+				{ field: "color", value: project.color }
+			);
+		}
+
+		// Валидация режима отображения
+		if (project.viewMode && !validateViewMode(project.viewMode)) {
+			throw new TickTickValidationError(
+				`Невалидный режим отображения: ${project.viewMode}. Допустимые значения: list, kanban, timeline`,
+				{ field: "viewMode", value: project.viewMode }
+			);
+		}
+
+		// Валидация типа проекта
+		if (project.kind && !validateProjectKind(project.kind)) {
+			throw new TickTickValidationError(
+				`Невалидный тип проекта: ${project.kind}. Допустимые значения: TASK, NOTE`,
+				{ field: "kind", value: project.kind }
+			);
+		}
+
+		try {
+			const created = await this.makeAuthenticatedRequest<Project>("/project", {
+				method: "POST",
+				body: JSON.stringify(project),
+			});
+			this.recordChange({ type: "createProject", projectId: created.id });
+			return created;
+		} finally {
+			this.cache.invalidate(PROJECTS_CACHE_KEY);
+		}
+	}
+
+	/**
+	 * Обновить проект с валидацией
+	 */
+	async updateProject(
+		projectId: string,
+		project: UpdateProjectRequest
+	): Promise<Project> {
+		// Валидация ID проекта
+		if (!projectId?.trim()) {
+			throw new TickTickValidationError("ID проекта обязателен");
+		}
+
+		// Валидация названия (если указано)
+		if (project.name !== undefined && !project.name?.trim()) {
+			throw new TickTickValidationError(
+				"Название проекта не может быть пустым"
+			);
+		}
+
+		// Валидация цвета
+		if (project.color && !validateProjectColor(project.color)) {
+			throw new TickTickValidationError(
+				`Невалидный цвет проекта: ${project.color}. Ожидается формат #RRGGBB`,
+				{ field: "color", value: project.color }
+			);
+		}
+
+		// Валидация режима отображения
+		if (project.viewMode && !validateViewMode(project.viewMode)) {
+			throw new TickTickValidationError(
+				`Невалидный режим отображения: ${project.viewMode}. Допустимые значения: list, kanban, timeline`,
+				{ field: "viewMode", value: project.viewMode }
+			);
+		}
+
+		// Валидация типа проекта
+		if (project.kind && !validateProjectKind(project.kind)) {
+			throw new TickTickValidationError(
+				`Невалидный тип проекта: ${project.kind}. Допустимые значения: TASK, NOTE`,
+				{ field: "kind", value: project.kind }
+			);
+		}
+
+		let before: Project | undefined;
+		if (this.isRecordingUndo()) {
+			this.cache.invalidate(projectCacheKey(projectId));
+			before = await this.getProject(projectId);
+		}
+
+		try {
+			const updated = await this.makeAuthenticatedRequest<Project>(
+				`/project/${projectId}`,
+				{
+					method: "POST",
+					body: JSON.stringify(project),
+				}
+			);
+			if (before) {
+				this.recordChange({ type: "updateProject", before });
+			}
+			return updated;
+		} finally {
+			this.invalidateProject(projectId);
+		}
+	}
+
+	/**
+	 * Удалить проект
+	 */
+	async deleteProject(projectId: string): Promise<void> {
+		// Для отмены сохраняется проект вместе с задачами
+		let before: ProjectData | undefined;
+		if (this.isRecordingUndo()) {
+			this.cache.invalidate(projectDataCacheKey(projectId));
+			before = await this.getProjectWithData(projectId);
+		}
+
+		try {
+			await this.makeAuthenticatedRequest<void>(`/project/${projectId}`, {
+				method: "DELETE",
+			});
+			if (before) {
+				this.recordChange({ type: "deleteProject", before });
+			}
+		} finally {
+			this.invalidateProject(projectId);
+		}
+	}
+
+	/**
+	 * Получить задачу по ID
+	 */
+	async getTask(projectId: string, taskId: string): Promise<Task> {
+		return this.cache.getOrLoad(taskCacheKey(projectId, taskId), () =>
+			this.makeAuthenticatedRequest<Task>(
+				`/project/${projectId}/task/${taskId}`
+			)
+		);
+	}
+
+	/**
+	 * Ближайшие вхождения повторяющейся задачи по ее repeatFlag
+	 */
+	async getTaskOccurrences(
+		projectId: string,
+		taskId: string,
+		options: TaskOccurrencesOptions
+	): Promise<TaskOccurrencesResult> {
+		const task = await this.getTask(projectId, taskId);
+		const timeZone = task.timeZone || this.dateOptions.defaultTimeZone || "UTC";
+		const from = options.from
+			? new Date(
+					this.parseTaskDate(
+						options.from,
+						timeZone,
+						this.dateOptions,
+						"from",
+						"Невалидная дата from"
+					)
+			  )
+			: new Date();
+
+		try {
+			const occurrences = expandTaskOccurrences(task, {
+				from,
+				limit: options.limit,
+				defaultTimeZone: timeZone,
+			});
+			return { task, timeZone, occurrences };
+		} catch (error) {
+			throw new TickTickValidationError(
+				error instanceof Error ? error.message : String(error),
+				{ field: "repeatFlag", value: task.repeatFlag }
+			);
+		}
+	}
+
+	/**
+	 * Создать новую задачу с валидацией
+	 */
+	async createTask(
+		task: CreateTaskRequest,
+		options: TaskDateOptions = {}
+	): Promise<Task> {
+		// Валидация обязательных полей
+		if (!task.title?.trim()) {
+			throw new TickTickValidationError("Название задачи обязательно");
+		}
+
+		if (!task.projectId?.trim()) {
+			throw new TickTickValidationError("ID проекта обязателен");
+		}
+
+		// Валидация и нормализация дат
+		const dateOptions: DateParseOptions = {
+			...this.dateOptions,
+			dateOrder: options.dateOrder || this.dateOptions.dateOrder,
+		};
+
+		if (task.startDate) {
+			task.startDate = this.parseTaskDate(
+				task.startDate,
+				task.timeZone,
+				dateOptions,
+				"startDate",
+				"Невалидная дата начала"
+			);
+		}
+
+		if (task.dueDate) {
+			task.dueDate = this.parseTaskDate(
+				task.dueDate,
+				task.timeZone,
+				dateOptions,
+				"dueDate",
+				"Невалидная дата окончания"
+			);
+		}
+
+		if (task.repeat !== undefined) {
+			task.repeatFlag = this.resolveRepeat(
+				task.repeat,
+				task.repeatFlag,
+				task.timeZone,
+				dateOptions
+			);
+			delete task.repeat;
+		}
+
+		// Проверяем, что дата начала не позже даты окончания
+		try {
+			validateTaskDates(task.startDate, task.dueDate);
+		} catch (error) {
+			throw new TickTickValidationError((error as Error).message, {
+				field: "dateRange",
+				value: { startDate: task.startDate, dueDate: task.dueDate },
+			});
+		}
+
+		// Валидация правила повторения
+		if (task.repeatFlag) {
+			try {
+				validateTaskRepeatFlag(task.repeatFlag);
+			} catch (error) {
+				throw new TickTickValidationError((error as Error).message, {
+					field: "repeatFlag",
+					value: task.repeatFlag,
+				});
+			}
+		}
+
+		// Валидация и нормализация напоминаний
+		if (task.reminders) {
+			task.reminders = task.reminders.map((reminder) =>
+				parseReminder(reminder)
+			);
+		}
+
+		// Валидация временной зоны
+		if (task.timeZone && !validateTimeZone(task.timeZone)) {
+			throw new TickTickValidationError(
+				`Невалидная временная зона: ${task.timeZone}`,
+				{ field: "timeZone", value: task.timeZone }
+			);
+		}
+
+		// Валидация приоритета
+		if (task.priority !== undefined && !validatePriority(task.priority)) {
+			throw new TickTickValidationError(
+				`Невалидный приоритет: ${task.priority}. Допустимые значения: 0, 1, 3, 5`,
+				{ field: "priority", value: task.priority }
+			);
+		}
+
+		// Валидация подзадач
+		if (task.items) {
+			for (let i = 0; i < task.items.length; i++) {
 				const item = task.items[i];
 				if (!item.title?.trim()) {
 					throw new TickTickValidationError(
@@ -487,23 +1459,20 @@ export class TickTickClient {
 					);
 				}
 
-				if (item.startDate) {
-					try {
-						// Для подзадач поддерживаем как строки, так и timestamp
-						if (typeof item.startDate === "number") {
-							// Если это timestamp, просто используем его
-							// Никаких преобразований не требуется, API ожидает timestamp для подзадач
-						} else {
-							// Если это строка, преобразуем в timestamp
-							const dateStr = parseAndFormatDate(item.startDate, item.timeZone);
-							item.startDate = new Date(dateStr).getTime();
-						}
-					} catch (error) {
-						throw new TickTickValidationError(
-							`Невалидная дата начала подзадачи ${i + 1}: ${item.startDate}`,
-							{ field: `items[${i}].startDate`, value: item.startDate }
-						);
-					}
+				// Для подзадач поддерживаем как строки, так и timestamp: API
+				// ожидает timestamp, поэтому строки преобразуются
+				if (item.startDate && typeof item.startDate === "string") {
+					const dateStr = this.parseTaskDate(
+						item.startDate,
+						item.timeZone,
+						{
+							...dateOptions,
+							defaultTimeZone: task.timeZone || dateOptions.defaultTimeZone,
+						},
+						`items[${i}].startDate`,
+						`Невалидная дата начала подзадачи ${i + 1}`
+					);
+					item.startDate = new Date(dateStr).getTime();
 				}
 
 				if (item.timeZone && !validateTimeZone(item.timeZone)) {
@@ -515,16 +1484,85 @@ export class TickTickClient {
 			}
 		}
 
-		return this.makeAuthenticatedRequest<Task>("/task", {
-			method: "POST",
-			body: JSON.stringify(task),
+		try {
+			const created = await this.makeAuthenticatedRequest<Task>("/task", {
+				method: "POST",
+				body: JSON.stringify(task),
+			});
+			this.recordChange({
+				type: "createTask",
+				projectId: created.projectId || task.projectId,
+				taskId: created.id,
+			});
+			return created;
+		} finally {
+			this.cache.invalidate(projectDataCacheKey(task.projectId));
+		}
+	}
+
+	/**
+	 * Привести дату задачи или подзадачи к ISO 8601. Неоднозначная дата
+	 * (05.03.2025 без заданного порядка) отклоняется с описанием обоих прочтений.
+	 */
+	private parseTaskDate(
+		value: string,
+		timeZone: string | undefined,
+		options: DateParseOptions,
+		field: string,
+		label: string
+	): string {
+		try {
+			return parseAndFormatDate(value, timeZone, options);
+		} catch (error) {
+			if (error instanceof AmbiguousDateError) {
+				throw new TickTickValidationError(`${label}: ${error.message}`, {
+					field,
+					value,
+					readings: error.readings,
+				});
+			}
+			throw new TickTickValidationError(`${label}: ${value}`, {
+				field,
+				value,
+			});
+		}
+	}
+
+	/**
+	 * Преобразовать repeat (RRULE, текст или структура) в repeatFlag. UNTIL из
+	 * текста считается в зоне задачи.
+	 */
+	private resolveRepeat(
+		repeat: RecurrenceInput,
+		repeatFlag: string | undefined,
+		timeZone: string | undefined,
+		options: DateParseOptions
+	): string {
+		if (repeatFlag) {
+			throw new TickTickValidationError(
+				"Нельзя одновременно указать repeat и repeatFlag",
+				{ field: "repeat", value: repeat }
+			);
+		}
+		return resolveRecurrence(repeat, {
+			...options,
+			timeZone: timeZone || options.defaultTimeZone || "UTC",
 		});
 	}
 
 	/**
 	 * Обновить задачу с валидацией
+	 * @param unchanged Поля, взятые из сохраненного состояния задачи без
+	 * изменений: repeatFlag и reminders из них отправляются как есть, чтобы
+	 * значения, которые не понимают локальные кодеки, не блокировали правку
+	 * других полей
 	 */
-	async updateTask(taskId: string, task: UpdateTaskRequest): Promise<Task> {
+	async updateTask(
+		taskId: string,
+		task: UpdateTaskRequest,
+		options: TaskDateOptions = {},
+		unchanged: ReadonlySet<keyof UpdateTaskRequest> = new Set()
+	): Promise<Task> {
 		// Валидация обязательных полей
 		if (!taskId?.trim()) {
 			throw new TickTickValidationError("ID задачи обязателен");
@@ -539,28 +1577,39 @@ export class TickTickClient {
 		}
 
 		// Валидация и нормализация дат
+		const dateOptions: DateParseOptions = {
+			...this.dateOptions,
+			dateOrder: options.dateOrder || this.dateOptions.dateOrder,
+		};
+
 		if (task.startDate) {
-			try {
-				// Используем parseAndFormatDate для поддержки различных форматов дат
-				task.startDate = parseAndFormatDate(task.startDate, task.timeZone);
-			} catch (error) {
-				throw new TickTickValidationError(
-					`Невалидная дата начала: ${task.startDate}`,
-					{ field: "startDate", value: task.startDate }
-				);
-			}
+			task.startDate = this.parseTaskDate(
+				task.startDate,
+				task.timeZone,
+				dateOptions,
+				"startDate",
+				"Невалидная дата начала"
+			);
 		}
 
 		if (task.dueDate) {
-			try {
-				// Используем parseAndFormatDate для поддержки различных форматов дат
-				task.dueDate = parseAndFormatDate(task.dueDate, task.timeZone);
-			} catch (error) {
-				throw new TickTickValidationError(
-					`Невалидная дата окончания: ${task.dueDate}`,
-					{ field: "dueDate", value: task.dueDate }
-				);
-			}
+			task.dueDate = this.parseTaskDate(
+				task.dueDate,
+				task.timeZone,
+				dateOptions,
+				"dueDate",
+				"Невалидная дата окончания"
+			);
+		}
+
+		if (task.repeat !== undefined) {
+			task.repeatFlag = this.resolveRepeat(
+				task.repeat,
+				task.repeatFlag,
+				task.timeZone,
+				dateOptions
+			);
+			delete task.repeat;
 		}
 
 		// Проверяем, что дата начала не позже даты окончания
@@ -574,7 +1623,7 @@ export class TickTickClient {
 		}
 
 		// Валидация правила повторения
-		if (task.repeatFlag) {
+		if (task.repeatFlag && !unchanged.has("repeatFlag")) {
 			try {
 				validateTaskRepeatFlag(task.repeatFlag);
 			} catch (error) {
@@ -585,6 +1634,13 @@ export class TickTickClient {
 			}
 		}
 
+		// Валидация и нормализация напоминаний
+		if (task.reminders && !unchanged.has("reminders")) {
+			task.reminders = task.reminders.map((reminder) =>
+				parseReminder(reminder)
+			);
+		}
+
 		// Валидация временной зоны
 		if (task.timeZone && !validateTimeZone(task.timeZone)) {
 			throw new TickTickValidationError(
@@ -605,13 +1661,6 @@ export class TickTickClient {
 		if (task.items) {
 			for (let i = 0; i < task.items.length; i++) {
 				const item = task.items[i];
-				if (!item.id?.trim()) {
-					throw new TickTickValidationError(
-						`ID подзадачи ${i + 1} обязателен для обновления`,
-						{ field: `items[${i}].id`, value: item.id }
-					);
-				}
-
 				if (!item.title?.trim()) {
 					throw new TickTickValidationError(
 						`Название подзадачи ${i + 1} обязательно`,
@@ -619,23 +1668,20 @@ export class TickTickClient {
 					);
 				}
 
-				if (item.startDate) {
-					try {
-						// Для подзадач поддерживаем как строки, так и timestamp
-						if (typeof item.startDate === "number") {
-							// Если это timestamp, просто используем его
-							// Никаких преобразований не требуется, API ожидает timestamp для подзадач
-						} else {
-							// Если это строка, преобразуем в timestamp
-							const dateStr = parseAndFormatDate(item.startDate, item.timeZone);
-							item.startDate = new Date(dateStr).getTime();
-						}
-					} catch (error) {
-						throw new TickTickValidationError(
-							`Невалидная дата начала подзадачи ${i + 1}: ${item.startDate}`,
-							{ field: `items[${i}].startDate`, value: item.startDate }
-						);
-					}
+				// Для подзадач поддерживаем как строки, так и timestamp: API
+				// ожидает timestamp, поэтому строки преобразуются
+				if (item.startDate && typeof item.startDate === "string") {
+					const dateStr = this.parseTaskDate(
+						item.startDate,
+						item.timeZone,
+						{
+							...dateOptions,
+							defaultTimeZone: task.timeZone || dateOptions.defaultTimeZone,
+						},
+						`items[${i}].startDate`,
+						`Невалидная дата начала подзадачи ${i + 1}`
+					);
+					item.startDate = new Date(dateStr).getTime();
 				}
 
 				if (item.timeZone && !validateTimeZone(item.timeZone)) {
@@ -647,74 +1693,570 @@ export class TickTickClient {
 			}
 		}
 
-		return this.makeAuthenticatedRequest<Task>(`/task/${taskId}`, {
-			method: "POST",
-			body: JSON.stringify(task),
-		});
+		// После patchTask состояние до изменения берется из свежего кэша
+		const before = this.isRecordingUndo()
+			? await this.getTask(task.projectId, taskId)
+			: undefined;
+
+		try {
+			const updated = await this.makeAuthenticatedRequest<Task>(
+				`/task/${taskId}`,
+				{
+					method: "POST",
+					body: JSON.stringify(task),
+				}
+			);
+			if (before) {
+				this.recordChange({ type: "updateTask", before });
+			}
+			return updated;
+		} finally {
+			this.invalidateTask(task.projectId, taskId);
+		}
 	}
 
 	/**
-	 * Завершить задачу
+	 * Частично обновить задачу: загрузить актуальное состояние (в обход кэша),
+	 * применить patch и отправить полный объект. Поля, не упомянутые в patch,
+	 * не теряются.
 	 */
-	async completeTask(projectId: string, taskId: string): Promise<void> {
-		await this.makeAuthenticatedRequest<void>(
-			`/project/${projectId}/task/${taskId}/complete`,
+	async patchTask(
+		projectId: string,
+		taskId: string,
+		patch: TaskPatch,
+		options: TaskDateOptions = {}
+	): Promise<TaskPatchResult> {
+		this.cache.invalidate(taskCacheKey(projectId, taskId));
+		const before = await this.getTask(projectId, taskId);
+
+		// repeat разбирается до применения patch: UNTIL зависит от зоны задачи
+		if (patch.set?.repeat !== undefined) {
+			const { repeat, ...set } = patch.set;
+			if (patch.unset?.includes("repeatFlag")) {
+				throw new TickTickValidationError(
+					"Поле repeat нельзя совмещать с очисткой repeatFlag",
+					{ field: "repeat", value: repeat }
+				);
+			}
+			const repeatFlag = this.resolveRepeat(
+				repeat,
+				set.repeatFlag,
+				set.timeZone || before.timeZone,
+				{
+					...this.dateOptions,
+					dateOrder: options.dateOrder || this.dateOptions.dateOrder,
+				}
+			);
+			patch = { ...patch, set: { ...set, repeatFlag } };
+		}
+
+		// updateTask нормализует даты на месте, поэтому передаем копию
+		const merged = structuredClone(applyTaskPatch(before, patch));
+
+		// Проверяются только поля, которые задает patch
+		const unchanged = new Set<keyof UpdateTaskRequest>();
+		if (
+			patch.set?.repeatFlag === undefined &&
+			!patch.unset?.includes("repeatFlag")
+		) {
+			unchanged.add("repeatFlag");
+		}
+		if (
+			patch.set?.reminders === undefined &&
+			!patch.unset?.includes("reminders") &&
+			!patch.addReminders?.length &&
+			!patch.removeReminders?.length
+		) {
+			unchanged.add("reminders");
+		}
+
+		const after = await this.updateTask(
+			taskId,
 			{
-				method: "POST",
+				...merged,
+				id: taskId,
+				projectId,
+			},
+			options,
+			unchanged
+		);
+
+		return { before, after, changes: diffTasks(before, after) };
+	}
+
+	/**
+	 * Завершить задачу. Если настроен журнал завершений, задача записывается в
+	 * него со снимком до завершения: после завершения API может ее не вернуть.
+	 */
+	async completeTask(projectId: string, taskId: string): Promise<void> {
+		const recordingUndo = this.isRecordingUndo();
+		if (recordingUndo) {
+			this.cache.invalidate(taskCacheKey(projectId, taskId));
+		}
+		const snapshot =
+			this.completionLog || recordingUndo
+				? await this.getTask(projectId, taskId).catch(() => undefined)
+				: undefined;
+
+		await this.sendTaskCompletion(projectId, taskId);
+
+		if (snapshot) {
+			this.recordChange({ type: "completeTask", before: snapshot });
+		}
+
+		if (this.completionLog && !this.isDryRun()) {
+			await this.recordCompletion({
+				projectId,
+				taskId,
+				title: snapshot?.title,
+				completedAt: new Date().toISOString(),
+				task: snapshot,
+			});
+		}
+	}
+
+	private async recordCompletion(record: CompletionRecord): Promise<void> {
+		try {
+			await this.completionLog!.append(record);
+		} catch (error) {
+			// Задача уже завершена в TickTick, поэтому ошибка журнала не возвращается
+			this.logger.error("Failed to write completion log", error);
+		}
+	}
+
+	/**
+	 * Задачи, завершенные через сервер, из журнала завершений (сначала последние)
+	 * @throws {TickTickValidationError} Если журнал не настроен или даты невалидны
+	 */
+	async getCompletedTasks(
+		query: CompletedTasksQuery = {}
+	): Promise<CompletionRecord[]> {
+		if (!this.completionLog) {
+			throw new TickTickValidationError(
+				"Журнал завершений не настроен: укажите TICKTICK_COMPLETION_LOG или completionLogPath аккаунта",
+				{ field: "completionLog" }
+			);
+		}
+
+		const range = parseDateRange(
+			"from",
+			query.from,
+			"to",
+			query.to,
+			this.dateOptions
+		);
+		return this.completionLog.list({ ...range, projectIds: query.projectIds });
+	}
+
+	hasCompletionLog(): boolean {
+		return this.completionLog !== undefined;
+	}
+
+	/**
+	 * Выполнить операцию с записью в журнал отмены: все изменения задач и
+	 * проектов внутри нее сохраняются одной записью вместе с состоянием до
+	 * изменения. Без журнала операция выполняется как есть.
+	 * @param clientId HTTP клиент, которому будет доступна отмена операции
+	 */
+	async withUndo<T>(
+		tool: string,
+		operation: () => Promise<T>,
+		clientId?: string
+	): Promise<T> {
+		if (!this.undoJournal) {
+			return operation();
+		}
+
+		const scope: UndoScope = { changes: [] };
+		try {
+			return await this.undoScope.run(scope, operation);
+		} finally {
+			// Частично выполненная операция тоже записывается
+			if (scope.changes.length > 0) {
+				await this.recordUndo({
+					id: randomUUID(),
+					tool,
+					createdAt: new Date().toISOString(),
+					changes: scope.changes,
+					clientId,
+				});
 			}
+		}
+	}
+
+	private isRecordingUndo(): boolean {
+		return this.undoScope.getStore() !== undefined && !this.isDryRun();
+	}
+
+	private recordChange(change: UndoChange): void {
+		if (this.isRecordingUndo()) {
+			this.undoScope.getStore()!.changes.push(change);
+		}
+	}
+
+	private async recordUndo(entry: UndoEntry): Promise<void> {
+		try {
+			await this.undoJournal!.append(entry);
+		} catch (error) {
+			// Изменение уже выполнено в TickTick, поэтому ошибка журнала не возвращается
+			this.logger.error(
+				`Failed to write undo journal entry for ${entry.tool}`,
+				error
+			);
+		}
+	}
+
+	/**
+	 * Записи журнала отмены, сначала последние
+	 * @throws {TickTickValidationError} Если журнал не настроен
+	 */
+	async getUndoHistory(): Promise<UndoEntry[]> {
+		if (!this.undoJournal) {
+			throw new TickTickValidationError(
+				"Журнал отмены не настроен: укажите TICKTICK_UNDO_JOURNAL или undoJournalPath аккаунта",
+				{ field: "undoJournal" }
+			);
+		}
+		return this.undoJournal.list();
+	}
+
+	/**
+	 * Отменить операцию из журнала. Изменения откатываются в обратном порядке:
+	 * созданное удаляется, измененное и завершенное возвращается к прежнему
+	 * состоянию, удаленные задачи и проекты создаются заново (с новыми ID).
+	 * Новые ID подставляются в остальные изменения записи и в другие записи
+	 * журнала. Неудавшиеся изменения остаются в записи, и их можно отменить
+	 * повторно.
+	 */
+	async undo(entry: UndoEntry): Promise<UndoResult> {
+		if (entry.undoneAt) {
+			throw new TickTickValidationError(
+				`Операция ${entry.id} уже отменена (${entry.undoneAt})`,
+				{ field: "operationId", value: entry.id }
+			);
+		}
+
+		const results: UndoChangeResult[] = [];
+		const remaining: UndoChange[] = [];
+		const ids: UndoIdMap = { tasks: {}, projects: {} };
+
+		// Откат не записывается в журнал как новая операция
+		await this.undoScope.exit(async () => {
+			for (const change of [...entry.changes].reverse()) {
+				const { result, pending } = await this.undoChange(
+					remapUndoChange(change, ids),
+					ids
+				);
+				results.push(result);
+				remaining.unshift(...pending);
+			}
+		});
+
+		if (!this.isDryRun()) {
+			await this.undoJournal!.update(
+				remaining.length === 0
+					? { ...entry, undoneAt: new Date().toISOString() }
+					: { ...entry, changes: remaining }
+			);
+			if (
+				Object.keys(ids.tasks).length > 0 ||
+				Object.keys(ids.projects).length > 0
+			) {
+				await this.undoJournal!.remapIds(ids);
+			}
+		}
+
+		const undone = results.filter((result) => result.success).length;
+		return {
+			operationId: entry.id,
+			tool: entry.tool,
+			createdAt: entry.createdAt,
+			undone,
+			failed: results.length - undone,
+			results,
+		};
+	}
+
+	/**
+	 * Откатить одно изменение. pending - то, что откатить не удалось, в ids
+	 * добавляются новые ID созданных заново задач и проектов.
+	 */
+	private async undoChange(
+		change: UndoChange,
+		ids: UndoIdMap
+	): Promise<{ result: UndoChangeResult; pending: UndoChange[] }> {
+		const summary = summarizeUndoChange(change);
+
+		try {
+			switch (change.type) {
+				case "createTask":
+					await this.deleteTask(change.projectId, change.taskId);
+					return { result: { ...summary, success: true }, pending: [] };
+
+				case "updateTask":
+				case "completeTask":
+					// Полный объект задачи возвращает поля, подзадачи и статус
+					await this.updateTask(
+						change.before.id,
+						structuredClone(change.before),
+						{},
+						new Set(["repeatFlag", "reminders"])
+					);
+					return { result: { ...summary, success: true }, pending: [] };
+
+				case "deleteTask": {
+					const task = await this.restoreTask(
+						change.before,
+						change.before.projectId
+					);
+					ids.tasks[change.before.id] = task.id;
+					return {
+						result: { ...summary, success: true, newTaskId: task.id },
+						pending: [],
+					};
+				}
+
+				case "moveTask": {
+					const moved = await this.moveTask(
+						change.toProjectId,
+						change.taskId,
+						change.fromProjectId
+					);
+					if (moved.newTaskId) {
+						ids.tasks[change.taskId] = moved.newTaskId;
+					}
+					return {
+						result: {
+							...summary,
+							success: true,
+							newTaskId: moved.newTaskId,
+							warning: moved.warning,
+						},
+						pending: [],
+					};
+				}
+
+				case "createProject": {
+					this.cache.invalidate(projectDataCacheKey(change.projectId));
+					const { tasks } = await this.getProjectWithData(change.projectId);
+					if (tasks.length > 0) {
+						throw new TickTickValidationError(
+							`В проекте ${change.projectId} есть задачи (${tasks.length}), отмена создания удалила бы их`,
+							{ field: "projectId", value: change.projectId }
+						);
+					}
+					await this.deleteProject(change.projectId);
+					return { result: { ...summary, success: true }, pending: [] };
+				}
+
+				case "updateProject": {
+					const { name, color, sortOrder, viewMode, kind } = change.before;
+					await this.updateProject(change.before.id, {
+						name,
+						color,
+						sortOrder,
+						viewMode,
+						kind,
+					});
+					return { result: { ...summary, success: true }, pending: [] };
+				}
+
+				case "deleteProject":
+					return this.restoreProject(change.before, ids);
+			}
+		} catch (error) {
+			this.logger.error(`Failed to undo ${change.type}`, error);
+			return {
+				result: { ...summary, success: false, ...this.describeFailure(error) },
+				pending: [change],
+			};
+		}
+	}
+
+	/**
+	 * Создать удаленную задачу заново (с подзадачами, напоминаниями и
+	 * повторением) и вернуть ей статус
+	 */
+	private async restoreTask(task: Task, projectId: string): Promise<Task> {
+		const created = await this.createTask(
+			this.toCreateTaskRequest(task, projectId)
+		);
+		if (task.status === 2) {
+			await this.sendTaskCompletion(projectId, created.id);
+			return { ...created, status: 2 };
+		}
+		return created;
+	}
+
+	/**
+	 * Создать удаленный проект заново и восстановить в нем задачи. Задачи,
+	 * которые восстановить не удалось, остаются в журнале как удаленные задачи
+	 * нового проекта.
+	 */
+	private async restoreProject(
+		before: ProjectData,
+		ids: UndoIdMap
+	): Promise<{ result: UndoChangeResult; pending: UndoChange[] }> {
+		const { name, color, sortOrder, viewMode, kind } = before.project;
+		const project = await this.createProject({
+			name,
+			color,
+			sortOrder,
+			viewMode,
+			kind,
+		});
+
+		ids.projects[before.project.id] = project.id;
+
+		const restored = await this.runBatch(before.tasks, (task) =>
+			this.restoreTask(task, project.id)
 		);
+		for (const result of restored) {
+			if (result.value) {
+				ids.tasks[result.item.id] = result.value.id;
+			}
+		}
+		const failed = restored.filter((result) => result.error !== undefined);
+
+		const warnings: string[] = [];
+		if (before.columns?.length) {
+			warnings.push("колонки канбан-доски не восстанавливаются");
+		}
+		if (failed.length > 0) {
+			warnings.push(
+				`не удалось восстановить задачи (${failed.length}): ${failed
+					.map((result) => result.item.title)
+					.join(", ")}`
+			);
+		}
+
+		return {
+			result: {
+				...summarizeUndoChange({ type: "deleteProject", before }),
+				success: true,
+				newProjectId: project.id,
+				warning: warnings.length > 0 ? warnings.join("; ") : undefined,
+			},
+			pending: failed.map((result) => ({
+				type: "deleteTask",
+				before: { ...result.item, projectId: project.id },
+			})),
+		};
+	}
+
+	private async sendTaskCompletion(
+		projectId: string,
+		taskId: string
+	): Promise<void> {
+		try {
+			await this.makeAuthenticatedRequest<void>(
+				`/project/${projectId}/task/${taskId}/complete`,
+				{
+					method: "POST",
+				}
+			);
+		} finally {
+			this.invalidateTask(projectId, taskId);
+		}
 	}
 
 	/**
 	 * Удалить задачу
 	 */
 	async deleteTask(projectId: string, taskId: string): Promise<void> {
-		await this.makeAuthenticatedRequest<void>(
-			`/project/${projectId}/task/${taskId}`,
-			{
-				method: "DELETE",
+		let before: Task | undefined;
+		if (this.isRecordingUndo()) {
+			this.cache.invalidate(taskCacheKey(projectId, taskId));
+			before = await this.getTask(projectId, taskId);
+		}
+
+		try {
+			await this.makeAuthenticatedRequest<void>(
+				`/project/${projectId}/task/${taskId}`,
+				{
+					method: "DELETE",
+				}
+			);
+			if (before) {
+				this.recordChange({ type: "deleteTask", before });
 			}
+		} finally {
+			this.invalidateTask(projectId, taskId);
+		}
+	}
+
+	/**
+	 * Загрузить данные нескольких проектов с ограниченной параллельностью.
+	 * Ошибка одного проекта не прерывает загрузку остальных.
+	 */
+	async getProjectsWithData(projects: Project[]): Promise<ProjectsDataResult> {
+		const results = await this.fetchPool.map(projects, (project) =>
+			this.getProjectWithData(project.id)
 		);
+
+		const projectsData: ProjectData[] = [];
+		const failedProjects: FailedProject[] = [];
+
+		for (const result of results) {
+			if (result.error === undefined) {
+				projectsData.push(result.value!);
+				continue;
+			}
+
+			this.logger.warn(
+				`Failed to get data for project ${result.item.id} (${result.item.name})`,
+				result.error
+			);
+			failedProjects.push({
+				projectId: result.item.id,
+				projectName: result.item.name,
+				error:
+					result.error instanceof Error
+						? result.error.message
+						: String(result.error),
+				code:
+					result.error instanceof TickTickApiError
+						? result.error.code
+						: undefined,
+			});
+		}
+
+		return { projectsData, failedProjects };
+	}
+
+	/**
+	 * Выполнить операцию для каждого элемента через общий пул запросов.
+	 * Ошибки элементов не прерывают остальные.
+	 */
+	async runBatch<T, R>(
+		items: T[],
+		operation: (item: T) => Promise<R>
+	): Promise<PoolResult<T, R>[]> {
+		return this.fetchPool.map(items, operation);
 	}
 
 	/**
 	 * Получить все проекты с их задачами
 	 */
-	async getAllProjectsWithTasks(): Promise<ProjectData[]> {
+	async getAllProjectsWithTasks(): Promise<ProjectsDataResult> {
 		const projects = await this.getProjects();
-		const projectsWithData: ProjectData[] = [];
-
-		for (const project of projects) {
-			try {
-				const projectData = await this.getProjectWithData(project.id);
+		const { projectsData, failedProjects } = await this.getProjectsWithData(
+			projects
+		);
 
-				// Обрезаем content задач для экономии места
-				const truncatedTasks = projectData.tasks.map((task) => ({
+		return {
+			// Обрезаем content задач для экономии места
+			projectsData: projectsData.map((projectData) => ({
+				...projectData,
+				tasks: projectData.tasks.map((task) => ({
 					...task,
 					content:
 						task.content && task.content.length > 200
 							? task.content.substring(0, 200) + "..."
 							: task.content,
-				}));
-
-				projectsWithData.push({
-					...projectData,
-					tasks: truncatedTasks,
-				});
-			} catch (error) {
-				this.logger.warn(
-					`Failed to get data for project ${project.id} (${project.name})`,
-					error
-				);
-				// Добавляем проект без задач в случае ошибки
-				projectsWithData.push({
-					project: project,
-					tasks: [],
-					columns: [],
-				});
-			}
-		}
-
-		return projectsWithData;
+				})),
+			})),
+			failedProjects,
+		};
 	}
 }
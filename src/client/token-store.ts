@@ -0,0 +1,125 @@
+import {
+	createCipheriv,
+	createDecipheriv,
+	randomBytes,
+	scryptSync,
+} from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { StoredToken, TokenStore } from "../types/ticktick.js";
+
+const FILE_FORMAT_VERSION = 1;
+const CIPHER_ALGORITHM = "aes-256-gcm";
+
+interface PlainTokenFile {
+	version: number;
+	encrypted: false;
+	token: StoredToken;
+}
+
+interface EncryptedTokenFile {
+	version: number;
+	encrypted: true;
+	salt: string;
+	iv: string;
+	tag: string;
+	data: string;
+}
+
+type TokenFile = PlainTokenFile | EncryptedTokenFile;
+
+/**
+ * Файловое хранилище OAuth токенов. Если указан пароль, содержимое шифруется
+ * AES-256-GCM с ключом, полученным через scrypt.
+ */
+export class FileTokenStore implements TokenStore {
+	constructor(
+		private readonly filePath: string,
+		private readonly passphrase?: string
+	) {}
+
+	/**
+	 * Загрузить токен из файла. Возвращает undefined, если файла еще нет.
+	 */
+	async load(): Promise<StoredToken | undefined> {
+		let raw: string;
+		try {
+			raw = await fs.readFile(this.filePath, "utf8");
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+				return undefined;
+			}
+			throw error;
+		}
+
+		const file = JSON.parse(raw) as TokenFile;
+
+		if (!file.encrypted) {
+			return file.token;
+		}
+
+		if (!this.passphrase) {
+			throw new Error(
+				`Хранилище токенов ${this.filePath} зашифровано, но пароль не указан`
+			);
+		}
+
+		try {
+			const key = this.deriveKey(Buffer.from(file.salt, "base64"));
+			const decipher = createDecipheriv(
+				CIPHER_ALGORITHM,
+				key,
+				Buffer.from(file.iv, "base64")
+			);
+			decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+			const decrypted = Buffer.concat([
+				decipher.update(Buffer.from(file.data, "base64")),
+				decipher.final(),
+			]);
+			return JSON.parse(decrypted.toString("utf8"));
+		} catch {
+			throw new Error(
+				`Не удалось расшифровать хранилище токенов ${this.filePath}: неверный пароль или файл поврежден`
+			);
+		}
+	}
+
+	/**
+	 * Сохранить токен в файл (атомарно, с правами только для владельца)
+	 */
+	async save(token: StoredToken): Promise<void> {
+		let file: TokenFile;
+
+		if (this.passphrase) {
+			const salt = randomBytes(16);
+			const iv = randomBytes(12);
+			const cipher = createCipheriv(CIPHER_ALGORITHM, this.deriveKey(salt), iv);
+			const data = Buffer.concat([
+				cipher.update(JSON.stringify(token), "utf8"),
+				cipher.final(),
+			]);
+
+			file = {
+				version: FILE_FORMAT_VERSION,
+				encrypted: true,
+				salt: salt.toString("base64"),
+				iv: iv.toString("base64"),
+				tag: cipher.getAuthTag().toString("base64"),
+				data: data.toString("base64"),
+			};
+		} else {
+			file = { version: FILE_FORMAT_VERSION, encrypted: false, token };
+		}
+
+		await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+		const tempPath = `${this.filePath}.${process.pid}.tmp`;
+		await fs.writeFile(tempPath, JSON.stringify(file, null, 2), {
+			mode: 0o600,
+		});
+		await fs.rename(tempPath, this.filePath);
+	}
+
+	private deriveKey(salt: Buffer): Buffer {
+		return scryptSync(this.passphrase!, salt, 32);
+	}
+}
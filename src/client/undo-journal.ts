@@ -0,0 +1,246 @@
+import fs from "fs/promises";
+import path from "path";
+import {
+	Task,
+	UndoChange,
+	UndoChangeSummary,
+	UndoEntry,
+	UndoIdMap,
+	UndoJournal,
+} from "../types/ticktick.js";
+
+const FILE_FORMAT_VERSION = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Сколько дней хранятся записи журнала отмены по умолчанию
+ */
+export const DEFAULT_UNDO_RETENTION_DAYS = 7;
+
+interface UndoJournalFile {
+	version: number;
+	entries: UndoEntry[];
+}
+
+/**
+ * Журнал отмены в JSON файле. Записи старше срока хранения удаляются при
+ * каждом изменении журнала, файл перезаписывается атомарно и по очереди.
+ */
+export class FileUndoJournal implements UndoJournal {
+	private readonly maxAgeMs: number;
+	private writeQueue: Promise<void> = Promise.resolve();
+
+	constructor(
+		private readonly filePath: string,
+		retentionDays: number = DEFAULT_UNDO_RETENTION_DAYS
+	) {
+		if (!(retentionDays > 0)) {
+			throw new Error(
+				`Срок хранения журнала отмены должен быть больше 0 дней: ${retentionDays}`
+			);
+		}
+		this.maxAgeMs = retentionDays * DAY_MS;
+	}
+
+	/**
+	 * Добавить запись в журнал
+	 */
+	append(entry: UndoEntry): Promise<void> {
+		return this.modify((entries) => [...entries, entry]);
+	}
+
+	/**
+	 * Заменить запись с тем же ID (например, после отмены)
+	 */
+	update(entry: UndoEntry): Promise<void> {
+		return this.modify((entries) =>
+			entries.map((existing) => (existing.id === entry.id ? entry : existing))
+		);
+	}
+
+	/**
+	 * Заменить ID задач и проектов, созданных заново при отмене, во всех
+	 * неотмененных записях
+	 */
+	remapIds(ids: UndoIdMap): Promise<void> {
+		return this.modify((entries) =>
+			entries.map((entry) =>
+				entry.undoneAt
+					? entry
+					: {
+							...entry,
+							changes: entry.changes.map((change) =>
+								remapUndoChange(change, ids)
+							),
+					  }
+			)
+		);
+	}
+
+	/**
+	 * Записи в пределах срока хранения, сначала последние
+	 */
+	async list(): Promise<UndoEntry[]> {
+		await this.writeQueue;
+		return this.prune(await this.read()).sort(
+			(a, b) =>
+				new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+		);
+	}
+
+	private modify(change: (entries: UndoEntry[]) => UndoEntry[]): Promise<void> {
+		const write = this.writeQueue.then(async () => {
+			await this.write(change(this.prune(await this.read())));
+		});
+		// Ошибка записи возвращается вызывающему, но не блокирует очередь
+		this.writeQueue = write.catch(() => undefined);
+		return write;
+	}
+
+	private prune(entries: UndoEntry[]): UndoEntry[] {
+		const cutoff = Date.now() - this.maxAgeMs;
+		return entries.filter(
+			(entry) => new Date(entry.createdAt).getTime() >= cutoff
+		);
+	}
+
+	private async read(): Promise<UndoEntry[]> {
+		let raw: string;
+		try {
+			raw = await fs.readFile(this.filePath, "utf8");
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+				return [];
+			}
+			throw error;
+		}
+
+		try {
+			return (JSON.parse(raw) as UndoJournalFile).entries || [];
+		} catch {
+			// Файл не перезаписывается: в нем могут быть единственные копии удаленных задач
+			throw new Error(`Журнал отмены ${this.filePath} поврежден`);
+		}
+	}
+
+	private async write(entries: UndoEntry[]): Promise<void> {
+		const file: UndoJournalFile = { version: FILE_FORMAT_VERSION, entries };
+
+		await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+		const tempPath = `${this.filePath}.${process.pid}.tmp`;
+		await fs.writeFile(tempPath, JSON.stringify(file), { mode: 0o600 });
+		await fs.rename(tempPath, this.filePath);
+	}
+}
+
+/**
+ * Краткое описание изменения: проект, задача и ее название
+ */
+export function summarizeUndoChange(change: UndoChange): UndoChangeSummary {
+	switch (change.type) {
+		case "createTask":
+			return {
+				type: change.type,
+				projectId: change.projectId,
+				taskId: change.taskId,
+			};
+		case "updateTask":
+		case "completeTask":
+		case "deleteTask":
+			return {
+				type: change.type,
+				projectId: change.before.projectId,
+				taskId: change.before.id,
+				title: change.before.title,
+			};
+		case "moveTask":
+			return {
+				type: change.type,
+				projectId: change.fromProjectId,
+				taskId: change.taskId,
+				targetProjectId: change.toProjectId,
+			};
+		case "createProject":
+			return { type: change.type, projectId: change.projectId };
+		case "updateProject":
+			return {
+				type: change.type,
+				projectId: change.before.id,
+				title: change.before.name,
+			};
+		case "deleteProject":
+			return {
+				type: change.type,
+				projectId: change.before.project.id,
+				title: change.before.project.name,
+			};
+	}
+}
+
+/**
+ * Изменение с новыми ID задач и проектов, созданных заново при отмене
+ */
+export function remapUndoChange(
+	change: UndoChange,
+	ids: UndoIdMap
+): UndoChange {
+	const taskId = (id: string) => ids.tasks[id] ?? id;
+	const projectId = (id: string) => ids.projects[id] ?? id;
+	const remapTask = (task: Task): Task => ({
+		...task,
+		id: taskId(task.id),
+		projectId: projectId(task.projectId),
+	});
+
+	switch (change.type) {
+		case "createTask":
+			return {
+				...change,
+				projectId: projectId(change.projectId),
+				taskId: taskId(change.taskId),
+			};
+		case "updateTask":
+		case "completeTask":
+		case "deleteTask":
+			return { ...change, before: remapTask(change.before) };
+		case "moveTask":
+			return {
+				...change,
+				taskId: taskId(change.taskId),
+				fromProjectId: projectId(change.fromProjectId),
+				toProjectId: projectId(change.toProjectId),
+			};
+		case "createProject":
+			return { ...change, projectId: projectId(change.projectId) };
+		case "updateProject":
+			return {
+				...change,
+				before: { ...change.before, id: projectId(change.before.id) },
+			};
+		case "deleteProject":
+			return {
+				...change,
+				before: {
+					...change.before,
+					project: {
+						...change.before.project,
+						id: projectId(change.before.project.id),
+					},
+					tasks: change.before.tasks.map(remapTask),
+				},
+			};
+	}
+}
+
+/**
+ * Все проекты, которые затрагивает отмена записи
+ */
+export function getUndoProjectIds(entry: UndoEntry): string[] {
+	const projectIds = entry.changes.flatMap((change) => {
+		const summary = summarizeUndoChange(change);
+		return summary.targetProjectId
+			? [summary.projectId, summary.targetProjectId]
+			: [summary.projectId];
+	});
+	return [...new Set(projectIds)];
+}
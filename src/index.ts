@@ -1,7 +1,23 @@
 #!/usr/bin/env node
 
 import { TickTickMcpServer } from "./server/ticktick-mcp-server.js";
-import { TickTickClientConfig } from "./types/ticktick.js";
+import { FileTokenStore } from "./client/token-store.js";
+import { FileCompletionLog } from "./client/completion-log.js";
+import { FileUndoJournal } from "./client/undo-journal.js";
+import {
+	configureLogging,
+	isLogLevel,
+	LOG_LEVELS,
+	LoggingConfig,
+} from "./utils/logger.js";
+import {
+	TickTickClientConfig,
+	DateOrder,
+	Locale,
+	ConfirmationMode,
+	TickTickServerOptions,
+	McpTransportType,
+} from "./types/ticktick.js";
 import dotenv from "dotenv";
 import path from "path";
 import { fileURLToPath } from "url";
@@ -13,11 +29,126 @@ const __dirname = path.dirname(__filename);
 // Загружаем переменные окружения из корневой папки проекта
 dotenv.config({ path: path.join(__dirname, "..", ".env") });
 
+/**
+ * Получить значение CLI аргумента вида --name=value или --name value
+ */
+function getCliArg(name: string): string | undefined {
+	const args = process.argv.slice(2);
+	for (let i = 0; i < args.length; i++) {
+		if (args[i] === `--${name}`) {
+			const next = args[i + 1];
+			return next && !next.startsWith("--") ? next : "";
+		}
+		if (args[i].startsWith(`--${name}=`)) {
+			return args[i].slice(name.length + 3);
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Прочитать числовую переменную окружения. Диапазон значения проверяет
+ * компонент, который его использует.
+ * @throws {Error} Если значение не является числом
+ */
+function getNumberEnv(name: string): number | undefined {
+	const value = process.env[name]?.trim();
+	if (!value) {
+		return undefined;
+	}
+	const number = Number(value);
+	if (!Number.isFinite(number)) {
+		throw new Error(`Невалидное значение ${name}: ${value}. Ожидается число`);
+	}
+	return number;
+}
+
+function secondsToMs(seconds: number | undefined): number | undefined {
+	return seconds !== undefined ? seconds * 1000 : undefined;
+}
+
+/**
+ * Собрать настройки транспорта из CLI аргументов и переменных окружения.
+ * CLI аргументы (--transport, --http, --port, --host, --auth-config,
+ * --accounts-config) имеют приоритет над MCP_TRANSPORT, MCP_HTTP_PORT,
+ * MCP_HTTP_HOST, MCP_AUTH_CONFIG и TICKTICK_ACCOUNTS_CONFIG.
+ */
+function getServerOptions(): TickTickServerOptions {
+	const transportArg =
+		getCliArg("http") !== undefined ? "http" : getCliArg("transport");
+	const transport = (transportArg ||
+		process.env.MCP_TRANSPORT ||
+		"stdio") as McpTransportType;
+
+	if (!["stdio", "http"].includes(transport)) {
+		throw new Error(
+			`Неизвестный транспорт: ${transport}. Допустимые значения: stdio, http`
+		);
+	}
+
+	const portValue = getCliArg("port") || process.env.MCP_HTTP_PORT;
+	const port = portValue ? Number(portValue) : undefined;
+	if (
+		port !== undefined &&
+		(!Number.isInteger(port) || port < 1 || port > 65535)
+	) {
+		throw new Error(`Невалидный порт: ${portValue}`);
+	}
+
+	return {
+		transport,
+		http: {
+			port,
+			host: getCliArg("host") || process.env.MCP_HTTP_HOST,
+		},
+		authConfigPath: getCliArg("auth-config") || process.env.MCP_AUTH_CONFIG,
+		accountsConfigPath:
+			getCliArg("accounts-config") || process.env.TICKTICK_ACCOUNTS_CONFIG,
+		timeZone: process.env.TICKTICK_TIMEZONE,
+		locale: process.env.TICKTICK_LOCALE as Locale | undefined,
+		confirmation: process.env.TICKTICK_CONFIRMATION as
+			| ConfirmationMode
+			| undefined,
+		confirmationTtl: secondsToMs(getNumberEnv("TICKTICK_CONFIRMATION_TTL")),
+	};
+}
+
+/**
+ * Собрать настройки логирования из CLI аргументов (--log-level, --log-format,
+ * --log-file) и переменных окружения LOG_LEVEL, LOG_FORMAT и LOG_FILE
+ */
+function getLoggingConfig(): LoggingConfig {
+	const level = getCliArg("log-level") || process.env.LOG_LEVEL || "info";
+	if (!isLogLevel(level)) {
+		throw new Error(
+			`Неизвестный уровень логирования: ${level}. Допустимые значения: ${LOG_LEVELS.join(
+				", "
+			)}`
+		);
+	}
+
+	const format = getCliArg("log-format") || process.env.LOG_FORMAT || "text";
+	if (format !== "text" && format !== "json") {
+		throw new Error(
+			`Неизвестный формат логов: ${format}. Допустимые значения: text, json`
+		);
+	}
+
+	return {
+		level,
+		format,
+		file: getCliArg("log-file") || process.env.LOG_FILE,
+	};
+}
+
 async function main() {
-	// Проверяем наличие access token
+	// Проверяем наличие access token, хранилища токенов или конфигурации аккаунтов
 	const accessToken = process.env.TICKTICK_ACCESS_TOKEN;
+	const tokenStorePath = process.env.TICKTICK_TOKEN_STORE;
+	const serverOptions = getServerOptions();
+	configureLogging(getLoggingConfig());
 
-	if (!accessToken) {
+	if (!accessToken && !tokenStorePath && !serverOptions.accountsConfigPath) {
 		console.error(
 			"❌ Ошибка: TICKTICK_ACCESS_TOKEN должен быть установлен в .env файле"
 		);
@@ -27,6 +158,9 @@ async function main() {
 		console.error(
 			"или установите TICKTICK_ACCESS_TOKEN в переменных окружения"
 		);
+		console.error(
+			"или укажите хранилище токенов (TICKTICK_TOKEN_STORE) либо файл аккаунтов (TICKTICK_ACCOUNTS_CONFIG)"
+		);
 		process.exit(1);
 	}
 
@@ -35,12 +169,43 @@ async function main() {
 		baseUrl:
 			process.env.TICKTICK_BASE_URL || "https://api.ticktick.com/open/v1",
 		timeout: 10000,
+		cacheTtl: secondsToMs(getNumberEnv("TICKTICK_CACHE_TTL")),
+		dateOrder: process.env.TICKTICK_DATE_ORDER as DateOrder | undefined,
+		concurrency: getNumberEnv("TICKTICK_CONCURRENCY"),
+		rateLimit: {
+			requestsPerMinute: getNumberEnv("TICKTICK_RATE_LIMIT"),
+			burst: getNumberEnv("TICKTICK_RATE_LIMIT_BURST"),
+		},
 		accessToken: accessToken,
+		refreshToken: process.env.TICKTICK_REFRESH_TOKEN,
+		tokenStore: tokenStorePath
+			? new FileTokenStore(
+					tokenStorePath,
+					process.env.TICKTICK_TOKEN_PASSPHRASE
+			  )
+			: undefined,
+		completionLog: process.env.TICKTICK_COMPLETION_LOG
+			? new FileCompletionLog(process.env.TICKTICK_COMPLETION_LOG)
+			: undefined,
+		undoJournal: process.env.TICKTICK_UNDO_JOURNAL
+			? new FileUndoJournal(
+					process.env.TICKTICK_UNDO_JOURNAL,
+					getNumberEnv("TICKTICK_UNDO_RETENTION_DAYS")
+			  )
+			: undefined,
+		oauth:
+			process.env.TICKTICK_CLIENT_ID && process.env.TICKTICK_CLIENT_SECRET
+				? {
+						clientId: process.env.TICKTICK_CLIENT_ID,
+						clientSecret: process.env.TICKTICK_CLIENT_SECRET,
+						tokenUrl: process.env.TICKTICK_TOKEN_URL,
+				  }
+				: undefined,
 	};
 
 	try {
 		// Создаем и запускаем сервер
-		const server = new TickTickMcpServer(config);
+		const server = new TickTickMcpServer(config, serverOptions);
 		await server.start();
 	} catch (error) {
 		console.error("❌ Ошибка при запуске сервера:", error);
@@ -48,14 +213,14 @@ async function main() {
 	}
 }
 
-// Обработка сигналов завершения
+// Обработка сигналов завершения (stdout занят протоколом в stdio режиме)
 process.on("SIGINT", () => {
-	console.log("\n🛑 Получен сигнал SIGINT, завершение работы...");
+	console.error("\n🛑 Получен сигнал SIGINT, завершение работы...");
 	process.exit(0);
 });
 
 process.on("SIGTERM", () => {
-	console.log("\n🛑 Получен сигнал SIGTERM, завершение работы...");
+	console.error("\n🛑 Получен сигнал SIGTERM, завершение работы...");
 	process.exit(0);
 });
 
@@ -0,0 +1,314 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import fs from "fs";
+import { NextFunction, Request, Response } from "express";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { z } from "zod";
+import {
+	AuthClientConfig,
+	AuthConfig,
+	AuthJwtConfig,
+	ClientPermissions,
+} from "../types/ticktick.js";
+
+/**
+ * Сравнивает строки за постоянное время, чтобы не раскрывать ключи через тайминги
+ */
+function safeEqual(a: string, b: string): boolean {
+	const hashA = createHash("sha256").update(a).digest();
+	const hashB = createHash("sha256").update(b).digest();
+	return timingSafeEqual(hashA, hashB);
+}
+
+function decodeBase64Url(value: string): string {
+	return Buffer.from(value, "base64url").toString("utf8");
+}
+
+const jwtHeaderSchema = z.object({ alg: z.string() });
+
+/**
+ * Claims JWT, которые использует сервер. Токен с claim неверного типа отклоняется.
+ */
+const jwtPayloadSchema = z.object({
+	sub: z.string().min(1),
+	exp: z.number().optional(),
+	nbf: z.number().optional(),
+	iss: z.string().optional(),
+	aud: z.union([z.string(), z.array(z.string())]).optional(),
+	tools: z.array(z.string()).optional(),
+	scope: z.string().optional(),
+	projects: z.array(z.string()).optional(),
+	account: z.string().optional(),
+});
+
+/**
+ * Разобрать часть JWT (base64url JSON) по схеме
+ */
+function decodeJwtPart<T>(value: string, schema: z.ZodType<T>): T | null {
+	let json: unknown;
+	try {
+		json = JSON.parse(decodeBase64Url(value));
+	} catch {
+		return null;
+	}
+	const parsed = schema.safeParse(json);
+	return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Аутентификация клиентов HTTP сервера по статическим API ключам или JWT (HS256)
+ */
+export class AuthManager {
+	private readonly clients: AuthClientConfig[];
+	private readonly jwt?: AuthJwtConfig;
+
+	constructor(config: AuthConfig) {
+		this.clients = config.clients || [];
+		this.jwt = config.jwt;
+
+		for (const client of this.clients) {
+			if (!client.name?.trim() || !client.apiKey?.trim()) {
+				throw new Error(
+					"Каждый клиент в конфигурации авторизации должен иметь name и apiKey"
+				);
+			}
+		}
+
+		if (this.jwt && !this.jwt.secret?.trim()) {
+			throw new Error("Для JWT авторизации необходимо указать secret");
+		}
+
+		if (this.clients.length === 0 && !this.jwt) {
+			throw new Error(
+				"Конфигурация авторизации не содержит ни клиентов, ни JWT настроек"
+			);
+		}
+	}
+
+	/**
+	 * Загрузить конфигурацию авторизации из JSON файла
+	 */
+	static fromFile(filePath: string): AuthManager {
+		let config: AuthConfig;
+		try {
+			config = JSON.parse(fs.readFileSync(filePath, "utf8"));
+		} catch (error) {
+			throw new Error(
+				`Не удалось прочитать конфигурацию авторизации ${filePath}: ${
+					(error as Error).message
+				}`
+			);
+		}
+		return new AuthManager(config);
+	}
+
+	/**
+	 * Проверить токен (API ключ или JWT) и вернуть информацию о клиенте
+	 */
+	authenticate(token: string): AuthInfo | null {
+		if (!token) {
+			return null;
+		}
+
+		return this.authenticateApiKey(token) || this.authenticateJwt(token);
+	}
+
+	private authenticateApiKey(token: string): AuthInfo | null {
+		const client = this.clients.find((c) => safeEqual(c.apiKey, token));
+		if (!client) {
+			return null;
+		}
+
+		return {
+			token,
+			clientId: client.name,
+			scopes: client.tools || [],
+			extra: { projects: client.projects, account: client.account },
+		};
+	}
+
+	private authenticateJwt(token: string): AuthInfo | null {
+		if (!this.jwt) {
+			return null;
+		}
+
+		const parts = token.split(".");
+		if (parts.length !== 3) {
+			return null;
+		}
+
+		const [encodedHeader, encodedPayload, signature] = parts;
+
+		const header = decodeJwtPart(encodedHeader, jwtHeaderSchema);
+		if (header?.alg !== "HS256") {
+			return null;
+		}
+
+		const expectedSignature = createHmac("sha256", this.jwt.secret)
+			.update(`${encodedHeader}.${encodedPayload}`)
+			.digest("base64url");
+		if (!safeEqual(signature, expectedSignature)) {
+			return null;
+		}
+
+		const payload = decodeJwtPart(encodedPayload, jwtPayloadSchema);
+		if (!payload) {
+			return null;
+		}
+
+		const now = Math.floor(Date.now() / 1000);
+		if (payload.exp !== undefined && payload.exp <= now) {
+			return null;
+		}
+		if (payload.nbf !== undefined && payload.nbf > now) {
+			return null;
+		}
+		if (this.jwt.issuer && payload.iss !== this.jwt.issuer) {
+			return null;
+		}
+		if (this.jwt.audience) {
+			const audiences = Array.isArray(payload.aud)
+				? payload.aud
+				: [payload.aud];
+			if (!audiences.includes(this.jwt.audience)) {
+				return null;
+			}
+		}
+
+		// Разрешенные инструменты берутся из claim "tools" или "scope"
+		const tools =
+			payload.tools ?? payload.scope?.split(" ").filter(Boolean) ?? [];
+
+		return {
+			token,
+			clientId: payload.sub,
+			scopes: tools,
+			expiresAt: payload.exp,
+			extra: { projects: payload.projects, account: payload.account },
+		};
+	}
+}
+
+/**
+ * Извлечь токен из заголовков Authorization: Bearer или X-API-Key
+ */
+function extractToken(req: Request): string | undefined {
+	const authorization = req.headers.authorization;
+	if (authorization?.startsWith("Bearer ")) {
+		return authorization.slice("Bearer ".length).trim();
+	}
+
+	const apiKey = req.headers["x-api-key"];
+	return typeof apiKey === "string" ? apiKey.trim() : undefined;
+}
+
+/**
+ * Express middleware, требующий валидный токен и сохраняющий AuthInfo в req.auth
+ */
+export function createAuthMiddleware(authManager: AuthManager) {
+	return (req: Request, res: Response, next: NextFunction) => {
+		const authInfo = authManager.authenticate(extractToken(req) || "");
+
+		if (!authInfo) {
+			res
+				.status(401)
+				.set("WWW-Authenticate", 'Bearer realm="ticktick-mcp"')
+				.json({
+					jsonrpc: "2.0",
+					error: {
+						code: -32001,
+						message:
+							"Требуется авторизация: передайте валидный API ключ или JWT",
+					},
+					id: null,
+				});
+			return;
+		}
+
+		(req as Request & { auth?: AuthInfo }).auth = authInfo;
+		next();
+	};
+}
+
+/**
+ * Получить права клиента из AuthInfo. Без AuthInfo (stdio или HTTP без авторизации)
+ * ограничений нет.
+ */
+export function getClientPermissions(
+	authInfo?: AuthInfo
+): ClientPermissions | undefined {
+	if (!authInfo) {
+		return undefined;
+	}
+
+	const projects = authInfo.extra?.projects;
+	const account = authInfo.extra?.account;
+	return {
+		clientId: authInfo.clientId,
+		tools: authInfo.scopes,
+		projects: Array.isArray(projects) ? (projects as string[]) : undefined,
+		account: typeof account === "string" ? account : undefined,
+	};
+}
+
+/**
+ * Проверяет, разрешен ли инструмент клиенту
+ */
+export function isToolAllowed(
+	permissions: ClientPermissions | undefined,
+	toolName: string
+): boolean {
+	if (!permissions) {
+		return true;
+	}
+	return (
+		permissions.tools.includes("*") || permissions.tools.includes(toolName)
+	);
+}
+
+/**
+ * Проверяет, разрешен ли проект клиенту
+ */
+export function isProjectAllowed(
+	permissions: ClientPermissions | undefined,
+	projectId: string
+): boolean {
+	if (!permissions?.projects) {
+		return true;
+	}
+	return permissions.projects.includes(projectId);
+}
+
+/**
+ * Собрать все ID проектов из аргументов инструмента (projectId, targetProjectId,
+ * projectIds и т.д., включая вложенные массивы для пакетных операций)
+ */
+export function extractProjectIds(args: unknown): string[] {
+	const result = new Set<string>();
+
+	const visit = (value: unknown) => {
+		if (Array.isArray(value)) {
+			value.forEach(visit);
+			return;
+		}
+		if (!value || typeof value !== "object") {
+			return;
+		}
+
+		for (const [key, fieldValue] of Object.entries(value)) {
+			if (/projectIds?$/i.test(key)) {
+				if (typeof fieldValue === "string" && fieldValue) {
+					result.add(fieldValue);
+				} else if (Array.isArray(fieldValue)) {
+					fieldValue
+						.filter((id): id is string => typeof id === "string" && !!id)
+						.forEach((id) => result.add(id));
+				}
+			} else if (typeof fieldValue === "object") {
+				visit(fieldValue);
+			}
+		}
+	};
+
+	visit(args);
+	return [...result];
+}
@@ -0,0 +1,112 @@
+import { randomBytes } from "crypto";
+import { TickTickValidationError } from "../types/ticktick.js";
+
+/**
+ * Срок действия токена подтверждения по умолчанию
+ */
+export const DEFAULT_CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+interface PendingConfirmation {
+	fingerprint: string;
+	expiresAt: number;
+}
+
+/**
+ * JSON с ключами объектов в фиксированном порядке: одинаковые аргументы дают
+ * одинаковую строку независимо от порядка полей
+ */
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(",")}]`;
+	}
+	if (value && typeof value === "object") {
+		return `{${Object.keys(value)
+			.filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+			.sort()
+			.map(
+				(key) =>
+					`${JSON.stringify(key)}:${stableStringify(
+						(value as Record<string, unknown>)[key]
+					)}`
+			)
+			.join(",")}}`;
+	}
+	return JSON.stringify(value);
+}
+
+/**
+ * Токены подтверждения разрушительных операций. Токен одноразовый, действует
+ * ограниченное время и подходит только для того же инструмента, клиента и
+ * аргументов, для которых был выдан.
+ */
+export class ConfirmationStore {
+	private readonly pending = new Map<string, PendingConfirmation>();
+
+	constructor(private readonly ttlMs: number = DEFAULT_CONFIRMATION_TTL_MS) {
+		if (!(ttlMs > 0)) {
+			throw new Error(
+				`Срок действия токена подтверждения должен быть больше 0: ${ttlMs}`
+			);
+		}
+	}
+
+	/**
+	 * Выдать токен для вызова инструмента с указанными аргументами
+	 */
+	issue(
+		tool: string,
+		args: Record<string, unknown>,
+		clientId?: string
+	): { token: string; expiresAt: Date } {
+		this.prune();
+
+		const token = randomBytes(16).toString("hex");
+		const expiresAt = Date.now() + this.ttlMs;
+		this.pending.set(token, {
+			fingerprint: stableStringify({ tool, clientId, args }),
+			expiresAt,
+		});
+		return { token, expiresAt: new Date(expiresAt) };
+	}
+
+	/**
+	 * Проверить и погасить токен
+	 * @throws {TickTickValidationError} Если токен неизвестен, истек или выдан
+	 * для другого вызова
+	 */
+	consume(
+		token: string,
+		tool: string,
+		args: Record<string, unknown>,
+		clientId?: string
+	): void {
+		this.prune();
+
+		const confirmation = this.pending.get(token);
+		if (!confirmation) {
+			throw new TickTickValidationError(
+				"Токен подтверждения не найден или истек. Вызовите инструмент без confirmationToken, чтобы получить новый",
+				{ field: "confirmationToken" }
+			);
+		}
+		if (
+			confirmation.fingerprint !== stableStringify({ tool, clientId, args })
+		) {
+			throw new TickTickValidationError(
+				"Токен подтверждения выдан для другой операции или других параметров",
+				{ field: "confirmationToken" }
+			);
+		}
+
+		this.pending.delete(token);
+	}
+
+	private prune(): void {
+		const now = Date.now();
+		for (const [token, confirmation] of this.pending) {
+			if (confirmation.expiresAt <= now) {
+				this.pending.delete(token);
+			}
+		}
+	}
+}
@@ -0,0 +1,312 @@
+import express, { Request, Response } from "express";
+import { randomUUID } from "crypto";
+import { Server } from "http";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { HttpServerConfig } from "../types/ticktick.js";
+import { AuthManager, createAuthMiddleware } from "./auth.js";
+import { Logger } from "../utils/logger.js";
+
+type AuthenticatedRequest = Request & { auth?: AuthInfo };
+
+interface StreamableSession {
+	transport: StreamableHTTPServerTransport;
+	server: McpServer;
+	clientId?: string;
+}
+
+interface SseSession {
+	transport: SSEServerTransport;
+	server: McpServer;
+	clientId?: string;
+}
+
+/**
+ * HTTP сервер для MCP: Streamable HTTP (/mcp) и устаревший SSE (/sse + /messages).
+ * Для каждой сессии создается отдельный экземпляр McpServer через фабрику.
+ */
+export class McpHttpServer {
+	private readonly logger = new Logger(McpHttpServer.name);
+	private readonly port: number;
+	private readonly host: string;
+	private readonly streamableSessions = new Map<string, StreamableSession>();
+	private readonly sseSessions = new Map<string, SseSession>();
+	private httpServer?: Server;
+
+	constructor(
+		private readonly createServer: () => McpServer,
+		config: HttpServerConfig = {},
+		private readonly authManager?: AuthManager
+	) {
+		this.port = config.port || 8002;
+		this.host = config.host || "0.0.0.0";
+	}
+
+	/**
+	 * Сессия принадлежит клиенту, который ее открыл: чужой токен не может ее использовать
+	 */
+	private isSessionOwner(
+		session: { clientId?: string },
+		req: AuthenticatedRequest
+	): boolean {
+		return session.clientId === req.auth?.clientId;
+	}
+
+	/**
+	 * Создать express приложение со всеми маршрутами MCP
+	 */
+	private createApp() {
+		const app = express();
+		app.use(express.json({ limit: "4mb" }));
+
+		app.get("/health", (_req, res) => {
+			res.json({
+				status: "ok",
+				sessions: {
+					streamable: this.streamableSessions.size,
+					sse: this.sseSessions.size,
+				},
+				timestamp: new Date().toISOString(),
+			});
+		});
+
+		if (this.authManager) {
+			const authMiddleware = createAuthMiddleware(this.authManager);
+			app.use(["/mcp", "/sse", "/messages"], authMiddleware);
+		} else {
+			this.logger.warn(
+				"HTTP server started without authentication: any client can call all tools"
+			);
+		}
+
+		// Streamable HTTP транспорт
+		app.post("/mcp", (req, res) => this.handleStreamablePost(req, res));
+		app.get("/mcp", (req, res) =>
+			this.handleStreamableSessionRequest(req, res)
+		);
+		app.delete("/mcp", (req, res) =>
+			this.handleStreamableSessionRequest(req, res)
+		);
+
+		// Устаревший SSE транспорт для старых клиентов
+		app.get("/sse", (req, res) => this.handleSseConnect(req, res));
+		app.post("/messages", (req, res) => this.handleSseMessage(req, res));
+
+		return app;
+	}
+
+	/**
+	 * Обработать POST запрос Streamable HTTP: существующая сессия или инициализация новой
+	 */
+	private async handleStreamablePost(req: AuthenticatedRequest, res: Response) {
+		try {
+			const sessionId = req.headers["mcp-session-id"] as string | undefined;
+			const existing = sessionId
+				? this.streamableSessions.get(sessionId)
+				: undefined;
+
+			if (existing && !this.isSessionOwner(existing, req)) {
+				this.sendJsonRpcError(res, 403, "Сессия принадлежит другому клиенту");
+				return;
+			}
+
+			if (existing) {
+				await existing.transport.handleRequest(req, res, req.body);
+				return;
+			}
+
+			if (sessionId || !isInitializeRequest(req.body)) {
+				this.sendJsonRpcError(
+					res,
+					sessionId ? 404 : 400,
+					sessionId
+						? `Сессия ${sessionId} не найдена`
+						: "Отсутствует ID сессии или запрос не является initialize"
+				);
+				return;
+			}
+
+			const server = this.createServer();
+			const transport = new StreamableHTTPServerTransport({
+				sessionIdGenerator: () => randomUUID(),
+				onsessioninitialized: (newSessionId) => {
+					this.streamableSessions.set(newSessionId, {
+						transport,
+						server,
+						clientId: req.auth?.clientId,
+					});
+					this.logger.log(`Streamable HTTP session opened: ${newSessionId}`);
+				},
+			});
+
+			transport.onclose = () => {
+				if (transport.sessionId) {
+					this.streamableSessions.delete(transport.sessionId);
+					this.logger.log(
+						`Streamable HTTP session closed: ${transport.sessionId}`
+					);
+				}
+			};
+
+			await server.connect(transport);
+			await transport.handleRequest(req, res, req.body);
+		} catch (error) {
+			this.logger.error("Failed to handle MCP request", error);
+			if (!res.headersSent) {
+				this.sendJsonRpcError(res, 500, "Внутренняя ошибка сервера");
+			}
+		}
+	}
+
+	/**
+	 * Обработать GET (SSE поток уведомлений) и DELETE (завершение сессии) запросы
+	 */
+	private async handleStreamableSessionRequest(
+		req: AuthenticatedRequest,
+		res: Response
+	) {
+		const sessionId = req.headers["mcp-session-id"] as string | undefined;
+		const session = sessionId
+			? this.streamableSessions.get(sessionId)
+			: undefined;
+
+		if (!session) {
+			this.sendJsonRpcError(
+				res,
+				sessionId ? 404 : 400,
+				sessionId
+					? `Сессия ${sessionId} не найдена`
+					: "Отсутствует заголовок mcp-session-id"
+			);
+			return;
+		}
+
+		if (!this.isSessionOwner(session, req)) {
+			this.sendJsonRpcError(res, 403, "Сессия принадлежит другому клиенту");
+			return;
+		}
+
+		try {
+			await session.transport.handleRequest(req, res);
+		} catch (error) {
+			this.logger.error("Failed to handle MCP session request", error);
+			if (!res.headersSent) {
+				this.sendJsonRpcError(res, 500, "Внутренняя ошибка сервера");
+			}
+		}
+	}
+
+	/**
+	 * Открыть SSE соединение для устаревших клиентов
+	 */
+	private async handleSseConnect(req: AuthenticatedRequest, res: Response) {
+		try {
+			const server = this.createServer();
+			const transport = new SSEServerTransport("/messages", res);
+			const sessionId = transport.sessionId;
+
+			this.sseSessions.set(sessionId, {
+				transport,
+				server,
+				clientId: req.auth?.clientId,
+			});
+			this.logger.log(`SSE session opened: ${sessionId}`);
+
+			res.on("close", () => {
+				this.sseSessions.delete(sessionId);
+				this.logger.log(`SSE session closed: ${sessionId}`);
+			});
+
+			await server.connect(transport);
+		} catch (error) {
+			this.logger.error("Failed to open SSE session", error);
+			if (!res.headersSent) {
+				res.status(500).send("Внутренняя ошибка сервера");
+			}
+		}
+	}
+
+	/**
+	 * Принять сообщение от клиента SSE сессии
+	 */
+	private async handleSseMessage(req: AuthenticatedRequest, res: Response) {
+		const sessionId = req.query.sessionId as string | undefined;
+		const session = sessionId ? this.sseSessions.get(sessionId) : undefined;
+
+		if (!session) {
+			res.status(404).send(`Сессия ${sessionId ?? ""} не найдена`);
+			return;
+		}
+
+		if (!this.isSessionOwner(session, req)) {
+			res.status(403).send("Сессия принадлежит другому клиенту");
+			return;
+		}
+
+		try {
+			await session.transport.handlePostMessage(req, res, req.body);
+		} catch (error) {
+			this.logger.error("Failed to handle SSE message", error);
+			if (!res.headersSent) {
+				res.status(500).send("Внутренняя ошибка сервера");
+			}
+		}
+	}
+
+	private sendJsonRpcError(res: Response, status: number, message: string) {
+		res.status(status).json({
+			jsonrpc: "2.0",
+			error: {
+				code: -32000,
+				message,
+			},
+			id: null,
+		});
+	}
+
+	/**
+	 * Запустить HTTP сервер
+	 */
+	async start(): Promise<void> {
+		const app = this.createApp();
+
+		await new Promise<void>((resolve, reject) => {
+			const httpServer = app.listen(this.port, this.host, (error?: Error) => {
+				if (error) {
+					reject(error);
+					return;
+				}
+				resolve();
+			});
+			this.httpServer = httpServer;
+		});
+
+		this.logger.log(
+			`MCP HTTP server listening on http://${this.host}:${this.port} (Streamable HTTP: /mcp, SSE: /sse)`
+		);
+	}
+
+	/**
+	 * Закрыть все сессии и остановить HTTP сервер
+	 */
+	async stop(): Promise<void> {
+		for (const { transport } of this.streamableSessions.values()) {
+			await transport.close();
+		}
+		this.streamableSessions.clear();
+
+		for (const { transport } of this.sseSessions.values()) {
+			await transport.close();
+		}
+		this.sseSessions.clear();
+
+		if (this.httpServer) {
+			const httpServer = this.httpServer;
+			await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+			this.httpServer = undefined;
+		}
+	}
+}
@@ -0,0 +1,310 @@
+/**
+ * Схемы аргументов задач, общие для одиночных и пакетных инструментов
+ */
+
+import { z } from "zod";
+import {
+	CreateTaskRequest,
+	TaskPatch,
+	PRIORITY_MAP,
+	DATE_ORDERS,
+	RECURRENCE_FREQUENCIES,
+} from "../types/ticktick.js";
+
+/**
+ * Порядок дня и месяца для дат вида 05.03.2025 (перекрывает настройку сервера)
+ */
+export const dateOrderInputSchema = {
+	dateOrder: z
+		.enum(DATE_ORDERS)
+		.optional()
+		.describe(
+			"Порядок дня и месяца в датах вида 05.03.2025: dmy, mdy или auto (неоднозначные даты отклоняются)"
+		),
+};
+
+const recurrenceSpecSchema = z.object({
+	frequency: z.enum(RECURRENCE_FREQUENCIES).describe("Частота повторения"),
+	interval: z
+		.number()
+		.int()
+		.min(1)
+		.optional()
+		.describe("Интервал (каждые N периодов), по умолчанию 1"),
+	weekdays: z
+		.array(z.string())
+		.optional()
+		.describe(
+			"Дни недели: MO, monday, пн; для monthly/yearly с номером: 1MO, -1FR"
+		),
+	monthDays: z
+		.array(z.number().int())
+		.optional()
+		.describe("Дни месяца (1-31, -1 - последний день)"),
+	months: z.array(z.number().int()).optional().describe("Месяцы (1-12)"),
+	count: z.number().int().min(1).optional().describe("Число повторений"),
+	until: z
+		.string()
+		.optional()
+		.describe("Дата окончания (дата или месяц: 2025-06-30, june, 15 июня)"),
+});
+
+const repeatSchema = z.union([z.string(), recurrenceSpecSchema]).optional();
+
+const REPEAT_DESCRIPTION =
+	"текстом ('every 2 weeks on Mon and Thu until June', 'каждый месяц 15 числа'), структурой или RRULE. Нельзя совмещать с repeatFlag";
+
+const newChecklistItemSchema = z.object({
+	title: z.string().describe("Название подзадачи"),
+	status: z
+		.number()
+		.default(0)
+		.describe("Статус подзадачи (0=Normal, 1=Completed)"),
+	isAllDay: z.boolean().optional().describe("Подзадача на весь день"),
+	startDate: z
+		.union([z.string(), z.number()])
+		.optional()
+		.describe(
+			"Дата начала подзадачи (строка, timestamp или относительная дата)"
+		),
+	timeZone: z.string().optional().describe("Временная зона подзадачи"),
+	sortOrder: z.number().optional().describe("Порядок сортировки подзадачи"),
+});
+
+export const createTaskInputSchema = {
+	title: z.string().describe("Название задачи"),
+	projectId: z.string().describe("ID проекта"),
+	content: z.string().optional().describe("Описание задачи"),
+	desc: z.string().optional().describe("Дополнительное описание"),
+	isAllDay: z.boolean().optional().describe("Задача на весь день"),
+	startDate: z
+		.string()
+		.optional()
+		.describe(
+			"Дата начала (ISO 8601, локальная дата, timestamp или относительная: tomorrow 3pm, через 2 дня)"
+		),
+	dueDate: z
+		.string()
+		.optional()
+		.describe(
+			"Срок выполнения (ISO 8601, локальная дата, timestamp или относительная: tomorrow 3pm, через 2 дня)"
+		),
+	timeZone: z
+		.string()
+		.optional()
+		.describe("Временная зона (например, America/Los_Angeles)"),
+	reminders: z
+		.array(z.string())
+		.optional()
+		.describe(
+			"Напоминания: TRIGGER ('TRIGGER:-PT30M') или текст ('30 minutes before', 'at 9:00 on the day', 'за 1 день')"
+		),
+	repeatFlag: z
+		.string()
+		.optional()
+		.describe("Правило повторения (например, 'RRULE:FREQ=DAILY;INTERVAL=1')"),
+	repeat: repeatSchema.describe(`Повторение ${REPEAT_DESCRIPTION}`),
+	priority: z
+		.enum(["none", "low", "medium", "high"])
+		.optional()
+		.describe("Приоритет задачи"),
+	sortOrder: z.number().optional().describe("Порядок сортировки"),
+	items: z.array(newChecklistItemSchema).optional().describe("Подзадачи"),
+	...dateOrderInputSchema,
+};
+
+export const updateTaskInputSchema = {
+	taskId: z.string().describe("ID задачи"),
+	projectId: z.string().describe("ID проекта"),
+	title: z.string().optional().describe("Новое название задачи"),
+	content: z.string().optional().describe("Новое описание задачи"),
+	desc: z.string().optional().describe("Новое дополнительное описание"),
+	isAllDay: z.boolean().optional().describe("Задача на весь день"),
+	startDate: z
+		.string()
+		.optional()
+		.describe(
+			"Новая дата начала (ISO 8601, локальная дата, timestamp или относительная: tomorrow 3pm, через 2 дня)"
+		),
+	dueDate: z
+		.string()
+		.optional()
+		.describe(
+			"Новый срок выполнения (ISO 8601, локальная дата, timestamp или относительная: tomorrow 3pm, через 2 дня)"
+		),
+	timeZone: z
+		.string()
+		.optional()
+		.describe("Новая временная зона (например, America/Los_Angeles)"),
+	reminders: z
+		.array(z.string())
+		.optional()
+		.describe(
+			"Новые напоминания: TRIGGER ('TRIGGER:-PT30M') или текст ('30 minutes before', 'at 9:00 on the day', 'за 1 день')"
+		),
+	repeatFlag: z
+		.string()
+		.optional()
+		.describe(
+			"Новое правило повторения (например, 'RRULE:FREQ=DAILY;INTERVAL=1')"
+		),
+	repeat: repeatSchema.describe(`Новое повторение ${REPEAT_DESCRIPTION}`),
+	priority: z
+		.enum(["none", "low", "medium", "high"])
+		.optional()
+		.describe("Новый приоритет задачи"),
+	sortOrder: z.number().optional().describe("Новый порядок сортировки"),
+	items: z
+		.array(
+			z.object({
+				id: z.string().describe("ID подзадачи (обязательно для обновления)"),
+				title: z.string().describe("Название подзадачи"),
+				status: z
+					.number()
+					.default(0)
+					.describe("Статус подзадачи (0=Normal, 1=Completed)"),
+				isAllDay: z.boolean().optional().describe("Подзадача на весь день"),
+				startDate: z
+					.union([z.string(), z.number()])
+					.optional()
+					.describe(
+						"Дата начала подзадачи (строка, timestamp или относительная дата)"
+					),
+				timeZone: z.string().optional().describe("Временная зона подзадачи"),
+				sortOrder: z
+					.number()
+					.optional()
+					.describe("Порядок сортировки подзадачи"),
+			})
+		)
+		.optional()
+		.describe(
+			"Полный список подзадач (заменяет текущий). Для точечных изменений используйте addItems, updateItems и removeItemIds"
+		),
+	unset: z
+		.array(
+			z.enum([
+				"content",
+				"desc",
+				"startDate",
+				"dueDate",
+				"timeZone",
+				"reminders",
+				"repeatFlag",
+				"priority",
+				"items",
+			])
+		)
+		.optional()
+		.describe("Поля, которые нужно очистить"),
+	addItems: z
+		.array(newChecklistItemSchema)
+		.optional()
+		.describe("Подзадачи для добавления"),
+	updateItems: z
+		.array(
+			z.object({
+				id: z.string().describe("ID подзадачи"),
+				title: z.string().optional().describe("Новое название подзадачи"),
+				status: z
+					.number()
+					.optional()
+					.describe("Новый статус подзадачи (0=Normal, 1=Completed)"),
+				isAllDay: z.boolean().optional().describe("Подзадача на весь день"),
+				startDate: z
+					.union([z.string(), z.number()])
+					.optional()
+					.describe(
+						"Новая дата начала подзадачи (строка, timestamp или относительная дата)"
+					),
+				timeZone: z.string().optional().describe("Временная зона подзадачи"),
+				sortOrder: z
+					.number()
+					.optional()
+					.describe("Новый порядок сортировки подзадачи"),
+			})
+		)
+		.optional()
+		.describe("Изменения существующих подзадач (по ID)"),
+	removeItemIds: z
+		.array(z.string())
+		.optional()
+		.describe("ID подзадач для удаления"),
+	addReminders: z
+		.array(z.string())
+		.optional()
+		.describe(
+			"Напоминания для добавления (TRIGGER или текст, например '30 minutes before')"
+		),
+	removeReminders: z
+		.array(z.string())
+		.optional()
+		.describe(
+			"Напоминания для удаления (TRIGGER или текст, сравниваются по смещению)"
+		),
+	...dateOrderInputSchema,
+};
+
+export const taskRefInputSchema = {
+	projectId: z.string().describe("ID проекта"),
+	taskId: z.string().describe("ID задачи"),
+};
+
+export const checklistItemRefInputSchema = {
+	...taskRefInputSchema,
+	itemId: z.string().describe("ID подзадачи"),
+};
+
+export const newChecklistItemInputSchema = newChecklistItemSchema.shape;
+
+export type CreateTaskInput = z.infer<
+	z.ZodObject<typeof createTaskInputSchema>
+>;
+export type UpdateTaskInput = z.infer<
+	z.ZodObject<typeof updateTaskInputSchema>
+>;
+
+/**
+ * Преобразовать аргументы инструмента в запрос создания задачи
+ */
+export function toCreateTaskRequest({
+	priority,
+	dateOrder,
+	...params
+}: CreateTaskInput): CreateTaskRequest {
+	return {
+		...params,
+		priority: priority ? PRIORITY_MAP[priority] : undefined,
+	};
+}
+
+/**
+ * Преобразовать аргументы инструмента в patch задачи: переданные поля
+ * заменяются, остальные сохраняются
+ */
+export function toTaskPatch({
+	taskId,
+	projectId,
+	priority,
+	unset,
+	addItems,
+	updateItems,
+	removeItemIds,
+	addReminders,
+	removeReminders,
+	dateOrder,
+	...set
+}: UpdateTaskInput): TaskPatch {
+	return {
+		set: {
+			...set,
+			priority: priority ? PRIORITY_MAP[priority] : undefined,
+		},
+		unset,
+		addItems,
+		updateItems,
+		removeItemIds,
+		addReminders,
+		removeReminders,
+	};
+}
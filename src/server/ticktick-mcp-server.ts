@@ -1,77 +1,276 @@
 import {
 	McpServer,
 	ResourceTemplate,
+	ToolCallback,
 } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+	CallToolResult,
+	ServerNotification,
+	ServerRequest,
+	SetLevelRequestSchema,
+	ToolAnnotations,
+} from "@modelcontextprotocol/sdk/types.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { z } from "zod";
+import { z, ZodRawShape, ZodTypeAny } from "zod";
 import { TickTickClient } from "../client/ticktick-client.js";
+import { AccountRegistry } from "../client/account-registry.js";
+import {
+	getUndoProjectIds,
+	summarizeUndoChange,
+} from "../client/undo-journal.js";
+import { McpHttpServer } from "./http-server.js";
+import { ConfirmationStore } from "./confirmations.js";
+import {
+	AuthManager,
+	extractProjectIds,
+	getClientPermissions,
+	isProjectAllowed,
+	isToolAllowed,
+} from "./auth.js";
 import {
 	TickTickClientConfig,
+	TickTickServerOptions,
 	PRIORITY_MAP,
 	McpResponse,
 	ProjectsResponseData,
 	ProjectTasksResponseData,
 	TaskResponseData,
+	PatchTaskResponseData,
+	ChecklistItemResponseData,
+	ReminderResponseData,
+	TaskReminder,
+	ChecklistConversionResponseData,
+	TaskOccurrencesResponseData,
 	CreateTaskResponseData,
+	QuickAddResponseData,
+	CreateTaskRequest,
 	CreateProjectResponseData,
 	OperationResponseData,
 	StatsResponseData,
 	AllProjectsWithTasksResponseData,
+	AccountsResponseData,
+	SearchTasksResponseData,
+	AgendaResponseData,
+	CompletedTasksResponseData,
+	UndoEntry,
+	UndoHistoryResponseData,
+	UndoResponseData,
+	AGENDA_BUCKETS,
+	RefreshResponseData,
+	FailedProject,
+	ClientStatusResponseData,
+	MoveTaskItemResult,
+	BatchOperationType,
+	BatchItemResult,
+	BatchResponseData,
+	Task,
+	MoveTasksResponseData,
+	TickTickApiError,
+	TickTickErrorCode,
+	TickTickValidationError,
+	Locale,
+	LOCALES,
+	ConfirmationMode,
+	CONFIRMATION_MODES,
+	ConfirmationResponseData,
+	OperationPreview,
+	PlannedRequest,
 } from "../types/ticktick.js";
 import { validateTimeZone } from "../utils/validators.js";
-
-class Logger {
-	constructor(private context: string) {}
-
-	log(message: string, ...args: any[]) {
-		console.log(`[${this.context}] ${message}`, ...args);
-	}
-
-	error(message: string, error?: any) {
-		console.error(`[${this.context}] ${message}`, error);
-	}
-
-	warn(message: string, ...args: any[]) {
-		console.warn(`[${this.context}] ${message}`, ...args);
-	}
-}
+import { getHostTimeZone, getZonedDayStart } from "../utils/date-utils.js";
+import { createTaskFilter, sortTasks } from "../utils/task-filters.js";
+import { buildAgenda } from "../utils/agenda.js";
+import { parseQuickAdd } from "../utils/quick-add-parser.js";
+import { withTaskDescriptions } from "../utils/task-descriptions.js";
+import {
+	describeReminder,
+	isSameReminder,
+	parseReminder,
+} from "../utils/reminders.js";
+import {
+	createTaskInputSchema,
+	updateTaskInputSchema,
+	taskRefInputSchema,
+	checklistItemRefInputSchema,
+	newChecklistItemInputSchema,
+	dateOrderInputSchema,
+	toCreateTaskRequest,
+	toTaskPatch,
+} from "./task-schemas.js";
+import {
+	Logger,
+	McpLogSink,
+	registerMcpLogSink,
+	runWithLogContext,
+} from "../utils/logger.js";
+
+/**
+ * Максимальное количество элементов в пакетной операции
+ */
+const MAX_BATCH_SIZE = 100;
+
+/**
+ * Сколько задач перечисляется в предпросмотре разрушительной операции
+ */
+const MAX_PREVIEW_TASKS = 50;
+
+/**
+ * Подсказки клиентам о характере инструмента. Изменяющие инструменты
+ * получают параметр dryRun, разрушительные - еще и подтверждение.
+ */
+const READ_ONLY_TOOL: ToolAnnotations = { readOnlyHint: true };
+const MUTATING_TOOL: ToolAnnotations = {
+	readOnlyHint: false,
+	destructiveHint: false,
+};
+const DESTRUCTIVE_TOOL: ToolAnnotations = {
+	readOnlyHint: false,
+	destructiveHint: true,
+};
+
+const dryRunInputSchema = {
+	dryRun: z
+		.boolean()
+		.optional()
+		.describe(
+			"Только проверить параметры и показать запросы к API, не выполняя их"
+		),
+};
+
+const confirmationInputSchema = {
+	confirmationToken: z
+		.string()
+		.optional()
+		.describe(
+			"Токен подтверждения из предыдущего вызова этого инструмента с теми же параметрами"
+		),
+};
+
+/**
+ * Общий для всех инструментов аргумент выбора аккаунта
+ */
+const accountInputSchema = {
+	account: z
+		.string()
+		.optional()
+		.describe("Имя аккаунта TickTick (по умолчанию - аккаунт по умолчанию)"),
+};
 
 export class TickTickMcpServer {
 	private readonly logger = new Logger(TickTickMcpServer.name);
-	private readonly server: McpServer;
-	private readonly tickTickClient: TickTickClient;
+	private readonly accounts: AccountRegistry;
+	private readonly options: TickTickServerOptions;
+	private readonly defaultTimeZone: string;
+	private readonly locale: Locale;
+	private readonly confirmationMode: ConfirmationMode;
+	private readonly confirmations: ConfirmationStore;
+	private httpServer?: McpHttpServer;
+	private readonly logSinks = new WeakMap<McpServer, McpLogSink>();
+
+	constructor(
+		config: TickTickClientConfig = {},
+		options: TickTickServerOptions = {}
+	) {
+		this.defaultTimeZone = options.timeZone || getHostTimeZone();
+		if (!validateTimeZone(this.defaultTimeZone)) {
+			throw new Error(`Невалидная временная зона: ${this.defaultTimeZone}`);
+		}
+
+		this.locale = options.locale || "ru";
+		if (!LOCALES.includes(this.locale)) {
+			throw new Error(
+				`Неизвестный язык: ${this.locale}. Допустимые значения: ${LOCALES.join(
+					", "
+				)}`
+			);
+		}
 
-	constructor(config: TickTickClientConfig = {}) {
-		// Проверяем наличие токена в конфигурации или переменных окружения
-		const accessToken = config.accessToken || process.env.TICKTICK_ACCESS_TOKEN;
-		if (!accessToken) {
+		this.confirmationMode = options.confirmation || "elicit";
+		if (!CONFIRMATION_MODES.includes(this.confirmationMode)) {
 			throw new Error(
-				"Access token не найден. Установите TICKTICK_ACCESS_TOKEN в переменных окружения."
+				`Неизвестный режим подтверждения: ${
+					this.confirmationMode
+				}. Допустимые значения: ${CONFIRMATION_MODES.join(", ")}`
 			);
 		}
+		this.confirmations = new ConfirmationStore(options.confirmationTtl);
 
-		// Передаем токен в конфигурацию клиента
-		this.tickTickClient = new TickTickClient({
+		// Токен из конфигурации или переменных окружения регистрируется как аккаунт "default"
+		const baseConfig: TickTickClientConfig = {
 			...config,
-			accessToken,
-		});
+			accessToken: config.accessToken || process.env.TICKTICK_ACCESS_TOKEN,
+			timeZone: config.timeZone || this.defaultTimeZone,
+		};
 
-		this.server = new McpServer({
-			name: "ticktick-mcp-server",
-			version: "1.0.0",
-		});
+		this.accounts = options.accountsConfigPath
+			? AccountRegistry.fromFile(options.accountsConfigPath, baseConfig)
+			: new AccountRegistry({ accounts: [] }, baseConfig);
+
+		this.options = options;
+	}
+
+	/**
+	 * Создать экземпляр MCP сервера с зарегистрированными инструментами и ресурсами.
+	 * Каждая HTTP сессия получает собственный экземпляр, т.к. McpServer
+	 * может быть подключен только к одному транспорту.
+	 */
+	private createServer(): McpServer {
+		const server = new McpServer(
+			{
+				name: "ticktick-mcp-server",
+				version: "1.0.0",
+			},
+			{ capabilities: { logging: {} } }
+		);
+
+		this.setupLogging(server);
+		this.setupTools(server);
+		this.setupResources(server);
+
+		return server;
+	}
+
+	/**
+	 * Подключить сессию к логированию: логи отправляются клиенту как
+	 * notifications/message с учетом уровня из logging/setLevel
+	 */
+	private setupLogging(server: McpServer) {
+		// Уведомления можно отправлять только после завершения инициализации сессии
+		let initialized = false;
+		server.server.oninitialized = () => {
+			initialized = true;
+		};
+
+		const sink: McpLogSink = {
+			isConnected: () => initialized && server.isConnected(),
+			send: (params) => server.server.sendLoggingMessage(params),
+		};
+		this.logSinks.set(server, sink);
+
+		// Логи вне запросов (сессии, ошибки других аккаунтов) получает только
+		// единственный stdio клиент: HTTP сессии видят лишь логи своих запросов
+		if (this.options.transport !== "http") {
+			const unregister = registerMcpLogSink(sink);
+			server.server.onclose = () => unregister();
+		}
 
-		this.setupTools();
-		this.setupResources();
+		server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+			sink.level = request.params.level;
+			this.logger.log(`Client log level set to ${request.params.level}`);
+			return {};
+		});
 	}
 
 	/**
 	 * Создать успешный ответ в формате JSON
 	 */
 	private createSuccessResponse<T>(data: T, message: string) {
+		// Задачи дополняются читаемыми описаниями повторения и напоминаний
 		const responseData: McpResponse<T> = {
 			success: true,
-			data: data,
+			data: withTaskDescriptions(data, this.locale),
 			message: message,
 			timestamp: new Date().toISOString(),
 		};
@@ -86,6 +285,450 @@ export class TickTickMcpServer {
 		};
 	}
 
+	/**
+	 * Выполнить операцию для каждой задачи пакета с ограниченной параллельностью
+	 * и собрать результаты в порядке входного массива
+	 */
+	private async runTaskBatch<T extends { projectId: string; taskId?: string }>(
+		client: TickTickClient,
+		operation: BatchOperationType,
+		items: T[],
+		execute: (item: T) => Promise<Task | void>
+	): Promise<BatchResponseData> {
+		const outcomes = await client.runBatch(
+			items.map((item, index) => ({ item, index })),
+			({ item }) => execute(item)
+		);
+
+		const results: BatchItemResult[] = outcomes.map((outcome) => {
+			const { item, index } = outcome.item;
+			if (outcome.error === undefined) {
+				const task = outcome.value || undefined;
+				return {
+					index,
+					success: true,
+					projectId: task?.projectId || item.projectId,
+					taskId: task?.id || item.taskId,
+					task,
+				};
+			}
+
+			this.logger.warn(
+				`Batch ${operation} item ${index} failed`,
+				outcome.error
+			);
+			return {
+				index,
+				success: false,
+				projectId: item.projectId,
+				taskId: item.taskId,
+				error:
+					outcome.error instanceof Error
+						? outcome.error.message
+						: String(outcome.error),
+				code:
+					outcome.error instanceof TickTickApiError
+						? outcome.error.code
+						: undefined,
+				details:
+					outcome.error instanceof TickTickApiError
+						? outcome.error.details
+						: undefined,
+			};
+		});
+
+		const succeeded = results.filter((result) => result.success).length;
+		return {
+			operation,
+			total: results.length,
+			succeeded,
+			failed: results.length - succeeded,
+			results,
+		};
+	}
+
+	/**
+	 * Ответ пакетной операции: ошибка, только если не выполнен ни один элемент
+	 */
+	private createBatchResponse(responseData: BatchResponseData, label: string) {
+		const message = `${label}: ${responseData.succeeded} из ${responseData.total}`;
+
+		if (responseData.succeeded === 0) {
+			const firstFailure = responseData.results[0];
+			return this.createErrorResponse(
+				new TickTickApiError(
+					firstFailure.error || "Не удалось выполнить пакетную операцию",
+					undefined,
+					firstFailure.code,
+					responseData
+				),
+				message
+			);
+		}
+
+		return this.createSuccessResponse(responseData, message);
+	}
+
+	/**
+	 * Ответ преобразования подзадач и задач: ошибка, только если не
+	 * преобразован ни один элемент
+	 */
+	private createConversionResponse(
+		responseData: ChecklistConversionResponseData,
+		message: string
+	) {
+		if (responseData.converted === 0) {
+			const firstFailure = responseData.results[0];
+			return this.createErrorResponse(
+				new TickTickApiError(
+					firstFailure?.error || "Не удалось выполнить преобразование",
+					undefined,
+					firstFailure?.code,
+					responseData
+				),
+				message
+			);
+		}
+
+		const warning = responseData.warning ? `. ${responseData.warning}` : "";
+		return this.createSuccessResponse(responseData, message + warning);
+	}
+
+	/**
+	 * Дополнить ответ инструмента, выполненного в режиме dryRun, списком
+	 * запросов, которые были бы отправлены в API
+	 */
+	private markDryRun(
+		result: CallToolResult,
+		requests: PlannedRequest[]
+	): CallToolResult {
+		const [first, ...rest] = result.content;
+		if (first?.type !== "text") {
+			return result;
+		}
+		const response = JSON.parse(first.text) as McpResponse;
+		response.dryRun = true;
+		response.message = `[dryRun, изменения не выполнены] ${response.message}`;
+		if (response.success) {
+			response.plannedRequests = requests;
+		}
+
+		return {
+			...result,
+			content: [{ ...first, text: JSON.stringify(response, null, 2) }, ...rest],
+		};
+	}
+
+	/**
+	 * Подтвердить разрушительную операцию. Возвращает ответ для клиента, если
+	 * выполнять операцию сейчас нельзя: предпросмотр с токеном подтверждения,
+	 * отказ пользователя или ошибку токена. null - операцию можно выполнять,
+	 * в том числе когда предпросмотр не нужен при таких параметрах.
+	 */
+	private async confirmOperation(
+		server: McpServer,
+		tool: string,
+		args: Record<string, unknown>,
+		confirmationToken: string | undefined,
+		buildPreview: () => Promise<OperationPreview | null>,
+		authInfo?: AuthInfo
+	) {
+		const clientId = getClientPermissions(authInfo)?.clientId;
+
+		try {
+			if (confirmationToken) {
+				this.confirmations.consume(confirmationToken, tool, args, clientId);
+				return null;
+			}
+
+			const preview = await buildPreview();
+			if (!preview) {
+				return null;
+			}
+
+			if (
+				this.confirmationMode === "elicit" &&
+				server.server.getClientCapabilities()?.elicitation
+			) {
+				const confirmed = await this.elicitConfirmation(server, preview);
+				if (confirmed === true) {
+					return null;
+				}
+				if (confirmed === false) {
+					return this.createErrorResponse(
+						new TickTickValidationError(
+							"Операция не подтверждена пользователем",
+							{ preview }
+						),
+						`${preview.description}: операция отменена`
+					);
+				}
+			}
+
+			const { token, expiresAt } = this.confirmations.issue(
+				tool,
+				args,
+				clientId
+			);
+			const responseData: ConfirmationResponseData = {
+				confirmationRequired: true,
+				tool,
+				confirmationToken: token,
+				expiresAt: expiresAt.toISOString(),
+				preview,
+			};
+
+			return this.createSuccessResponse(
+				responseData,
+				`Требуется подтверждение: ${preview.description}. Чтобы выполнить операцию, повторите вызов ${tool} с теми же параметрами и confirmationToken до ${responseData.expiresAt}`
+			);
+		} catch (error) {
+			this.logger.error(`Failed to confirm ${tool}`, error);
+			return this.createErrorResponse(
+				error,
+				`Ошибка при подтверждении операции: ${error}`
+			);
+		}
+	}
+
+	/**
+	 * Запросить подтверждение у пользователя через MCP elicitation.
+	 * undefined - клиент не ответил, тогда выдается токен подтверждения.
+	 */
+	private async elicitConfirmation(
+		server: McpServer,
+		preview: OperationPreview
+	): Promise<boolean | undefined> {
+		const titles = preview.tasks.map((task) => `- ${task.title}`).join("\n");
+		try {
+			const result = await server.server.elicitInput({
+				message: `${preview.description}${titles ? `:\n${titles}` : ""}`,
+				requestedSchema: {
+					type: "object",
+					properties: {
+						confirm: {
+							type: "boolean",
+							title: "Подтвердить",
+							description: "Выполнить операцию",
+						},
+					},
+					required: ["confirm"],
+				},
+			});
+			return result.action === "accept" && result.content?.confirm === true;
+		} catch (error) {
+			this.logger.warn(
+				"Elicitation failed, falling back to confirmation token",
+				error
+			);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Предпросмотр удаления задач: названия, проекты и задачи, которые не найдены
+	 */
+	private async previewTaskDeletion(
+		client: TickTickClient,
+		refs: { projectId: string; taskId: string }[]
+	): Promise<OperationPreview> {
+		const loaded = await client.runBatch(refs, (ref) =>
+			client.getTask(ref.projectId, ref.taskId)
+		);
+		const tasks = loaded
+			.filter((result) => result.error === undefined)
+			.map((result) => result.value!);
+		const notFound = loaded
+			.filter((result) => result.error !== undefined)
+			.map((result) => ({
+				...result.item,
+				error:
+					result.error instanceof Error
+						? result.error.message
+						: String(result.error),
+			}));
+
+		const projectIds = [...new Set(tasks.map((task) => task.projectId))];
+		const projects = await client.runBatch(projectIds, (projectId) =>
+			client.getProject(projectId)
+		);
+		const titles = tasks
+			.slice(0, 3)
+			.map((task) => `"${task.title}"`)
+			.join(", ");
+
+		return {
+			description:
+				tasks.length === 1
+					? `Удалить задачу "${tasks[0].title}"${
+							projects[0]?.value
+								? ` из проекта "${projects[0].value.name}"`
+								: ""
+					  }`
+					: `Удалить задачи (${tasks.length}): ${titles}${
+							tasks.length > 3 ? " и другие" : ""
+					  }`,
+			projects: projects.map((result) => ({
+				projectId: result.item,
+				name: result.value?.name,
+			})),
+			taskCount: tasks.length,
+			tasks: tasks.slice(0, MAX_PREVIEW_TASKS).map((task) => ({
+				projectId: task.projectId,
+				taskId: task.id,
+				title: task.title,
+			})),
+			notFound: notFound.length > 0 ? notFound : undefined,
+		};
+	}
+
+	/**
+	 * Предпросмотр удаления проекта: проект и задачи, которые удалятся вместе с ним
+	 */
+	private async previewProjectDeletion(
+		client: TickTickClient,
+		projectId: string
+	): Promise<OperationPreview> {
+		client.clearCache(projectId);
+		const { project, tasks } = await client.getProjectWithData(projectId);
+
+		return {
+			description: `Удалить проект "${project.name}" вместе с задачами (${tasks.length})`,
+			projects: [{ projectId: project.id, name: project.name }],
+			taskCount: tasks.length,
+			tasks: tasks.slice(0, MAX_PREVIEW_TASKS).map((task) => ({
+				projectId: task.projectId,
+				taskId: task.id,
+				title: task.title,
+			})),
+		};
+	}
+
+	/**
+	 * Предпросмотр перемещения задач: нужен, только если задачи могут быть
+	 * пересозданы с удалением исходных
+	 */
+	private async previewTaskMove(
+		client: TickTickClient,
+		refs: { projectId: string; taskId: string }[],
+		targetProjectId: string
+	): Promise<OperationPreview | null> {
+		if (!client.mayRecreateOnMove()) {
+			return null;
+		}
+
+		const preview = await this.previewTaskDeletion(client, refs);
+		const target = await client.getProject(targetProjectId);
+		return {
+			...preview,
+			description: `Переместить задачи (${preview.taskCount}) в проект "${target.name}". API перемещения не поддерживается или еще не проверен: задачи могут быть пересозданы с новыми ID, а исходные удалены`,
+		};
+	}
+
+	/**
+	 * Предпросмотр объединения задач в чек-лист: нужен, только если исходные
+	 * задачи удаляются
+	 */
+	private async previewChecklistFold(
+		client: TickTickClient,
+		target: { projectId: string; taskId: string },
+		refs: { projectId: string; taskId: string }[],
+		sourceAction: "complete" | "delete"
+	): Promise<OperationPreview | null> {
+		if (sourceAction !== "delete") {
+			return null;
+		}
+
+		const preview = await this.previewTaskDeletion(client, refs);
+		const task = await client.getTask(target.projectId, target.taskId);
+		return {
+			...preview,
+			description: `${preview.description} после переноса в чек-лист задачи "${task.title}"`,
+		};
+	}
+
+	/**
+	 * Задачи для move_task: одна задача (projectId и taskId) и список tasks
+	 */
+	private toMoveRefs({
+		projectId,
+		taskId,
+		tasks,
+	}: {
+		projectId?: string;
+		taskId?: string;
+		tasks?: { projectId: string; taskId: string }[];
+	}): { projectId: string; taskId: string }[] {
+		const moves = [...(tasks || [])];
+		if (projectId && taskId) {
+			moves.unshift({ projectId, taskId });
+		} else if (projectId || taskId) {
+			throw new TickTickValidationError(
+				"Для перемещения одной задачи укажите и projectId, и taskId"
+			);
+		}
+		if (moves.length === 0) {
+			throw new TickTickValidationError(
+				"Укажите задачу (projectId и taskId) или список задач tasks"
+			);
+		}
+		return moves;
+	}
+
+	/**
+	 * Ответ отмены операции: ошибка, только если не отменено ни одно изменение
+	 */
+	private createUndoResponse(responseData: UndoResponseData) {
+		const message = `Операция ${responseData.tool} от ${responseData.createdAt}: отменено изменений ${responseData.undone} из ${responseData.results.length}`;
+
+		if (responseData.undone === 0) {
+			const firstFailure = responseData.results[0];
+			return this.createErrorResponse(
+				new TickTickApiError(
+					firstFailure?.error || "Не удалось отменить операцию",
+					undefined,
+					firstFailure?.code,
+					responseData
+				),
+				message
+			);
+		}
+
+		return this.createSuccessResponse(responseData, message);
+	}
+
+	/**
+	 * Записи журнала отмены, сделанные этим клиентом, все проекты которых ему
+	 * доступны
+	 */
+	private async getAllowedUndoHistory(
+		client: TickTickClient,
+		authInfo?: AuthInfo
+	): Promise<UndoEntry[]> {
+		const permissions = getClientPermissions(authInfo);
+		return (await client.getUndoHistory()).filter(
+			(entry) =>
+				entry.clientId === permissions?.clientId &&
+				getUndoProjectIds(entry).every((projectId) =>
+					isProjectAllowed(permissions, projectId)
+				)
+		);
+	}
+
+	/**
+	 * Суффикс сообщения со списком проектов, которые не удалось загрузить
+	 */
+	private formatFailedProjects(failedProjects: FailedProject[]): string {
+		if (failedProjects.length === 0) {
+			return "";
+		}
+		return `. Не удалось загрузить ${
+			failedProjects.length
+		} проектов: ${failedProjects
+			.map((project) => project.projectName)
+			.join(", ")}`;
+	}
+
 	/**
 	 * Создать ответ об ошибке в формате JSON
 	 */
@@ -97,6 +740,11 @@ export class TickTickMcpServer {
 			timestamp: new Date().toISOString(),
 		};
 
+		if (error instanceof TickTickApiError) {
+			responseData.code = error.code;
+			responseData.details = error.details;
+		}
+
 		return {
 			content: [
 				{
@@ -108,18 +756,256 @@ export class TickTickMcpServer {
 		};
 	}
 
-	private setupTools() {
+	/**
+	 * Проверить права клиента на вызов инструмента и доступ к проектам из аргументов
+	 */
+	private checkToolAccess(
+		toolName: string,
+		args: unknown,
+		authInfo?: AuthInfo
+	): TickTickApiError | null {
+		const permissions = getClientPermissions(authInfo);
+
+		if (!isToolAllowed(permissions, toolName)) {
+			return new TickTickApiError(
+				`Клиенту "${permissions?.clientId}" запрещен вызов инструмента ${toolName}`,
+				403,
+				TickTickErrorCode.FORBIDDEN,
+				{ tool: toolName, clientId: permissions?.clientId }
+			);
+		}
+
+		const requestedAccount = (args as { account?: string } | undefined)
+			?.account;
+		if (
+			permissions?.account &&
+			requestedAccount &&
+			requestedAccount !== permissions.account
+		) {
+			return new TickTickApiError(
+				`Клиенту "${permissions.clientId}" запрещен доступ к аккаунту "${requestedAccount}"`,
+				403,
+				TickTickErrorCode.FORBIDDEN,
+				{
+					tool: toolName,
+					clientId: permissions.clientId,
+					account: requestedAccount,
+				}
+			);
+		}
+
+		const deniedProjects = extractProjectIds(args).filter(
+			(projectId) => !isProjectAllowed(permissions, projectId)
+		);
+		if (deniedProjects.length > 0) {
+			return new TickTickApiError(
+				`Клиенту "${
+					permissions?.clientId
+				}" запрещен доступ к проектам: ${deniedProjects.join(", ")}`,
+				403,
+				TickTickErrorCode.FORBIDDEN,
+				{
+					tool: toolName,
+					clientId: permissions?.clientId,
+					projectIds: deniedProjects,
+				}
+			);
+		}
+
+		return null;
+	}
+
+	/**
+	 * Оставить только проекты, к которым у клиента есть доступ
+	 */
+	private filterAllowedProjects<T>(
+		items: T[],
+		getProjectId: (item: T) => string,
+		authInfo?: AuthInfo
+	): T[] {
+		const permissions = getClientPermissions(authInfo);
+		return items.filter((item) =>
+			isProjectAllowed(permissions, getProjectId(item))
+		);
+	}
+
+	/**
+	 * Получить клиент аккаунта. Если за авторизованным клиентом закреплен аккаунт,
+	 * используется только он.
+	 */
+	private getClient(account?: string, authInfo?: AuthInfo): TickTickClient {
+		const permissions = getClientPermissions(authInfo);
+		return this.accounts.getClient(permissions?.account || account);
+	}
+
+	/**
+	 * Зарегистрировать инструмент с проверкой прав клиента перед вызовом.
+	 * Каждый инструмент получает необязательный аргумент account, изменяющий
+	 * (не readOnlyHint) - dryRun, а разрушительный (destructiveHint) с
+	 * preview - подтверждение перед выполнением. preview возвращает null,
+	 * если при таких параметрах подтверждение не требуется.
+	 */
+	private registerTool<InputArgs extends ZodRawShape>(
+		server: McpServer,
+		name: string,
+		config: {
+			title?: string;
+			description?: string;
+			inputSchema?: InputArgs;
+			annotations?: ToolAnnotations;
+			preview?: (
+				client: TickTickClient,
+				args: z.objectOutputType<InputArgs, ZodTypeAny>
+			) => Promise<OperationPreview | null>;
+		},
+		handler: ToolCallback<InputArgs & typeof accountInputSchema>
+	) {
+		const { preview, ...toolConfig } = config;
+		const mutating = config.annotations?.readOnlyHint !== true;
+		// Инструмент со своим dryRun (quick_add_task) обрабатывает его сам
+		const dryRunSupported =
+			mutating && !(config.inputSchema && "dryRun" in config.inputSchema);
+		const confirmationRequired =
+			!!preview &&
+			config.annotations?.destructiveHint === true &&
+			this.confirmationMode !== "off";
+
+		const guardedHandler = async (
+			args: Record<string, unknown>,
+			extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+		) =>
+			runWithLogContext(
+				{
+					requestId: extra.requestId,
+					sessionId: extra.sessionId,
+					tool: name,
+					sink: this.logSinks.get(server),
+				},
+				async () => {
+					this.logger.debug(`Tool call: ${name}`);
+
+					const accessError = this.checkToolAccess(name, args, extra.authInfo);
+					if (accessError) {
+						this.logger.warn(accessError.message);
+						return this.createErrorResponse(
+							accessError,
+							`Доступ запрещен: ${accessError.message}`
+						);
+					}
+
+					const { dryRun, confirmationToken, ...rest } = args || {};
+					// Аргументы уже проверены SDK по inputSchema инструмента
+					const toolArgs = rest as z.objectOutputType<
+						InputArgs & typeof accountInputSchema,
+						ZodTypeAny
+					>;
+					const run = async (): Promise<CallToolResult> =>
+						handler(toolArgs, extra);
+
+					let client: TickTickClient | undefined;
+					try {
+						client = this.getClient(toolArgs.account, extra.authInfo);
+					} catch {
+						// Ошибку выбора аккаунта вернет сам инструмент
+					}
+					if (!client) {
+						return run();
+					}
+
+					if (dryRunSupported && dryRun === true) {
+						const { result, requests } = await client.dryRun(run);
+						return this.markDryRun(result, requests);
+					}
+
+					if (confirmationRequired) {
+						const refusal = await this.confirmOperation(
+							server,
+							name,
+							toolArgs,
+							typeof confirmationToken === "string"
+								? confirmationToken
+								: undefined,
+							() => preview(client!, toolArgs),
+							extra.authInfo
+						);
+						if (refusal) {
+							return refusal;
+						}
+					}
+
+					// Изменения, сделанные инструментом, записываются одной операцией в журнал отмены
+					return client.withUndo(
+						name,
+						run,
+						getClientPermissions(extra.authInfo)?.clientId
+					);
+				}
+			);
+
+		return server.registerTool(
+			name,
+			{
+				...toolConfig,
+				inputSchema: {
+					...config.inputSchema,
+					...(dryRunSupported ? dryRunInputSchema : {}),
+					...(confirmationRequired ? confirmationInputSchema : {}),
+					...accountInputSchema,
+				} as InputArgs & typeof accountInputSchema,
+			},
+			guardedHandler as ToolCallback<InputArgs & typeof accountInputSchema>
+		);
+	}
+
+	private setupTools(server: McpServer) {
+		// Инструмент для получения списка аккаунтов
+		this.registerTool(
+			server,
+			"get_accounts",
+			{
+				title: "Получить аккаунты",
+				description:
+					"Получить список настроенных аккаунтов TickTick, доступных для параметра account",
+				inputSchema: {},
+				annotations: READ_ONLY_TOOL,
+			},
+			async (_args, extra) => {
+				const permissions = getClientPermissions(extra.authInfo);
+				const accounts = permissions?.account
+					? [permissions.account]
+					: this.accounts.getAccountNames();
+
+				const responseData: AccountsResponseData = {
+					defaultAccount:
+						permissions?.account || this.accounts.getDefaultAccount(),
+					accounts,
+				};
+
+				return this.createSuccessResponse(
+					responseData,
+					`Доступно ${accounts.length} аккаунтов`
+				);
+			}
+		);
+
 		// Инструмент для получения проектов
-		this.server.registerTool(
+		this.registerTool(
+			server,
 			"get_projects",
 			{
 				title: "Получить проекты",
 				description: "Получить все проекты пользователя TickTick",
 				inputSchema: {},
+				annotations: READ_ONLY_TOOL,
 			},
-			async () => {
+			async ({ account }, extra) => {
 				try {
-					const projects = await this.tickTickClient.getProjects();
+					const client = this.getClient(account, extra.authInfo);
+					const projects = this.filterAllowedProjects(
+						await client.getProjects(),
+						(project) => project.id,
+						extra.authInfo
+					);
 
 					const responseData: ProjectsResponseData = {
 						count: projects.length,
@@ -141,7 +1027,8 @@ export class TickTickMcpServer {
 		);
 
 		// Инструмент для получения задач проекта
-		this.server.registerTool(
+		this.registerTool(
+			server,
 			"get_project_tasks",
 			{
 				title: "Получить задачи проекта",
@@ -149,12 +1036,12 @@ export class TickTickMcpServer {
 				inputSchema: {
 					projectId: z.string().describe("ID проекта"),
 				},
+				annotations: READ_ONLY_TOOL,
 			},
-			async ({ projectId }) => {
+			async ({ projectId, account }, extra) => {
 				try {
-					const projectData = await this.tickTickClient.getProjectWithData(
-						projectId
-					);
+					const client = this.getClient(account, extra.authInfo);
+					const projectData = await client.getProjectWithData(projectId);
 
 					const tasks = projectData.tasks || [];
 					const responseData: ProjectTasksResponseData = {
@@ -178,7 +1065,8 @@ export class TickTickMcpServer {
 		);
 
 		// Инструмент для получения конкретной задачи
-		this.server.registerTool(
+		this.registerTool(
+			server,
 			"get_task",
 			{
 				title: "Получить задачу",
@@ -187,10 +1075,12 @@ export class TickTickMcpServer {
 					projectId: z.string().describe("ID проекта"),
 					taskId: z.string().describe("ID задачи"),
 				},
+				annotations: READ_ONLY_TOOL,
 			},
-			async ({ projectId, taskId }) => {
+			async ({ projectId, taskId, account }, extra) => {
 				try {
-					const task = await this.tickTickClient.getTask(projectId, taskId);
+					const client = this.getClient(account, extra.authInfo);
+					const task = await client.getTask(projectId, taskId);
 
 					const responseData: TaskResponseData = {
 						task: task,
@@ -210,525 +1100,1847 @@ export class TickTickMcpServer {
 			}
 		);
 
-		// Инструмент для создания задачи
-		this.server.registerTool(
-			"create_task",
+		this.registerTool(
+			server,
+			"get_task_occurrences",
 			{
-				title: "Создать задачу",
-				description: "Создать новую задачу в TickTick",
+				title: "Вхождения повторяющейся задачи",
+				description:
+					"Рассчитать ближайшие даты повторяющейся задачи по ее правилу повторения (repeatFlag). Поддерживаются DAILY, WEEKLY, MONTHLY, YEARLY с INTERVAL, COUNT, UNTIL, BYDAY (включая '2MO' и '-1FR'), BYMONTHDAY и BYMONTH.",
 				inputSchema: {
-					title: z.string().describe("Название задачи"),
-					projectId: z.string().describe("ID проекта"),
-					content: z.string().optional().describe("Описание задачи"),
-					desc: z.string().optional().describe("Дополнительное описание"),
-					isAllDay: z.boolean().optional().describe("Задача на весь день"),
-					startDate: z
-						.string()
-						.optional()
-						.describe("Дата начала (ISO 8601, локальная дата или timestamp)"),
-					dueDate: z
-						.string()
-						.optional()
-						.describe(
-							"Срок выполнения (ISO 8601, локальная дата или timestamp)"
-						),
-					timeZone: z
-						.string()
-						.optional()
-						.describe("Временная зона (например, America/Los_Angeles)"),
-					reminders: z
-						.array(z.string())
+					...taskRefInputSchema,
+					count: z
+						.number()
+						.int()
+						.min(1)
+						.max(100)
 						.optional()
-						.describe("Напоминания (например, ['TRIGGER:P0DT9H0M0S'])"),
-					repeatFlag: z
+						.default(5)
+						.describe("Сколько вхождений вернуть"),
+					from: z
 						.string()
 						.optional()
 						.describe(
-							"Правило повторения (например, 'RRULE:FREQ=DAILY;INTERVAL=1')"
+							"Искать вхождения начиная с этой даты (по умолчанию - сейчас; поддерживаются относительные даты)"
 						),
-					priority: z
-						.enum(["none", "low", "medium", "high"])
-						.optional()
-						.describe("Приоритет задачи"),
-					sortOrder: z.number().optional().describe("Порядок сортировки"),
-					items: z
-						.array(
-							z.object({
-								title: z.string().describe("Название подзадачи"),
-								status: z
-									.number()
-									.default(0)
-									.describe("Статус подзадачи (0=Normal, 1=Completed)"),
-								isAllDay: z
-									.boolean()
-									.optional()
-									.describe("Подзадача на весь день"),
-								startDate: z
-									.union([z.string(), z.number()])
-									.optional()
-									.describe("Дата начала подзадачи (строка или timestamp)"),
-								timeZone: z
-									.string()
-									.optional()
-									.describe("Временная зона подзадачи"),
-								sortOrder: z
-									.number()
-									.optional()
-									.describe("Порядок сортировки подзадачи"),
-							})
-						)
-						.optional()
-						.describe("Подзадачи"),
 				},
+				annotations: READ_ONLY_TOOL,
 			},
-			async ({
-				title,
-				projectId,
-				content,
-				desc,
-				isAllDay,
-				startDate,
-				dueDate,
-				timeZone,
-				reminders,
-				repeatFlag,
-				priority,
-				sortOrder,
-				items,
-			}) => {
-				try {
-					const task = await this.tickTickClient.createTask({
-						title,
-						projectId,
-						content,
-						desc,
-						isAllDay,
-						startDate,
-						dueDate,
-						timeZone,
-						reminders,
-						repeatFlag,
-						priority: priority ? PRIORITY_MAP[priority] : undefined,
-						sortOrder,
-						items,
-					});
-
-					const responseData: CreateTaskResponseData = {
-						task: task,
-					};
+			async ({ account, projectId, taskId, count, from }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const responseData: TaskOccurrencesResponseData =
+						await client.getTaskOccurrences(projectId, taskId, {
+							from,
+							limit: count,
+						});
+
+					return this.createSuccessResponse(
+						responseData,
+						`Найдено вхождений задачи "${responseData.task.title}": ${responseData.occurrences.length}`
+					);
+				} catch (error) {
+					this.logger.error("Failed to get task occurrences", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при расчете вхождений задачи: ${error}`
+					);
+				}
+			}
+		);
+
+		// Инструмент для создания задачи
+		this.registerTool(
+			server,
+			"create_task",
+			{
+				title: "Создать задачу",
+				description: "Создать новую задачу в TickTick",
+				inputSchema: createTaskInputSchema,
+				annotations: MUTATING_TOOL,
+			},
+			async ({ account, ...params }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const task = await client.createTask(toCreateTaskRequest(params), {
+						dateOrder: params.dateOrder,
+					});
+
+					const responseData: CreateTaskResponseData = {
+						task: task,
+					};
+
+					return this.createSuccessResponse(
+						responseData,
+						`Задача "${task.title}" успешно создана с ID: ${task.id}`
+					);
+				} catch (error) {
+					this.logger.error("Failed to create task", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при создании задачи: ${error}`
+					);
+				}
+			}
+		);
+
+		// Инструмент для быстрого создания задачи из строки
+		this.registerTool(
+			server,
+			"quick_add_task",
+			{
+				title: "Быстро добавить задачу",
+				description:
+					'Создать задачу из строки в стиле TickTick: "Call vendor tomorrow 3pm !high ^Work #billing every monday remind 30m before". Поддерживаются даты (today, tomorrow, next friday, in 3 days, end of month, завтра в 15:00, 2025-03-05), время (3pm, 15:00), приоритет (!high, !medium, !low, !none), проект (^Название), теги (#тег), повторение (every day, every 2 weeks, every mon and thu, every weekday, daily) и напоминания (remind 30m before, remind 1 day before, remind on time). Текст в двойных кавычках не разбирается. С dryRun=true только показывает результат разбора.',
+				inputSchema: {
+					text: z.string().min(1).describe("Строка быстрого ввода"),
+					projectId: z
+						.string()
+						.optional()
+						.describe("ID проекта, если в строке не указан ^Проект"),
+					timeZone: z
+						.string()
+						.optional()
+						.describe(
+							"Временная зона для дат и времени (по умолчанию зона сервера)"
+						),
+					dryRun: z
+						.boolean()
+						.default(false)
+						.describe("Только разобрать строку, не создавая задачу"),
+				},
+				annotations: MUTATING_TOOL,
+			},
+			async ({ account, text, projectId, timeZone, dryRun }, extra) => {
+				try {
+					const zone = timeZone || this.defaultTimeZone;
+					if (!validateTimeZone(zone)) {
+						throw new TickTickValidationError(
+							`Невалидная временная зона: ${zone}`,
+							{ field: "timeZone", value: zone }
+						);
+					}
+
+					const client = this.getClient(account, extra.authInfo);
+					const projects = this.filterAllowedProjects(
+						await client.getProjects(),
+						(project) => project.id,
+						extra.authInfo
+					);
+					const parsed = parseQuickAdd(text, { projects, timeZone: zone });
+
+					const {
+						tokens,
+						projectName,
+						projectId: parsedProjectId,
+						...fields
+					} = parsed;
+					const targetProjectId = parsedProjectId || projectId;
+					if (!targetProjectId) {
+						throw new TickTickValidationError(
+							"Укажите проект в строке (^Название) или через projectId",
+							{ field: "projectId" }
+						);
+					}
+
+					const request: CreateTaskRequest = {
+						...fields,
+						projectId: targetProjectId,
+						tags: fields.tags.length ? fields.tags : undefined,
+						reminders: fields.reminders.length ? fields.reminders : undefined,
+					};
+
+					if (dryRun) {
+						const responseData: QuickAddResponseData = {
+							dryRun,
+							parsed,
+							request,
+						};
+						return this.createSuccessResponse(
+							responseData,
+							`Разбор строки: задача "${parsed.title}" (задача не создана)`
+						);
+					}
+
+					// createTask нормализует поля запроса на месте
+					const task = await client.createTask({ ...request });
+					const responseData: QuickAddResponseData = {
+						dryRun,
+						parsed,
+						request,
+						task,
+					};
 
 					return this.createSuccessResponse(
 						responseData,
 						`Задача "${task.title}" успешно создана с ID: ${task.id}`
 					);
 				} catch (error) {
-					this.logger.error("Failed to create task", error);
+					this.logger.error("Failed to quick add task", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при быстром создании задачи: ${error}`
+					);
+				}
+			}
+		);
+
+		// Инструмент для обновления задачи
+		this.registerTool(
+			server,
+			"update_task",
+			{
+				title: "Обновить задачу",
+				description:
+					"Обновить существующую задачу. Изменяются только переданные поля, остальные (включая подзадачи и напоминания) сохраняются. Поддерживает очистку полей (unset), добавление, изменение и удаление отдельных подзадач и напоминаний. Возвращает список изменений до/после.",
+				inputSchema: updateTaskInputSchema,
+				annotations: MUTATING_TOOL,
+			},
+			async ({ account, ...params }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const { after, changes } = await client.patchTask(
+						params.projectId,
+						params.taskId,
+						toTaskPatch(params),
+						{ dateOrder: params.dateOrder }
+					);
+
+					const responseData: PatchTaskResponseData = {
+						task: after,
+						changes,
+					};
+
+					return this.createSuccessResponse(
+						responseData,
+						`Задача "${after.title}" успешно обновлена (изменено полей: ${changes.length})`
+					);
+				} catch (error) {
+					this.logger.error("Failed to update task", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при обновлении задачи: ${error}`
+					);
+				}
+			}
+		);
+
+		// Инструмент для завершения задачи
+		this.registerTool(
+			server,
+			"complete_task",
+			{
+				title: "Завершить задачу",
+				description: "Отметить задачу как выполненную",
+				inputSchema: {
+					projectId: z.string().describe("ID проекта"),
+					taskId: z.string().describe("ID задачи"),
+				},
+				annotations: MUTATING_TOOL,
+			},
+			async ({ projectId, taskId, account }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					await client.completeTask(projectId, taskId);
+
+					const responseData: OperationResponseData = {
+						success: true,
+						operationType: "complete_task",
+						targetId: taskId,
+						details: `Задача с ID ${taskId} в проекте ${projectId}`,
+					};
+
+					return this.createSuccessResponse(
+						responseData,
+						`Задача с ID ${taskId} успешно завершена`
+					);
+				} catch (error) {
+					this.logger.error("Failed to complete task", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при завершении задачи: ${error}`
+					);
+				}
+			}
+		);
+
+		// Инструмент для удаления задачи
+		this.registerTool(
+			server,
+			"delete_task",
+			{
+				title: "Удалить задачу",
+				description: "Удалить задачу из TickTick",
+				inputSchema: {
+					projectId: z.string().describe("ID проекта"),
+					taskId: z.string().describe("ID задачи"),
+				},
+				annotations: DESTRUCTIVE_TOOL,
+				preview: (client, { projectId, taskId }) =>
+					this.previewTaskDeletion(client, [{ projectId, taskId }]),
+			},
+			async ({ projectId, taskId, account }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					await client.deleteTask(projectId, taskId);
+
+					const responseData: OperationResponseData = {
+						success: true,
+						operationType: "delete_task",
+						targetId: taskId,
+						details: `Задача с ID ${taskId} в проекте ${projectId}`,
+					};
+
+					return this.createSuccessResponse(
+						responseData,
+						`Задача с ID ${taskId} успешно удалена`
+					);
+				} catch (error) {
+					this.logger.error("Failed to delete task", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при удалении задачи: ${error}`
+					);
+				}
+			}
+		);
+
+		// Пакетные операции над задачами
+		this.registerTool(
+			server,
+			"batch_create_tasks",
+			{
+				title: "Создать задачи пакетом",
+				description:
+					"Создать несколько задач за один вызов. Ошибка одной задачи не прерывает остальные, для каждой возвращается результат.",
+				inputSchema: {
+					tasks: z
+						.array(z.object(createTaskInputSchema))
+						.min(1)
+						.max(MAX_BATCH_SIZE)
+						.describe("Задачи для создания (параметры как в create_task)"),
+				},
+				annotations: MUTATING_TOOL,
+			},
+			async ({ account, tasks }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const responseData = await this.runTaskBatch(
+						client,
+						"create_tasks",
+						tasks,
+						(task) =>
+							client.createTask(toCreateTaskRequest(task), {
+								dateOrder: task.dateOrder,
+							})
+					);
+
+					return this.createBatchResponse(responseData, "Создано задач");
+				} catch (error) {
+					this.logger.error("Failed to create tasks", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при пакетном создании задач: ${error}`
+					);
+				}
+			}
+		);
+
+		this.registerTool(
+			server,
+			"batch_update_tasks",
+			{
+				title: "Обновить задачи пакетом",
+				description:
+					"Обновить несколько задач за один вызов. Ошибка одной задачи не прерывает остальные, для каждой возвращается результат.",
+				inputSchema: {
+					tasks: z
+						.array(z.object(updateTaskInputSchema))
+						.min(1)
+						.max(MAX_BATCH_SIZE)
+						.describe("Задачи для обновления (параметры как в update_task)"),
+				},
+				annotations: MUTATING_TOOL,
+			},
+			async ({ account, tasks }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const responseData = await this.runTaskBatch(
+						client,
+						"update_tasks",
+						tasks,
+						async (task) =>
+							(
+								await client.patchTask(
+									task.projectId,
+									task.taskId,
+									toTaskPatch(task),
+									{ dateOrder: task.dateOrder }
+								)
+							).after
+					);
+
+					return this.createBatchResponse(responseData, "Обновлено задач");
+				} catch (error) {
+					this.logger.error("Failed to update tasks", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при пакетном обновлении задач: ${error}`
+					);
+				}
+			}
+		);
+
+		this.registerTool(
+			server,
+			"batch_complete_tasks",
+			{
+				title: "Завершить задачи пакетом",
+				description:
+					"Отметить несколько задач как выполненные за один вызов. Ошибка одной задачи не прерывает остальные.",
+				inputSchema: {
+					tasks: z
+						.array(z.object(taskRefInputSchema))
+						.min(1)
+						.max(MAX_BATCH_SIZE)
+						.describe("Задачи для завершения"),
+				},
+				annotations: MUTATING_TOOL,
+			},
+			async ({ account, tasks }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const responseData = await this.runTaskBatch(
+						client,
+						"complete_tasks",
+						tasks,
+						(task) => client.completeTask(task.projectId, task.taskId)
+					);
+
+					return this.createBatchResponse(responseData, "Завершено задач");
+				} catch (error) {
+					this.logger.error("Failed to complete tasks", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при пакетном завершении задач: ${error}`
+					);
+				}
+			}
+		);
+
+		this.registerTool(
+			server,
+			"batch_delete_tasks",
+			{
+				title: "Удалить задачи пакетом",
+				description:
+					"Удалить несколько задач за один вызов. Ошибка одной задачи не прерывает остальные.",
+				inputSchema: {
+					tasks: z
+						.array(z.object(taskRefInputSchema))
+						.min(1)
+						.max(MAX_BATCH_SIZE)
+						.describe("Задачи для удаления"),
+				},
+				annotations: DESTRUCTIVE_TOOL,
+				preview: (client, { tasks }) => this.previewTaskDeletion(client, tasks),
+			},
+			async ({ account, tasks }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const responseData = await this.runTaskBatch(
+						client,
+						"delete_tasks",
+						tasks,
+						(task) => client.deleteTask(task.projectId, task.taskId)
+					);
+
+					return this.createBatchResponse(responseData, "Удалено задач");
+				} catch (error) {
+					this.logger.error("Failed to delete tasks", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при пакетном удалении задач: ${error}`
+					);
+				}
+			}
+		);
+
+		// Инструмент для перемещения задач между проектами
+		this.registerTool(
+			server,
+			"move_task",
+			{
+				title: "Переместить задачу",
+				description:
+					"Переместить одну или несколько задач в другой проект с сохранением названия, описания, дат, напоминаний, повторения, приоритета и подзадач. Если API не поддерживает перемещение, задача пересоздается в целевом проекте и получает новый ID.",
+				inputSchema: {
+					targetProjectId: z.string().describe("ID целевого проекта"),
+					projectId: z
+						.string()
+						.optional()
+						.describe("ID текущего проекта задачи (для одной задачи)"),
+					taskId: z
+						.string()
+						.optional()
+						.describe("ID задачи (для одной задачи)"),
+					tasks: z
+						.array(
+							z.object({
+								projectId: z.string().describe("ID текущего проекта задачи"),
+								taskId: z.string().describe("ID задачи"),
+							})
+						)
+						.optional()
+						.describe("Задачи для пакетного перемещения"),
+				},
+				annotations: DESTRUCTIVE_TOOL,
+				preview: (client, { targetProjectId, ...refs }) =>
+					this.previewTaskMove(client, this.toMoveRefs(refs), targetProjectId),
+			},
+			async ({ targetProjectId, projectId, taskId, tasks, account }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const moves = this.toMoveRefs({ projectId, taskId, tasks });
+
+					// Задачи перемещаются последовательно, ошибка одной не прерывает остальные
+					const results: MoveTaskItemResult[] = [];
+					for (const move of moves) {
+						try {
+							const result = await client.moveTask(
+								move.projectId,
+								move.taskId,
+								targetProjectId
+							);
+							results.push({
+								...move,
+								success: true,
+								newTaskId: result.newTaskId,
+								method: result.method,
+								warning: result.warning,
+							});
+						} catch (error) {
+							this.logger.warn(
+								`Failed to move task ${move.taskId} to project ${targetProjectId}`,
+								error
+							);
+							results.push({
+								...move,
+								success: false,
+								error: error instanceof Error ? error.message : String(error),
+								code:
+									error instanceof TickTickApiError ? error.code : undefined,
+							});
+						}
+					}
+
+					const moved = results.filter((result) => result.success).length;
+					const responseData: MoveTasksResponseData = {
+						targetProjectId,
+						moved,
+						failed: results.length - moved,
+						results,
+					};
+
+					if (moved === 0) {
+						return this.createErrorResponse(
+							new TickTickApiError(
+								results[0].error || "Не удалось переместить задачи",
+								undefined,
+								results[0].code,
+								responseData
+							),
+							`Не удалось переместить ни одной задачи в проект ${targetProjectId}`
+						);
+					}
+
+					return this.createSuccessResponse(
+						responseData,
+						`Перемещено ${moved} из ${results.length} задач в проект ${targetProjectId}`
+					);
+				} catch (error) {
+					this.logger.error("Failed to move tasks", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при перемещении задач: ${error}`
+					);
+				}
+			}
+		);
+
+		// Инструмент для создания проекта
+		this.registerTool(
+			server,
+			"create_project",
+			{
+				title: "Создать проект",
+				description: "Создать новый проект в TickTick",
+				inputSchema: {
+					name: z.string().describe("Название проекта"),
+					color: z
+						.string()
+						.optional()
+						.describe("Цвет проекта (например, #FF0000)"),
+					viewMode: z
+						.enum(["list", "kanban", "timeline"])
+						.optional()
+						.describe("Режим отображения проекта"),
+					sortOrder: z
+						.number()
+						.optional()
+						.describe("Порядок сортировки проекта"),
+					kind: z
+						.enum(["TASK", "NOTE"])
+						.optional()
+						.default("TASK")
+						.describe("Тип проекта (TASK или NOTE)"),
+				},
+				annotations: MUTATING_TOOL,
+			},
+			async ({ name, color, viewMode, sortOrder, kind, account }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const project = await client.createProject({
+						name,
+						color,
+						viewMode,
+						sortOrder,
+						kind,
+					});
+
+					const responseData: CreateProjectResponseData = {
+						project: project,
+					};
+
+					return this.createSuccessResponse(
+						responseData,
+						`Проект "${project.name}" успешно создан с ID: ${project.id}`
+					);
+				} catch (error) {
+					this.logger.error("Failed to create project", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при создании проекта: ${error}`
+					);
+				}
+			}
+		);
+
+		// Инструмент для обновления проекта
+		this.registerTool(
+			server,
+			"update_project",
+			{
+				title: "Обновить проект",
+				description: "Обновить существующий проект в TickTick",
+				inputSchema: {
+					projectId: z.string().describe("ID проекта"),
+					name: z.string().optional().describe("Новое название проекта"),
+					color: z
+						.string()
+						.optional()
+						.describe("Новый цвет проекта (например, #FF0000)"),
+					viewMode: z
+						.enum(["list", "kanban", "timeline"])
+						.optional()
+						.describe("Новый режим отображения проекта"),
+					sortOrder: z
+						.number()
+						.optional()
+						.describe("Новый порядок сортировки проекта"),
+					kind: z
+						.enum(["TASK", "NOTE"])
+						.optional()
+						.describe("Новый тип проекта (TASK или NOTE)"),
+				},
+				annotations: MUTATING_TOOL,
+			},
+			async (
+				{ projectId, name, color, viewMode, sortOrder, kind, account },
+				extra
+			) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const project = await client.updateProject(projectId, {
+						name,
+						color,
+						viewMode,
+						sortOrder,
+						kind,
+					});
+
+					const responseData: CreateProjectResponseData = {
+						project: project,
+					};
+
+					return this.createSuccessResponse(
+						responseData,
+						`Проект "${project.name}" успешно обновлен`
+					);
+				} catch (error) {
+					this.logger.error("Failed to update project", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при обновлении проекта: ${error}`
+					);
+				}
+			}
+		);
+
+		// Инструмент для удаления проекта
+		this.registerTool(
+			server,
+			"delete_project",
+			{
+				title: "Удалить проект",
+				description: "Удалить проект из TickTick",
+				inputSchema: {
+					projectId: z.string().describe("ID проекта"),
+				},
+				annotations: DESTRUCTIVE_TOOL,
+				preview: (client, { projectId }) =>
+					this.previewProjectDeletion(client, projectId),
+			},
+			async ({ projectId, account }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					await client.deleteProject(projectId);
+
+					const responseData: OperationResponseData = {
+						success: true,
+						operationType: "delete_project",
+						targetId: projectId,
+						details: `Проект с ID ${projectId}`,
+					};
+
+					return this.createSuccessResponse(
+						responseData,
+						`Проект с ID ${projectId} успешно удален`
+					);
+				} catch (error) {
+					this.logger.error("Failed to delete project", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при удалении проекта: ${error}`
+					);
+				}
+			}
+		);
+
+		// Инструмент для получения всех проектов с задачами
+		this.registerTool(
+			server,
+			"get_all_projects_with_tasks",
+			{
+				title: "Получить все проекты с задачами",
+				description:
+					"Получить все проекты пользователя вместе со всеми задачами в каждом проекте",
+				inputSchema: {},
+				annotations: READ_ONLY_TOOL,
+			},
+			async ({ account }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const { projectsData, failedProjects } =
+						await client.getAllProjectsWithTasks();
+					const projectsWithData = this.filterAllowedProjects(
+						projectsData,
+						(projectData) => projectData.project.id,
+						extra.authInfo
+					);
+					const allowedFailedProjects = this.filterAllowedProjects(
+						failedProjects,
+						(failedProject) => failedProject.projectId,
+						extra.authInfo
+					);
+
+					let totalTasks = 0;
+					for (const projectData of projectsWithData) {
+						totalTasks += projectData.tasks.length;
+					}
+
+					const responseData: AllProjectsWithTasksResponseData = {
+						totalProjects: projectsWithData.length,
+						totalTasks: totalTasks,
+						projectsWithTasks: projectsWithData,
+						failedProjects: allowedFailedProjects,
+					};
+
+					return this.createSuccessResponse(
+						responseData,
+						`Получено ${
+							projectsWithData.length
+						} проектов с ${totalTasks} задачами${this.formatFailedProjects(
+							allowedFailedProjects
+						)}`
+					);
+				} catch (error) {
+					this.logger.error("Failed to get all projects with tasks", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при получении всех проектов с задачами: ${error}`
+					);
+				}
+			}
+		);
+
+		// Инструмент для поиска задач по всем проектам
+		this.registerTool(
+			server,
+			"search_tasks",
+			{
+				title: "Поиск задач",
+				description:
+					"Найти задачи во всех (или выбранных) проектах по тексту, приоритету, статусу, датам, напоминаниям, повторению и подзадачам. Возвращает только подходящие задачи.",
+				inputSchema: {
+					query: z
+						.string()
+						.optional()
+						.describe(
+							"Текст для поиска в названии, описании и подзадачах (все слова должны встречаться)"
+						),
+					projectIds: z
+						.array(z.string())
+						.optional()
+						.describe("ID проектов для поиска (по умолчанию - все проекты)"),
+					priorities: z
+						.array(z.enum(["none", "low", "medium", "high"]))
+						.optional()
+						.describe("Допустимые приоритеты"),
+					status: z
+						.enum(["open", "completed", "all"])
+						.optional()
+						.default("open")
+						.describe("Статус задач"),
+					dueFrom: z
+						.string()
+						.optional()
+						.describe("Срок выполнения не раньше (дата или дата и время)"),
+					dueTo: z
+						.string()
+						.optional()
+						.describe(
+							"Срок выполнения не позже (дата без времени включает весь день)"
+						),
+					startFrom: z.string().optional().describe("Дата начала не раньше"),
+					startTo: z.string().optional().describe("Дата начала не позже"),
+					hasDueDate: z
+						.boolean()
+						.optional()
+						.describe("Только задачи со сроком (true) или без срока (false)"),
+					hasReminder: z
+						.boolean()
+						.optional()
+						.describe(
+							"Только задачи с напоминаниями (true) или без них (false)"
+						),
+					isRecurring: z
+						.boolean()
+						.optional()
+						.describe("Только повторяющиеся (true) или разовые (false) задачи"),
+					checklist: z
+						.enum(["none", "any", "incomplete", "completed"])
+						.optional()
+						.describe(
+							"Фильтр по подзадачам: none - без подзадач, any - с подзадачами, incomplete - есть незавершенные, completed - все завершены"
+						),
+					sortBy: z
+						.enum(["dueDate", "startDate", "priority", "title", "sortOrder"])
+						.optional()
+						.describe("Поле сортировки"),
+					sortDirection: z
+						.enum(["asc", "desc"])
+						.optional()
+						.default("asc")
+						.describe("Направление сортировки"),
+					limit: z
+						.number()
+						.int()
+						.min(1)
+						.max(500)
+						.optional()
+						.default(50)
+						.describe("Максимальное количество задач в ответе"),
+					offset: z
+						.number()
+						.int()
+						.min(0)
+						.optional()
+						.default(0)
+						.describe("Смещение для постраничного вывода"),
+				},
+				annotations: READ_ONLY_TOOL,
+			},
+			async ({ account, ...params }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const matchesFilter = createTaskFilter(
+						params,
+						client.getDateOptions()
+					);
+
+					let projects = this.filterAllowedProjects(
+						await client.getProjects(),
+						(project) => project.id,
+						extra.authInfo
+					);
+					if (params.projectIds?.length) {
+						projects = projects.filter((project) =>
+							params.projectIds!.includes(project.id)
+						);
+					}
+
+					const { projectsData, failedProjects } =
+						await client.getProjectsWithData(projects);
+					const tasks = projectsData.flatMap(
+						(projectData) => projectData.tasks || []
+					);
+
+					let matchedTasks = tasks.filter(matchesFilter);
+					if (params.sortBy) {
+						matchedTasks = sortTasks(
+							matchedTasks,
+							params.sortBy,
+							params.sortDirection
+						);
+					}
+
+					const page = matchedTasks.slice(
+						params.offset,
+						params.offset + params.limit
+					);
+
+					const responseData: SearchTasksResponseData = {
+						total: matchedTasks.length,
+						offset: params.offset,
+						limit: params.limit,
+						count: page.length,
+						tasks: page,
+						failedProjects,
+					};
+
+					return this.createSuccessResponse(
+						responseData,
+						`Найдено ${matchedTasks.length} задач в ${
+							projectsData.length
+						} проектах, показано ${page.length}${this.formatFailedProjects(
+							failedProjects
+						)}`
+					);
+				} catch (error) {
+					this.logger.error("Failed to search tasks", error);
 					return this.createErrorResponse(
 						error,
-						`Ошибка при создании задачи: ${error}`
+						`Ошибка при поиске задач: ${error}`
 					);
 				}
 			}
 		);
 
-		// Инструмент для обновления задачи
-		this.server.registerTool(
-			"update_task",
+		this.registerTool(
+			server,
+			"agenda",
 			{
-				title: "Обновить задачу",
-				description: "Обновить существующую задачу",
+				title: "План задач",
+				description:
+					"Открытые задачи, сгруппированные по срокам: overdue (просроченные), today, tomorrow, thisWeek (до конца недели), later и noDate. День задачи определяется по ее временной зоне; повторяющиеся задачи добавляются будущими вхождениями на этой неделе (projected=true).",
 				inputSchema: {
-					taskId: z.string().describe("ID задачи"),
-					projectId: z.string().describe("ID проекта"),
-					title: z.string().optional().describe("Новое название задачи"),
-					content: z.string().optional().describe("Новое описание задачи"),
-					desc: z.string().optional().describe("Новое дополнительное описание"),
-					isAllDay: z.boolean().optional().describe("Задача на весь день"),
-					startDate: z
+					projectIds: z
+						.array(z.string())
+						.optional()
+						.describe("ID проектов (по умолчанию - все проекты)"),
+					timeZone: z
 						.string()
 						.optional()
 						.describe(
-							"Новая дата начала (ISO 8601, локальная дата или timestamp)"
+							"Временная зона для всех задач (по умолчанию - зона задачи, а без нее TICKTICK_TIMEZONE)"
+						),
+					weekStart: z
+						.enum(["monday", "sunday"])
+						.optional()
+						.default("monday")
+						.describe("Первый день недели для группы thisWeek"),
+					includeRecurring: z
+						.boolean()
+						.optional()
+						.default(true)
+						.describe(
+							"Добавлять будущие вхождения повторяющихся задач на этой неделе"
 						),
-					dueDate: z
+					limit: z
+						.number()
+						.int()
+						.min(1)
+						.max(500)
+						.optional()
+						.default(50)
+						.describe("Максимальное количество задач в каждой группе"),
+				},
+				annotations: READ_ONLY_TOOL,
+			},
+			async (
+				{ account, projectIds, timeZone, weekStart, includeRecurring, limit },
+				extra
+			) => {
+				try {
+					if (timeZone && !validateTimeZone(timeZone)) {
+						throw new TickTickValidationError(
+							`Невалидная временная зона: ${timeZone}`,
+							{ field: "timeZone", value: timeZone }
+						);
+					}
+
+					const client = this.getClient(account, extra.authInfo);
+					const defaultTimeZone =
+						client.getDateOptions().defaultTimeZone || this.defaultTimeZone;
+
+					let projects = this.filterAllowedProjects(
+						await client.getProjects(),
+						(project) => project.id,
+						extra.authInfo
+					);
+					if (projectIds?.length) {
+						projects = projects.filter((project) =>
+							projectIds.includes(project.id)
+						);
+					}
+
+					const { projectsData, failedProjects } =
+						await client.getProjectsWithData(projects);
+					const agenda = buildAgenda(
+						projectsData.flatMap((projectData) => projectData.tasks || []),
+						{ defaultTimeZone, timeZone, weekStart, includeRecurring }
+					);
+
+					const responseData: AgendaResponseData = {
+						timeZone: timeZone || defaultTimeZone,
+						weekStart,
+						counts: Object.fromEntries(
+							AGENDA_BUCKETS.map((bucket) => [bucket, agenda[bucket].length])
+						) as AgendaResponseData["counts"],
+						buckets: Object.fromEntries(
+							AGENDA_BUCKETS.map((bucket) => [
+								bucket,
+								agenda[bucket].slice(0, limit),
+							])
+						) as AgendaResponseData["buckets"],
+						failedProjects,
+					};
+
+					const { counts } = responseData;
+					return this.createSuccessResponse(
+						responseData,
+						`Просрочено: ${counts.overdue}, сегодня: ${counts.today}, завтра: ${
+							counts.tomorrow
+						}, до конца недели: ${counts.thisWeek}, позже: ${
+							counts.later
+						}, без даты: ${counts.noDate}${this.formatFailedProjects(
+							failedProjects
+						)}`
+					);
+				} catch (error) {
+					this.logger.error("Failed to build agenda", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при получении плана задач: ${error}`
+					);
+				}
+			}
+		);
+
+		this.registerTool(
+			server,
+			"get_completed_tasks",
+			{
+				title: "Завершенные задачи",
+				description:
+					"Задачи, завершенные через этот сервер, из журнала завершений (сначала последние), со снимком задачи на момент завершения. Подходит для обзора сделанного за день или неделю. Требует настроенного журнала (TICKTICK_COMPLETION_LOG).",
+				inputSchema: {
+					from: z
 						.string()
 						.optional()
 						.describe(
-							"Новый срок выполнения (ISO 8601, локальная дата или timestamp)"
+							"Завершены не раньше (дата, дата и время или относительная дата: 'last monday', '7 days ago')"
 						),
-					timeZone: z
+					to: z
 						.string()
 						.optional()
-						.describe("Новая временная зона (например, America/Los_Angeles)"),
-					reminders: z
+						.describe(
+							"Завершены не позже (дата без времени включает весь день)"
+						),
+					projectIds: z
 						.array(z.string())
 						.optional()
-						.describe("Новые напоминания (например, ['TRIGGER:P0DT9H0M0S'])"),
-					repeatFlag: z
+						.describe("ID проектов (по умолчанию - все проекты)"),
+					limit: z
+						.number()
+						.int()
+						.min(1)
+						.max(500)
+						.optional()
+						.default(50)
+						.describe("Максимальное количество записей в ответе"),
+					offset: z
+						.number()
+						.int()
+						.min(0)
+						.optional()
+						.default(0)
+						.describe("Смещение для постраничного вывода"),
+				},
+				annotations: READ_ONLY_TOOL,
+			},
+			async ({ account, from, to, projectIds, limit, offset }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const records = this.filterAllowedProjects(
+						await client.getCompletedTasks({ from, to, projectIds }),
+						(record) => record.projectId,
+						extra.authInfo
+					);
+					const page = records.slice(offset, offset + limit);
+
+					const responseData: CompletedTasksResponseData = {
+						total: records.length,
+						offset,
+						limit,
+						count: page.length,
+						records: page,
+					};
+
+					return this.createSuccessResponse(
+						responseData,
+						`Найдено завершенных задач: ${records.length}, показано ${page.length}`
+					);
+				} catch (error) {
+					this.logger.error("Failed to get completed tasks", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при получении завершенных задач: ${error}`
+					);
+				}
+			}
+		);
+
+		// Инструмент для сброса кэша
+		this.registerTool(
+			server,
+			"refresh",
+			{
+				title: "Обновить данные",
+				description:
+					"Сбросить локальный кэш ответов TickTick, чтобы следующие запросы получили свежие данные (например, после изменений в приложении TickTick)",
+				inputSchema: {
+					projectId: z
 						.string()
 						.optional()
+						.describe("ID проекта (по умолчанию - сбросить весь кэш)"),
+				},
+				annotations: READ_ONLY_TOOL,
+			},
+			async ({ account, projectId }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					client.clearCache(projectId);
+
+					const responseData: RefreshResponseData = {
+						projectId,
+						cache: client.getCacheStats(),
+					};
+
+					return this.createSuccessResponse(
+						responseData,
+						projectId ? `Кэш проекта ${projectId} сброшен` : "Кэш сброшен"
+					);
+				} catch (error) {
+					this.logger.error("Failed to refresh cache", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при сбросе кэша: ${error}`
+					);
+				}
+			}
+		);
+
+		this.setupChecklistTools(server);
+		this.setupReminderTools(server);
+		this.setupUndoTools(server);
+	}
+
+	/**
+	 * Инструменты для работы с отдельными подзадачами (checklist items).
+	 * Все изменения выполняются через patch задачи, остальные подзадачи не теряются.
+	 */
+	private setupChecklistTools(server: McpServer) {
+		this.registerTool(
+			server,
+			"add_checklist_item",
+			{
+				title: "Добавить подзадачу",
+				description: "Добавить подзадачу (пункт чек-листа) в задачу",
+				inputSchema: {
+					...taskRefInputSchema,
+					...newChecklistItemInputSchema,
+					...dateOrderInputSchema,
+				},
+				annotations: MUTATING_TOOL,
+			},
+			async ({ account, projectId, taskId, dateOrder, ...item }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const { before, after, changes } = await client.patchTask(
+						projectId,
+						taskId,
+						{ addItems: [item] },
+						{ dateOrder }
+					);
+
+					const beforeIds = new Set((before.items || []).map((i) => i.id));
+					const responseData: ChecklistItemResponseData = {
+						task: after,
+						item: after.items?.find((i) => !beforeIds.has(i.id)),
+						changes,
+					};
+
+					return this.createSuccessResponse(
+						responseData,
+						`Подзадача "${item.title}" добавлена в задачу "${after.title}"`
+					);
+				} catch (error) {
+					this.logger.error("Failed to add checklist item", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при добавлении подзадачи: ${error}`
+					);
+				}
+			}
+		);
+
+		this.registerTool(
+			server,
+			"update_checklist_item",
+			{
+				title: "Обновить подзадачу",
+				description:
+					"Изменить название, дату или другие поля подзадачи по ID. Остальные подзадачи не меняются.",
+				inputSchema: {
+					...checklistItemRefInputSchema,
+					title: z.string().optional().describe("Новое название подзадачи"),
+					isAllDay: z.boolean().optional().describe("Подзадача на весь день"),
+					startDate: z
+						.union([z.string(), z.number()])
+						.optional()
 						.describe(
-							"Новое правило повторения (например, 'RRULE:FREQ=DAILY;INTERVAL=1')"
+							"Новая дата начала подзадачи (строка, timestamp или относительная дата)"
 						),
-					priority: z
-						.enum(["none", "low", "medium", "high"])
+					timeZone: z.string().optional().describe("Временная зона подзадачи"),
+					sortOrder: z
+						.number()
+						.optional()
+						.describe("Новый порядок сортировки подзадачи"),
+					...dateOrderInputSchema,
+				},
+				annotations: MUTATING_TOOL,
+			},
+			async (
+				{ account, projectId, taskId, itemId, dateOrder, ...fields },
+				extra
+			) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const { after, changes } = await client.patchTask(
+						projectId,
+						taskId,
+						{ updateItems: [{ id: itemId, ...fields }] },
+						{ dateOrder }
+					);
+
+					const responseData: ChecklistItemResponseData = {
+						task: after,
+						item: after.items?.find((i) => i.id === itemId),
+						changes,
+					};
+
+					return this.createSuccessResponse(
+						responseData,
+						`Подзадача ${itemId} обновлена`
+					);
+				} catch (error) {
+					this.logger.error("Failed to update checklist item", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при обновлении подзадачи: ${error}`
+					);
+				}
+			}
+		);
+
+		this.registerTool(
+			server,
+			"complete_checklist_item",
+			{
+				title: "Завершить подзадачу",
+				description:
+					"Отметить подзадачу выполненной или снять отметку (completed: false)",
+				inputSchema: {
+					...checklistItemRefInputSchema,
+					completed: z
+						.boolean()
+						.optional()
+						.default(true)
+						.describe("true - выполнена, false - снять отметку"),
+				},
+				annotations: MUTATING_TOOL,
+			},
+			async ({ account, projectId, taskId, itemId, completed }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const { after, changes } = await client.patchTask(projectId, taskId, {
+						updateItems: [{ id: itemId, status: completed ? 1 : 0 }],
+					});
+
+					const responseData: ChecklistItemResponseData = {
+						task: after,
+						item: after.items?.find((i) => i.id === itemId),
+						changes,
+					};
+
+					return this.createSuccessResponse(
+						responseData,
+						completed
+							? `Подзадача ${itemId} отмечена выполненной`
+							: `С подзадачи ${itemId} снята отметка о выполнении`
+					);
+				} catch (error) {
+					this.logger.error("Failed to complete checklist item", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при изменении статуса подзадачи: ${error}`
+					);
+				}
+			}
+		);
+
+		this.registerTool(
+			server,
+			"remove_checklist_item",
+			{
+				title: "Удалить подзадачу",
+				description: "Удалить подзадачу из задачи по ID",
+				inputSchema: checklistItemRefInputSchema,
+				annotations: MUTATING_TOOL,
+			},
+			async ({ account, projectId, taskId, itemId }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const { before, after, changes } = await client.patchTask(
+						projectId,
+						taskId,
+						{ removeItemIds: [itemId] }
+					);
+
+					const responseData: ChecklistItemResponseData = {
+						task: after,
+						item: before.items?.find((i) => i.id === itemId),
+						changes,
+					};
+
+					return this.createSuccessResponse(
+						responseData,
+						`Подзадача ${itemId} удалена`
+					);
+				} catch (error) {
+					this.logger.error("Failed to remove checklist item", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при удалении подзадачи: ${error}`
+					);
+				}
+			}
+		);
+
+		this.registerTool(
+			server,
+			"reorder_checklist_items",
+			{
+				title: "Изменить порядок подзадач",
+				description:
+					"Расставить подзадачи в указанном порядке. Подзадачи, не указанные в списке, идут следом в прежнем порядке.",
+				inputSchema: {
+					...taskRefInputSchema,
+					itemIds: z
+						.array(z.string())
+						.min(1)
+						.describe("ID подзадач в новом порядке"),
+				},
+				annotations: MUTATING_TOOL,
+			},
+			async ({ account, projectId, taskId, itemIds }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const { after, changes } = await client.patchTask(projectId, taskId, {
+						reorderItemIds: itemIds,
+					});
+
+					const responseData: ChecklistItemResponseData = {
+						task: after,
+						changes,
+					};
+
+					return this.createSuccessResponse(
+						responseData,
+						`Порядок подзадач задачи "${after.title}" изменен`
+					);
+				} catch (error) {
+					this.logger.error("Failed to reorder checklist items", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при изменении порядка подзадач: ${error}`
+					);
+				}
+			}
+		);
+
+		this.registerTool(
+			server,
+			"promote_checklist_items",
+			{
+				title: "Преобразовать подзадачи в задачи",
+				description:
+					"Создать из подзадач отдельные задачи (в том же или другом проекте) и удалить эти подзадачи из исходной задачи. Подзадачи, для которых не удалось создать задачу, остаются на месте.",
+				inputSchema: {
+					...taskRefInputSchema,
+					itemIds: z
+						.array(z.string())
+						.min(1)
+						.max(MAX_BATCH_SIZE)
+						.describe("ID подзадач для преобразования"),
+					targetProjectId: z
+						.string()
 						.optional()
-						.describe("Новый приоритет задачи"),
-					sortOrder: z.number().optional().describe("Новый порядок сортировки"),
-					items: z
+						.describe(
+							"ID проекта для новых задач (по умолчанию проект исходной задачи)"
+						),
+					inheritDates: z
+						.boolean()
+						.default(true)
+						.describe(
+							"Взять даты исходной задачи для подзадач без собственной даты"
+						),
+					inheritPriority: z
+						.boolean()
+						.default(true)
+						.describe("Взять приоритет исходной задачи"),
+				},
+				annotations: MUTATING_TOOL,
+			},
+			async (
+				{
+					account,
+					projectId,
+					taskId,
+					itemIds,
+					targetProjectId,
+					inheritDates,
+					inheritPriority,
+				},
+				extra
+			) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const result = await client.promoteChecklistItems(
+						projectId,
+						taskId,
+						itemIds,
+						{ targetProjectId, inheritDates, inheritPriority }
+					);
+
+					return this.createConversionResponse(
+						{ operation: "promote_checklist_items", ...result },
+						`Преобразовано подзадач в задачи: ${result.converted} из ${result.results.length}`
+					);
+				} catch (error) {
+					this.logger.error("Failed to promote checklist items", error);
+					return this.createErrorResponse(
+						error,
+						`Ошибка при преобразовании подзадач в задачи: ${error}`
+					);
+				}
+			}
+		);
+
+		this.registerTool(
+			server,
+			"fold_tasks_into_checklist",
+			{
+				title: "Объединить задачи в чек-лист",
+				description:
+					"Добавить задачи подзадачами в чек-лист целевой задачи, затем завершить или удалить исходные задачи. Переносятся название, статус и дата; описание и подзадачи исходных задач не переносятся.",
+				inputSchema: {
+					...taskRefInputSchema,
+					tasks: z
 						.array(
 							z.object({
-								id: z
-									.string()
-									.describe("ID подзадачи (обязательно для обновления)"),
-								title: z.string().describe("Название подзадачи"),
-								status: z
-									.number()
-									.default(0)
-									.describe("Статус подзадачи (0=Normal, 1=Completed)"),
-								isAllDay: z
-									.boolean()
-									.optional()
-									.describe("Подзадача на весь день"),
-								startDate: z
-									.union([z.string(), z.number()])
-									.optional()
-									.describe("Дата начала подзадачи (строка или timestamp)"),
-								timeZone: z
-									.string()
-									.optional()
-									.describe("Временная зона подзадачи"),
-								sortOrder: z
-									.number()
-									.optional()
-									.describe("Порядок сортировки подзадачи"),
+								projectId: z.string().describe("ID проекта задачи"),
+								taskId: z.string().describe("ID задачи"),
 							})
 						)
-						.optional()
-						.describe("Подзадачи"),
+						.min(1)
+						.max(MAX_BATCH_SIZE)
+						.describe("Задачи, которые станут подзадачами"),
+					sourceAction: z
+						.enum(["complete", "delete"])
+						.default("complete")
+						.describe(
+							"Что сделать с исходными задачами: complete - завершить, delete - удалить"
+						),
 				},
+				annotations: DESTRUCTIVE_TOOL,
+				preview: (client, { projectId, taskId, tasks, sourceAction }) =>
+					this.previewChecklistFold(
+						client,
+						{ projectId, taskId },
+						tasks,
+						sourceAction
+					),
 			},
-			async ({
-				taskId,
-				projectId,
-				title,
-				content,
-				desc,
-				isAllDay,
-				startDate,
-				dueDate,
-				timeZone,
-				reminders,
-				repeatFlag,
-				priority,
-				sortOrder,
-				items,
-			}) => {
-				try {
-					const task = await this.tickTickClient.updateTask(taskId, {
-						id: taskId,
+			async ({ account, projectId, taskId, tasks, sourceAction }, extra) => {
+				try {
+					const client = this.getClient(account, extra.authInfo);
+					const result = await client.foldTasksIntoChecklist(
 						projectId,
-						title,
-						content,
-						desc,
-						isAllDay,
-						startDate,
-						dueDate,
-						timeZone,
-						reminders,
-						repeatFlag,
-						priority: priority ? PRIORITY_MAP[priority] : undefined,
-						sortOrder,
-						items,
-					});
-
-					const responseData: TaskResponseData = {
-						task: task,
-					};
+						taskId,
+						tasks,
+						sourceAction
+					);
 
-					return this.createSuccessResponse(
-						responseData,
-						`Задача "${task.title}" успешно обновлена`
+					return this.createConversionResponse(
+						{ operation: "fold_tasks_into_checklist", ...result },
+						`Перенесено задач в чек-лист задачи "${result.task.title}": ${result.converted} из ${result.results.length}`
 					);
 				} catch (error) {
-					this.logger.error("Failed to update task", error);
+					this.logger.error("Failed to fold tasks into checklist", error);
 					return this.createErrorResponse(
 						error,
-						`Ошибка при обновлении задачи: ${error}`
+						`Ошибка при объединении задач в чек-лист: ${error}`
 					);
 				}
 			}
 		);
+	}
 
-		// Инструмент для завершения задачи
-		this.server.registerTool(
-			"complete_task",
+	private toTaskReminder(trigger: string, task: Task): TaskReminder {
+		return {
+			trigger,
+			description: describeReminder(trigger, this.locale, task.isAllDay),
+		};
+	}
+
+	/**
+	 * Инструменты журнала отмены: история изменяющих операций и их откат
+	 */
+	private setupUndoTools(server: McpServer) {
+		this.registerTool(
+			server,
+			"get_undo_history",
 			{
-				title: "Завершить задачу",
-				description: "Отметить задачу как выполненную",
+				title: "История операций",
+				description:
+					"Изменяющие операции из журнала отмены (сначала последние): инструмент, время и затронутые задачи и проекты. ID операции передается в undo_operation. Требует настроенного журнала (TICKTICK_UNDO_JOURNAL).",
 				inputSchema: {
-					projectId: z.string().describe("ID проекта"),
-					taskId: z.string().describe("ID задачи"),
+					includeUndone: z
+						.boolean()
+						.optional()
+						.default(false)
+						.describe("Показывать уже отмененные операции"),
+					limit: z
+						.number()
+						.int()
+						.min(1)
+						.max(100)
+						.optional()
+						.default(20)
+						.describe("Максимальное количество операций в ответе"),
+					offset: z
+						.number()
+						.int()
+						.min(0)
+						.optional()
+						.default(0)
+						.describe("Смещение для постраничного вывода"),
 				},
+				annotations: READ_ONLY_TOOL,
 			},
-			async ({ projectId, taskId }) => {
+			async ({ account, includeUndone, limit, offset }, extra) => {
 				try {
-					await this.tickTickClient.completeTask(projectId, taskId);
-
-					const responseData: OperationResponseData = {
-						success: true,
-						operationType: "complete_task",
-						targetId: taskId,
-						details: `Задача с ID ${taskId} в проекте ${projectId}`,
+					const client = this.getClient(account, extra.authInfo);
+					const entries = (
+						await this.getAllowedUndoHistory(client, extra.authInfo)
+					).filter((entry) => includeUndone || !entry.undoneAt);
+					const page = entries.slice(offset, offset + limit);
+
+					const responseData: UndoHistoryResponseData = {
+						total: entries.length,
+						offset,
+						limit,
+						count: page.length,
+						operations: page.map((entry) => ({
+							id: entry.id,
+							tool: entry.tool,
+							createdAt: entry.createdAt,
+							undoneAt: entry.undoneAt,
+							changes: entry.changes.map(summarizeUndoChange),
+						})),
 					};
 
 					return this.createSuccessResponse(
 						responseData,
-						`Задача с ID ${taskId} успешно завершена`
+						`Найдено операций: ${entries.length}, показано ${page.length}`
 					);
 				} catch (error) {
-					this.logger.error("Failed to complete task", error);
+					this.logger.error("Failed to get undo history", error);
 					return this.createErrorResponse(
 						error,
-						`Ошибка при завершении задачи: ${error}`
+						`Ошибка при получении истории операций: ${error}`
 					);
 				}
 			}
 		);
 
-		// Инструмент для удаления задачи
-		this.server.registerTool(
-			"delete_task",
+		this.registerTool(
+			server,
+			"undo_last",
 			{
-				title: "Удалить задачу",
-				description: "Удалить задачу из TickTick",
-				inputSchema: {
-					projectId: z.string().describe("ID проекта"),
-					taskId: z.string().describe("ID задачи"),
-				},
+				title: "Отменить последнюю операцию",
+				description:
+					"Отменить последнюю неотмененную изменяющую операцию: удаленные задачи и проекты создаются заново (с подзадачами, напоминаниями и повторением, но с новыми ID), измененные и завершенные задачи возвращаются к прежнему состоянию, созданные - удаляются.",
+				inputSchema: {},
+				annotations: MUTATING_TOOL,
 			},
-			async ({ projectId, taskId }) => {
+			async ({ account }, extra) => {
 				try {
-					await this.tickTickClient.deleteTask(projectId, taskId);
-
-					const responseData: OperationResponseData = {
-						success: true,
-						operationType: "delete_task",
-						targetId: taskId,
-						details: `Задача с ID ${taskId} в проекте ${projectId}`,
-					};
+					const client = this.getClient(account, extra.authInfo);
+					const entry = (
+						await this.getAllowedUndoHistory(client, extra.authInfo)
+					).find((entry) => !entry.undoneAt);
+					if (!entry) {
+						throw new TickTickValidationError(
+							"В журнале отмены нет операций, которые можно отменить"
+						);
+					}
 
-					return this.createSuccessResponse(
-						responseData,
-						`Задача с ID ${taskId} успешно удалена`
-					);
+					return this.createUndoResponse(await client.undo(entry));
 				} catch (error) {
-					this.logger.error("Failed to delete task", error);
+					this.logger.error("Failed to undo last operation", error);
 					return this.createErrorResponse(
 						error,
-						`Ошибка при удалении задачи: ${error}`
+						`Ошибка при отмене операции: ${error}`
 					);
 				}
 			}
 		);
 
-		// Инструмент для создания проекта
-		this.server.registerTool(
-			"create_project",
+		this.registerTool(
+			server,
+			"undo_operation",
 			{
-				title: "Создать проект",
-				description: "Создать новый проект в TickTick",
+				title: "Отменить операцию",
+				description:
+					"Отменить операцию из журнала отмены по ID (см. get_undo_history). Изменения откатываются в обратном порядке; неудавшиеся остаются в журнале, и операцию можно отменить повторно.",
 				inputSchema: {
-					name: z.string().describe("Название проекта"),
-					color: z
-						.string()
-						.optional()
-						.describe("Цвет проекта (например, #FF0000)"),
-					viewMode: z
-						.enum(["list", "kanban", "timeline"])
-						.optional()
-						.describe("Режим отображения проекта"),
-					sortOrder: z
-						.number()
-						.optional()
-						.describe("Порядок сортировки проекта"),
-					kind: z
-						.enum(["TASK", "NOTE"])
-						.optional()
-						.default("TASK")
-						.describe("Тип проекта (TASK или NOTE)"),
+					operationId: z.string().describe("ID операции из get_undo_history"),
 				},
+				annotations: MUTATING_TOOL,
 			},
-			async ({ name, color, viewMode, sortOrder, kind }) => {
+			async ({ account, operationId }, extra) => {
 				try {
-					const project = await this.tickTickClient.createProject({
-						name,
-						color,
-						viewMode,
-						sortOrder,
-						kind,
-					});
-
-					const responseData: CreateProjectResponseData = {
-						project: project,
-					};
+					const client = this.getClient(account, extra.authInfo);
+					const entry = (
+						await this.getAllowedUndoHistory(client, extra.authInfo)
+					).find((entry) => entry.id === operationId);
+					if (!entry) {
+						throw new TickTickValidationError(
+							`Операция ${operationId} не найдена в журнале отмены`,
+							{ field: "operationId", value: operationId }
+						);
+					}
 
-					return this.createSuccessResponse(
-						responseData,
-						`Проект "${project.name}" успешно создан с ID: ${project.id}`
-					);
+					return this.createUndoResponse(await client.undo(entry));
 				} catch (error) {
-					this.logger.error("Failed to create project", error);
+					this.logger.error("Failed to undo operation", error);
 					return this.createErrorResponse(
 						error,
-						`Ошибка при создании проекта: ${error}`
+						`Ошибка при отмене операции: ${error}`
 					);
 				}
 			}
 		);
+	}
 
-		// Инструмент для обновления проекта
-		this.server.registerTool(
-			"update_project",
+	/**
+	 * Инструменты для работы с напоминаниями задачи. Напоминания принимаются
+	 * текстом ("30 minutes before", "накануне в 9:00") или как TRIGGER.
+	 */
+	private setupReminderTools(server: McpServer) {
+		const reminderInputSchema = {
+			...taskRefInputSchema,
+			reminder: z
+				.string()
+				.describe(
+					"Напоминание: TRIGGER ('TRIGGER:-PT30M') или текст ('30 minutes before', '1 day before', 'at 9:00 on the day', 'за 15 минут', 'накануне в 9:00')"
+				),
+		};
+
+		this.registerTool(
+			server,
+			"list_reminders",
 			{
-				title: "Обновить проект",
-				description: "Обновить существующий проект в TickTick",
-				inputSchema: {
-					projectId: z.string().describe("ID проекта"),
-					name: z.string().optional().describe("Новое название проекта"),
-					color: z
-						.string()
-						.optional()
-						.describe("Новый цвет проекта (например, #FF0000)"),
-					viewMode: z
-						.enum(["list", "kanban", "timeline"])
-						.optional()
-						.describe("Новый режим отображения проекта"),
-					sortOrder: z
-						.number()
-						.optional()
-						.describe("Новый порядок сортировки проекта"),
-					kind: z
-						.enum(["TASK", "NOTE"])
-						.optional()
-						.describe("Новый тип проекта (TASK или NOTE)"),
-				},
+				title: "Напоминания задачи",
+				description:
+					"Получить напоминания задачи с читаемыми описаниями (для задач на весь день - время дня)",
+				inputSchema: taskRefInputSchema,
+				annotations: READ_ONLY_TOOL,
 			},
-			async ({ projectId, name, color, viewMode, sortOrder, kind }) => {
+			async ({ account, projectId, taskId }, extra) => {
 				try {
-					const project = await this.tickTickClient.updateProject(projectId, {
-						name,
-						color,
-						viewMode,
-						sortOrder,
-						kind,
-					});
+					const client = this.getClient(account, extra.authInfo);
+					const task = await client.getTask(projectId, taskId);
 
-					const responseData: CreateProjectResponseData = {
-						project: project,
+					const responseData: ReminderResponseData = {
+						task,
+						reminders: (task.reminders || []).map((trigger) =>
+							this.toTaskReminder(trigger, task)
+						),
 					};
 
 					return this.createSuccessResponse(
 						responseData,
-						`Проект "${project.name}" успешно обновлен`
+						`Напоминаний у задачи "${task.title}": ${responseData.reminders.length}`
 					);
 				} catch (error) {
-					this.logger.error("Failed to update project", error);
+					this.logger.error("Failed to list reminders", error);
 					return this.createErrorResponse(
 						error,
-						`Ошибка при обновлении проекта: ${error}`
+						`Ошибка при получении напоминаний: ${error}`
 					);
 				}
 			}
 		);
 
-		// Инструмент для удаления проекта
-		this.server.registerTool(
-			"delete_project",
+		this.registerTool(
+			server,
+			"add_reminder",
 			{
-				title: "Удалить проект",
-				description: "Удалить проект из TickTick",
-				inputSchema: {
-					projectId: z.string().describe("ID проекта"),
-				},
+				title: "Добавить напоминание",
+				description:
+					"Добавить напоминание к задаче. Напоминание со временем дня ('at 9:00 on the day') отсчитывается от начала дня и подходит для задач на весь день. Повторное напоминание с тем же смещением не добавляется.",
+				inputSchema: reminderInputSchema,
+				annotations: MUTATING_TOOL,
 			},
-			async ({ projectId }) => {
+			async ({ account, projectId, taskId, reminder }, extra) => {
 				try {
-					await this.tickTickClient.deleteProject(projectId);
+					const client = this.getClient(account, extra.authInfo);
+					const trigger = parseReminder(reminder);
+					const { after, changes } = await client.patchTask(projectId, taskId, {
+						addReminders: [trigger],
+					});
 
-					const responseData: OperationResponseData = {
-						success: true,
-						operationType: "delete_project",
-						targetId: projectId,
-						details: `Проект с ID ${projectId}`,
+					const responseData: ReminderResponseData = {
+						task: after,
+						reminder: this.toTaskReminder(
+							after.reminders?.find((item) => isSameReminder(item, trigger)) ||
+								trigger,
+							after
+						),
+						reminders: (after.reminders || []).map((item) =>
+							this.toTaskReminder(item, after)
+						),
+						changes,
 					};
 
 					return this.createSuccessResponse(
 						responseData,
-						`Проект с ID ${projectId} успешно удален`
+						changes.length
+							? `Напоминание добавлено в задачу "${after.title}"`
+							: `Напоминание уже есть у задачи "${after.title}"`
 					);
 				} catch (error) {
-					this.logger.error("Failed to delete project", error);
+					this.logger.error("Failed to add reminder", error);
 					return this.createErrorResponse(
 						error,
-						`Ошибка при удалении проекта: ${error}`
+						`Ошибка при добавлении напоминания: ${error}`
 					);
 				}
 			}
 		);
 
-		// Инструмент для получения всех проектов с задачами
-		this.server.registerTool(
-			"get_all_projects_with_tasks",
+		this.registerTool(
+			server,
+			"remove_reminder",
 			{
-				title: "Получить все проекты с задачами",
+				title: "Удалить напоминание",
 				description:
-					"Получить все проекты пользователя вместе со всеми задачами в каждом проекте",
-				inputSchema: {},
+					"Удалить напоминание задачи. Напоминание сравнивается по смещению, поэтому '30 minutes before' удаляет 'TRIGGER:-P0DT0H30M0S'.",
+				inputSchema: reminderInputSchema,
+				annotations: MUTATING_TOOL,
 			},
-			async () => {
+			async ({ account, projectId, taskId, reminder }, extra) => {
 				try {
-					const projectsWithData =
-						await this.tickTickClient.getAllProjectsWithTasks();
-
-					let totalTasks = 0;
-					for (const projectData of projectsWithData) {
-						totalTasks += projectData.tasks.length;
-					}
+					const client = this.getClient(account, extra.authInfo);
+					const { before, after, changes } = await client.patchTask(
+						projectId,
+						taskId,
+						{ removeReminders: [reminder] }
+					);
 
-					const responseData: AllProjectsWithTasksResponseData = {
-						totalProjects: projectsWithData.length,
-						totalTasks: totalTasks,
-						projectsWithTasks: projectsWithData,
+					const trigger = parseReminder(reminder);
+					const removed = (before.reminders || []).find((item) =>
+						isSameReminder(item, trigger)
+					);
+					const responseData: ReminderResponseData = {
+						task: after,
+						reminder:
+							removed !== undefined
+								? this.toTaskReminder(removed, before)
+								: undefined,
+						reminders: (after.reminders || []).map((item) =>
+							this.toTaskReminder(item, after)
+						),
+						changes,
 					};
 
 					return this.createSuccessResponse(
 						responseData,
-						`Получено ${projectsWithData.length} проектов с ${totalTasks} задачами`
+						`Напоминание удалено из задачи "${after.title}"`
 					);
 				} catch (error) {
-					this.logger.error("Failed to get all projects with tasks", error);
+					this.logger.error("Failed to remove reminder", error);
 					return this.createErrorResponse(
 						error,
-						`Ошибка при получении всех проектов с задачами: ${error}`
+						`Ошибка при удалении напоминания: ${error}`
 					);
 				}
 			}
 		);
 	}
 
-	private setupResources() {
+	private setupResources(server: McpServer) {
 		// Ресурс для статистики
-		this.server.registerResource(
+		server.registerResource(
 			"stats",
 			new ResourceTemplate("ticktick://stats", { list: undefined }),
 			{
 				title: "Статистика TickTick",
 				description: `Получить общую статистику по проектам и задачам\nВозвращает JSON с:\n- Общей статистикой (количество проектов, задач, выполненных, просроченных)\n- Детальной статистикой по каждому проекту\n- URI ресурса и временной меткой`,
 			},
-			async (uri) => {
+			async (uri, _variables, extra) => {
 				try {
-					const projects = await this.tickTickClient.getProjects();
+					const client = this.getClient(undefined, extra.authInfo);
+					const projects = this.filterAllowedProjects(
+						await client.getProjects(),
+						(project) => project.id,
+						extra.authInfo
+					);
 
 					let totalTasks = 0;
 					let completedTasks = 0;
@@ -736,104 +2948,77 @@ export class TickTickMcpServer {
 					let overdueTasksCount = 0;
 					let todayTasksCount = 0;
 
-					// Получаем текущую дату в UTC
 					const now = new Date();
-
-					// Создаем сегодняшнюю дату в начале дня (00:00:00)
-					const today = new Date(now);
-					today.setHours(0, 0, 0, 0);
-
-					// Создаем завтрашнюю дату
-					const tomorrow = new Date(today);
-					tomorrow.setDate(tomorrow.getDate() + 1);
+					const defaultTimeZone =
+						client.getDateOptions().defaultTimeZone || this.defaultTimeZone;
 
 					const projectStats = [];
 
-					for (const project of projects) {
-						try {
-							const projectData = await this.tickTickClient.getProjectWithData(
-								project.id
-							);
-							const tasks = projectData.tasks;
-
-							const projectTotalTasks = tasks.length;
-							const projectCompletedTasks = tasks.filter(
-								(task) => task.status === 2
-							).length;
-							const projectPendingTasks =
-								projectTotalTasks - projectCompletedTasks;
-
-							// Подсчет просроченных и сегодняшних задач
-							for (const task of tasks) {
-								if (task.status === 2) continue; // Skip completed tasks
-
-								if (task.dueDate) {
-									// Парсим дату с учетом временной зоны задачи
-									const dueDate = new Date(task.dueDate);
-
-									// Если задача имеет временную зону, учитываем ее
-									if (task.timeZone && validateTimeZone(task.timeZone)) {
-										try {
-											// Получаем смещение временной зоны задачи от UTC в минутах
-											const taskDate = new Date(task.dueDate);
-											const formatter = new Intl.DateTimeFormat("en-US", {
-												timeZone: task.timeZone,
-												year: "numeric",
-												month: "numeric",
-												day: "numeric",
-												hour: "numeric",
-												minute: "numeric",
-												second: "numeric",
-												hour12: false,
-											});
-
-											// Форматируем дату в строку и парсим обратно
-											const dateString = formatter.format(taskDate);
-											const localDate = new Date(dateString);
-
-											// Сравниваем с сегодняшней датой
-											if (localDate < today) {
-												overdueTasksCount++;
-											} else if (localDate >= today && localDate < tomorrow) {
-												todayTasksCount++;
-											}
-										} catch (error) {
-											// Если произошла ошибка при работе с временной зоной,
-											// используем обычное сравнение
-											if (dueDate < today) {
-												overdueTasksCount++;
-											} else if (dueDate >= today && dueDate < tomorrow) {
-												todayTasksCount++;
-											}
-										}
-									} else {
-										// Если временная зона не указана, используем обычное сравнение
-										if (dueDate < today) {
-											overdueTasksCount++;
-										} else if (dueDate >= today && dueDate < tomorrow) {
-											todayTasksCount++;
-										}
-									}
+					const { projectsData, failedProjects } =
+						await client.getProjectsWithData(projects);
+
+					for (const projectData of projectsData) {
+						const project = projectData.project;
+						const tasks = projectData.tasks;
+
+						const projectTotalTasks = tasks.length;
+						const projectCompletedTasks = tasks.filter(
+							(task) => task.status === 2
+						).length;
+						const projectPendingTasks =
+							projectTotalTasks - projectCompletedTasks;
+
+						// Подсчет просроченных и сегодняшних задач
+						for (const task of tasks) {
+							if (task.status === 2) continue; // Skip completed tasks
+
+							if (task.dueDate) {
+								// Сегодняшний день определяется по часам временной зоны задачи
+								const dueDate = new Date(task.dueDate);
+								const zone =
+									task.timeZone && validateTimeZone(task.timeZone)
+										? task.timeZone
+										: defaultTimeZone;
+								const today = getZonedDayStart(now, zone);
+								const tomorrow = getZonedDayStart(now, zone, 1);
+
+								if (dueDate < today) {
+									overdueTasksCount++;
+								} else if (dueDate < tomorrow) {
+									todayTasksCount++;
 								}
 							}
+						}
 
-							totalTasks += projectTotalTasks;
-							completedTasks += projectCompletedTasks;
-							pendingTasks += projectPendingTasks;
+						totalTasks += projectTotalTasks;
+						completedTasks += projectCompletedTasks;
+						pendingTasks += projectPendingTasks;
+
+						projectStats.push({
+							projectId: project.id,
+							projectName: project.name,
+							totalTasks: projectTotalTasks,
+							completedTasks: projectCompletedTasks,
+							pendingTasks: projectPendingTasks,
+						});
+					}
 
-							projectStats.push({
-								projectId: project.id,
-								projectName: project.name,
-								totalTasks: projectTotalTasks,
-								completedTasks: projectCompletedTasks,
-								pendingTasks: projectPendingTasks,
-							});
-						} catch (error) {
-							this.logger.warn(
-								`Failed to get stats for project ${project.id}`,
-								error
-							);
-						}
+					// Завершения за сегодня и последние 7 дней (включая сегодня)
+					let completedTodayCount: number | undefined;
+					let completedLast7DaysCount: number | undefined;
+					if (client.hasCompletionLog()) {
+						const records = this.filterAllowedProjects(
+							await client.getCompletedTasks(),
+							(record) => record.projectId,
+							extra.authInfo
+						);
+						const todayStart = getZonedDayStart(now, defaultTimeZone);
+						const weekStart = getZonedDayStart(now, defaultTimeZone, -6);
+						const completedSince = (start: Date) =>
+							records.filter((record) => new Date(record.completedAt) >= start)
+								.length;
+						completedTodayCount = completedSince(todayStart);
+						completedLast7DaysCount = completedSince(weekStart);
 					}
 
 					const statsData: StatsResponseData = {
@@ -843,7 +3028,10 @@ export class TickTickMcpServer {
 						pendingTasks,
 						overdueTasksCount,
 						todayTasksCount,
+						completedTodayCount,
+						completedLast7DaysCount,
 						projectStats,
+						failedProjects,
 					};
 
 					return {
@@ -875,14 +3063,93 @@ export class TickTickMcpServer {
 				}
 			}
 		);
+
+		// Ресурс с состоянием клиентов TickTick (бюджет запросов, очереди, кэш)
+		server.registerResource(
+			"client-status",
+			new ResourceTemplate("ticktick://client-status", { list: undefined }),
+			{
+				title: "Состояние клиента TickTick",
+				description: `Получить состояние клиентов TickTick API по аккаунтам\nВозвращает JSON с:\n- Бюджетом ограничителя запросов, глубиной очереди и паузой после ответа 429\n- Загрузкой пула параллельных запросов\n- Статистикой кэша`,
+			},
+			async (uri, _variables, extra) => {
+				try {
+					const permissions = getClientPermissions(extra.authInfo);
+					const accounts = permissions?.account
+						? [permissions.account]
+						: this.accounts.getAccountNames();
+
+					const statusData: ClientStatusResponseData = {
+						accounts: accounts.map((account) => ({
+							account,
+							...this.accounts.getClient(account).getStatus(),
+						})),
+					};
+
+					return {
+						contents: [
+							{
+								uri: uri.href,
+								text: JSON.stringify(
+									{
+										status: statusData,
+										uri: uri.href,
+										timestamp: new Date().toISOString(),
+									},
+									null,
+									2
+								),
+								mimeType: "application/json",
+							},
+						],
+					};
+				} catch (error) {
+					return {
+						contents: [
+							{
+								uri: uri.href,
+								text: `Ошибка при получении состояния клиента: ${error}`,
+							},
+						],
+					};
+				}
+			}
+		);
 	}
 
 	/**
-	 * Запустить MCP сервер
+	 * Запустить MCP сервер с транспортом из настроек (stdio по умолчанию)
 	 */
 	async start() {
-		const transport = new StdioServerTransport();
-		await this.server.connect(transport);
+		const transport = this.options.transport || "stdio";
+
+		if (transport === "http") {
+			const authManager = this.options.authConfigPath
+				? AuthManager.fromFile(this.options.authConfigPath)
+				: undefined;
+
+			this.httpServer = new McpHttpServer(
+				() => this.createServer(),
+				this.options.http,
+				authManager
+			);
+			await this.httpServer.start();
+			this.logger.log("TickTick MCP Server запущен (HTTP)");
+			return;
+		}
+
+		const server = this.createServer();
+		await server.connect(new StdioServerTransport());
 		this.logger.log("TickTick MCP Server запущен");
 	}
+
+	/**
+	 * Остановить MCP сервер и закрыть все активные сессии
+	 */
+	async stop() {
+		if (this.httpServer) {
+			await this.httpServer.stop();
+			this.httpServer = undefined;
+		}
+	}
 }
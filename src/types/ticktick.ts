@@ -21,6 +21,7 @@ export interface Task {
 	status?: number; // 0=Normal, 2=Completed
 	completedTime?: string; // ISO 8601 format
 	sortOrder?: number;
+	tags?: string[];
 	items?: ChecklistItem[]; // Subtasks
 }
 
@@ -75,8 +76,10 @@ export interface CreateTaskRequest {
 	timeZone?: string;
 	reminders?: string[];
 	repeatFlag?: string;
+	repeat?: RecurrenceInput; // Преобразуется в repeatFlag
 	priority?: number;
 	sortOrder?: number;
+	tags?: string[];
 	items?: Omit<ChecklistItem, "id">[];
 }
 
@@ -92,9 +95,190 @@ export interface UpdateTaskRequest {
 	timeZone?: string;
 	reminders?: string[];
 	repeatFlag?: string;
+	repeat?: RecurrenceInput; // Преобразуется в repeatFlag
 	priority?: number;
 	sortOrder?: number;
-	items?: ChecklistItem[];
+	items?: (Omit<ChecklistItem, "id"> & { id?: string })[]; // Подзадачи без ID создаются
+}
+
+/**
+ * Поля задачи, которые можно очистить через patch
+ */
+export type TaskPatchField =
+	| "content"
+	| "desc"
+	| "startDate"
+	| "dueDate"
+	| "timeZone"
+	| "reminders"
+	| "repeatFlag"
+	| "priority"
+	| "items";
+
+export type ChecklistItemPatch = { id: string } & Partial<
+	Omit<ChecklistItem, "id">
+>;
+
+/**
+ * Изменения задачи: поля из set заменяются, поля из unset очищаются, остальные
+ * берутся из текущей задачи. Операции над подзадачами и напоминаниями нельзя
+ * совмещать с полной заменой items/reminders через set.
+ */
+export interface TaskPatch {
+	set?: Omit<UpdateTaskRequest, "id" | "projectId">;
+	unset?: TaskPatchField[];
+	addItems?: Omit<ChecklistItem, "id">[];
+	updateItems?: ChecklistItemPatch[];
+	removeItemIds?: string[];
+	reorderItemIds?: string[]; // Новый порядок подзадач, неуказанные идут следом
+	addReminders?: string[];
+	removeReminders?: string[];
+}
+
+export interface TaskFieldChange {
+	field: string; // Для подзадач - items[<id>]
+	before?: unknown;
+	after?: unknown;
+}
+
+export interface TaskPatchResult {
+	before: Task;
+	after: Task;
+	changes: TaskFieldChange[];
+}
+
+export interface MoveTaskRequest {
+	fromProjectId: string;
+	toProjectId: string;
+	taskId: string;
+}
+
+export type MoveTaskMethod = "move" | "recreate";
+
+export interface MoveTaskResult {
+	taskId: string; // ID задачи до перемещения
+	newTaskId: string; // При пересоздании задача получает новый ID
+	fromProjectId: string;
+	toProjectId: string;
+	method: MoveTaskMethod; // move - через API, recreate - создание копии и удаление исходной
+	task: Task;
+	warning?: string;
+}
+
+export interface PromoteChecklistItemsOptions {
+	targetProjectId?: string; // По умолчанию - проект исходной задачи
+	inheritDates?: boolean; // Взять даты и временную зону исходной задачи
+	inheritPriority?: boolean; // Взять приоритет исходной задачи
+}
+
+/**
+ * Что сделать с исходными задачами после переноса в чек-лист
+ */
+export type FoldSourceAction = "complete" | "delete";
+
+export interface ChecklistConversionItemResult {
+	success: boolean;
+	title?: string;
+	itemId?: string; // Подзадача исходной (promote) или целевой (fold) задачи
+	projectId?: string; // Проект отдельной задачи
+	taskId?: string; // Созданная (promote) или исходная (fold) задача
+	task?: Task; // Созданная задача (promote)
+	warning?: string;
+	error?: string;
+	code?: TickTickErrorCode;
+}
+
+/**
+ * Результат преобразования подзадач в задачи или задач в подзадачи.
+ * Задача task - исходная (promote) или целевая (fold) после изменения.
+ */
+export interface ChecklistConversionResult {
+	task: Task;
+	changes: TaskFieldChange[];
+	converted: number;
+	failed: number;
+	results: ChecklistConversionItemResult[];
+	warning?: string;
+}
+
+export interface QuickAddToken {
+	kind:
+		| "date"
+		| "time"
+		| "priority"
+		| "project"
+		| "tag"
+		| "repeat"
+		| "reminder";
+	text: string; // Фрагмент исходной строки
+}
+
+/**
+ * Результат разбора быстрого ввода: поля задачи и распознанные фрагменты
+ */
+export interface QuickAddParseResult {
+	title: string;
+	projectId?: string;
+	projectName?: string;
+	priority?: number;
+	tags: string[];
+	isAllDay?: boolean;
+	startDate?: string;
+	dueDate?: string;
+	timeZone?: string;
+	repeatFlag?: string;
+	reminders: string[];
+	tokens: QuickAddToken[];
+}
+
+export const RECURRENCE_FREQUENCIES = [
+	"daily",
+	"weekly",
+	"monthly",
+	"yearly",
+] as const;
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+/**
+ * Структурированное описание повторения, из которого строится RRULE
+ */
+export interface RecurrenceSpec {
+	frequency: RecurrenceFrequency;
+	interval?: number; // Каждые N периодов, по умолчанию 1
+	weekdays?: string[]; // "MO", "monday", "пн"; с номером для monthly/yearly: "2MO", "-1FR"
+	monthDays?: number[]; // 1..31, отрицательные - с конца месяца (-1 - последний день)
+	months?: number[]; // 1..12
+	count?: number; // Сколько раз повторить
+	until?: string; // Дата последнего повторения (включительно)
+}
+
+/**
+ * Повторение во входных параметрах: RRULE, описание на английском или
+ * русском ("every 2 weeks on Mon and Thu until June") или структура
+ */
+export type RecurrenceInput = string | RecurrenceSpec;
+
+export const LOCALES = ["ru", "en"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+/**
+ * Вхождение повторяющейся задачи
+ */
+export interface TaskOccurrence {
+	startDate?: string; // ISO 8601, если у задачи есть дата начала
+	dueDate?: string; // ISO 8601, если у задачи есть срок
+}
+
+export interface TaskOccurrencesOptions {
+	from?: string; // Дата, с которой искать вхождения (по умолчанию - сейчас)
+	limit: number;
+}
+
+export interface TaskOccurrencesResult {
+	task: Task;
+	timeZone: string; // Зона, по часам которой считались вхождения
+	occurrences: TaskOccurrence[];
 }
 
 export interface CreateProjectRequest {
@@ -177,6 +361,13 @@ export interface DeleteTaskParams {
 	taskId: string;
 }
 
+export interface MoveTaskParams {
+	targetProjectId: string;
+	projectId?: string;
+	taskId?: string;
+	tasks?: { projectId: string; taskId: string }[];
+}
+
 export interface CreateProjectParams {
 	name: string;
 	color?: string;
@@ -196,6 +387,36 @@ export interface DeleteProjectParams {
 	projectId: string;
 }
 
+export type TaskStatusFilter = "open" | "completed" | "all";
+
+export type ChecklistFilter = "none" | "any" | "incomplete" | "completed";
+
+export type TaskSortField =
+	| "dueDate"
+	| "startDate"
+	| "priority"
+	| "title"
+	| "sortOrder";
+
+export interface SearchTasksParams {
+	query?: string;
+	projectIds?: string[];
+	priorities?: Priority[];
+	status?: TaskStatusFilter;
+	dueFrom?: string;
+	dueTo?: string;
+	startFrom?: string;
+	startTo?: string;
+	hasDueDate?: boolean;
+	hasReminder?: boolean;
+	isRecurring?: boolean;
+	checklist?: ChecklistFilter;
+	sortBy?: TaskSortField;
+	sortDirection?: "asc" | "desc";
+	limit?: number;
+	offset?: number;
+}
+
 // ============================================================================
 // UTILITY TYPES
 // ============================================================================
@@ -345,7 +566,39 @@ export interface McpResponse<T = any> {
 	data?: T;
 	message: string;
 	error?: string;
+	code?: TickTickErrorCode;
+	details?: unknown;
 	timestamp: string;
+	dryRun?: boolean; // Вызов с dryRun: изменения не отправлены в API
+	plannedRequests?: PlannedRequest[]; // Запросы, которые были бы отправлены
+}
+
+/**
+ * Изменяющий запрос к API, который был бы отправлен без dryRun
+ */
+export interface PlannedRequest {
+	method: string;
+	endpoint: string;
+	body?: unknown;
+}
+
+/**
+ * Что затронет разрушительная операция: проекты, задачи и их количество
+ */
+export interface OperationPreview {
+	description: string;
+	projects: { projectId: string; name?: string }[];
+	taskCount: number;
+	tasks: { projectId: string; taskId: string; title: string }[]; // Не больше 50
+	notFound?: { projectId: string; taskId: string; error: string }[];
+}
+
+export interface ConfirmationResponseData {
+	confirmationRequired: true;
+	tool: string;
+	confirmationToken: string; // Передается обратно в параметре confirmationToken
+	expiresAt: string; // ISO 8601
+	preview: OperationPreview;
 }
 
 export interface ProjectsResponseData {
@@ -363,10 +616,47 @@ export interface TaskResponseData {
 	task: Task;
 }
 
+export interface PatchTaskResponseData {
+	task: Task;
+	changes: TaskFieldChange[];
+}
+
+export interface ChecklistItemResponseData {
+	task: Task;
+	item?: ChecklistItem; // Добавленная, измененная или удаленная подзадача
+	changes: TaskFieldChange[];
+}
+
+export interface TaskReminder {
+	trigger: string; // TRIGGER:-P0DT0H30M0S
+	description?: string; // "За 30 минут", "Накануне в 9:00"
+}
+
+export interface ReminderResponseData {
+	task: Task;
+	reminder?: TaskReminder; // Добавленное или удаленное напоминание
+	reminders: TaskReminder[];
+	changes?: TaskFieldChange[];
+}
+
+export interface ChecklistConversionResponseData
+	extends ChecklistConversionResult {
+	operation: "promote_checklist_items" | "fold_tasks_into_checklist";
+}
+
 export interface CreateTaskResponseData {
 	task: Task;
 }
 
+export interface QuickAddResponseData {
+	dryRun: boolean;
+	parsed: QuickAddParseResult;
+	request: CreateTaskRequest; // Запрос, который отправлен (или был бы отправлен) в API
+	task?: Task; // Созданная задача, если не dryRun
+}
+
+export type TaskOccurrencesResponseData = TaskOccurrencesResult;
+
 export interface CreateProjectResponseData {
 	project: Project;
 }
@@ -378,6 +668,22 @@ export interface OperationResponseData {
 	details?: string;
 }
 
+export interface FailedProject {
+	projectId: string;
+	projectName: string;
+	error: string;
+	code?: TickTickErrorCode;
+}
+
+/**
+ * Результат загрузки данных нескольких проектов: проекты, которые не удалось
+ * загрузить, перечислены отдельно
+ */
+export interface ProjectsDataResult {
+	projectsData: ProjectData[];
+	failedProjects: FailedProject[];
+}
+
 export interface StatsResponseData {
 	totalProjects: number;
 	totalTasks: number;
@@ -385,6 +691,9 @@ export interface StatsResponseData {
 	pendingTasks: number;
 	overdueTasksCount: number;
 	todayTasksCount: number;
+	// Из журнала завершений, если он настроен
+	completedTodayCount?: number;
+	completedLast7DaysCount?: number;
 	projectStats: {
 		projectId: string;
 		projectName: string;
@@ -392,12 +701,132 @@ export interface StatsResponseData {
 		completedTasks: number;
 		pendingTasks: number;
 	}[];
+	failedProjects: FailedProject[];
+}
+
+export interface SearchTasksResponseData {
+	total: number;
+	offset: number;
+	limit: number;
+	count: number;
+	tasks: Task[];
+	failedProjects: FailedProject[];
+}
+
+export interface CompletedTasksResponseData {
+	total: number;
+	offset: number;
+	limit: number;
+	count: number;
+	records: CompletionRecord[]; // Сначала последние
+}
+
+export interface UndoOperationSummary {
+	id: string;
+	tool: string;
+	createdAt: string;
+	undoneAt?: string;
+	changes: UndoChangeSummary[];
+}
+
+export interface UndoHistoryResponseData {
+	total: number;
+	offset: number;
+	limit: number;
+	count: number;
+	operations: UndoOperationSummary[]; // Сначала последние
+}
+
+export type UndoResponseData = UndoResult;
+
+export const AGENDA_BUCKETS = [
+	"overdue",
+	"today",
+	"tomorrow",
+	"thisWeek",
+	"later",
+	"noDate",
+] as const;
+export type AgendaBucket = (typeof AGENDA_BUCKETS)[number];
+
+export type WeekStart = "monday" | "sunday";
+
+export interface AgendaItem {
+	task: Task; // Для прогнозного вхождения - задача с датами вхождения
+	date?: string; // Дата, по которой задача попала в группу (срок или начало)
+	projected?: boolean; // Будущее вхождение повторяющейся задачи
+}
+
+export interface AgendaResponseData {
+	timeZone: string; // Зона для задач без собственной timeZone
+	weekStart: WeekStart;
+	counts: Record<AgendaBucket, number>; // Без учета limit
+	buckets: Record<AgendaBucket, AgendaItem[]>;
+	failedProjects: FailedProject[];
+}
+
+export interface RefreshResponseData {
+	projectId?: string; // Не указан, если сброшен весь кэш
+	cache: CacheStats;
 }
 
 export interface AllProjectsWithTasksResponseData {
 	totalProjects: number;
 	totalTasks: number;
 	projectsWithTasks: ProjectData[];
+	failedProjects: FailedProject[];
+}
+
+export type BatchOperationType =
+	| "create_tasks"
+	| "update_tasks"
+	| "complete_tasks"
+	| "delete_tasks";
+
+export interface BatchItemResult {
+	index: number; // Позиция элемента во входном массиве
+	success: boolean;
+	projectId: string;
+	taskId?: string;
+	task?: Task;
+	error?: string;
+	code?: TickTickErrorCode;
+	details?: unknown;
+}
+
+export interface BatchResponseData {
+	operation: BatchOperationType;
+	total: number;
+	succeeded: number;
+	failed: number;
+	results: BatchItemResult[];
+}
+
+export interface MoveTaskItemResult {
+	projectId: string;
+	taskId: string;
+	success: boolean;
+	newTaskId?: string;
+	method?: MoveTaskMethod;
+	warning?: string;
+	error?: string;
+	code?: TickTickErrorCode;
+}
+
+export interface MoveTasksResponseData {
+	targetProjectId: string;
+	moved: number;
+	failed: number;
+	results: MoveTaskItemResult[];
+}
+
+export interface ClientStatusResponseData {
+	accounts: ({ account: string } & ClientStatus)[];
+}
+
+export interface AccountsResponseData {
+	defaultAccount: string;
+	accounts: string[];
 }
 
 // ============================================================================
@@ -408,4 +837,251 @@ export interface TickTickClientConfig {
 	baseUrl?: string;
 	timeout?: number;
 	accessToken?: string;
+	refreshToken?: string;
+	tokenStore?: TokenStore; // Хранилище токенов, имеет приоритет над accessToken
+	oauth?: OAuthClientConfig; // Нужен для обновления токена
+	cacheTtl?: number; // TTL кэша ответов в мс, 0 - кэш отключен
+	concurrency?: number; // Максимум параллельных запросов в многопроектных операциях
+	rateLimit?: RateLimitConfig;
+	timeZone?: string; // Зона для относительных дат, если у задачи нет timeZone
+	dateOrder?: DateOrder; // Порядок дня и месяца в датах вида 05.03.2025
+	completionLog?: CompletionLog; // Журнал задач, завершенных через сервер
+	undoJournal?: UndoJournal; // Журнал отмены изменяющих операций
+}
+
+/**
+ * Порядок дня и месяца в датах вида 05.03.2025: dmy - день первым, mdy - месяц
+ * первым, auto - по значениям, а неоднозначные даты отклоняются
+ */
+export const DATE_ORDERS = ["dmy", "mdy", "auto"] as const;
+
+export type DateOrder = (typeof DATE_ORDERS)[number];
+
+/**
+ * Настройки разбора дат для одного вызова
+ */
+export interface TaskDateOptions {
+	dateOrder?: DateOrder;
+}
+
+export interface RateLimitConfig {
+	requestsPerMinute?: number; // 0 - без ограничения
+	burst?: number; // Сколько запросов можно сделать подряд без ожидания
+}
+
+export interface RateLimiterStatus {
+	requestsPerMinute: number;
+	burst: number;
+	availableTokens: number;
+	queueDepth: number; // Запросы, ожидающие бюджета
+	pausedUntil?: string; // Пауза после ответа 429 (Retry-After)
+}
+
+export interface FetchPoolStatus {
+	concurrency: number;
+	active: number;
+	queued: number;
+}
+
+export interface ClientStatus {
+	rateLimit: RateLimiterStatus;
+	fetchPool: FetchPoolStatus;
+	cache: CacheStats;
+}
+
+export interface CacheStats {
+	ttlMs: number;
+	entries: number;
+	hits: number;
+	misses: number;
+}
+
+export interface OAuthClientConfig {
+	clientId: string;
+	clientSecret: string;
+	tokenUrl?: string;
+}
+
+export interface StoredToken {
+	accessToken: string;
+	refreshToken?: string;
+	expiresAt?: string; // ISO 8601
+	scope?: string;
+}
+
+export interface TokenStore {
+	load(): Promise<StoredToken | undefined>;
+	save(token: StoredToken): Promise<void>;
+}
+
+/**
+ * Запись журнала завершений: задача, завершенная через сервер
+ */
+export interface CompletionRecord {
+	projectId: string;
+	taskId: string;
+	title?: string;
+	completedAt: string; // ISO 8601
+	task?: Task; // Снимок задачи перед завершением
+}
+
+export interface CompletionLogQuery {
+	from?: number; // timestamp, включительно
+	to?: number; // timestamp, не включительно
+	projectIds?: string[];
+}
+
+export interface CompletedTasksQuery {
+	from?: string; // Дата без времени в to включает весь день
+	to?: string;
+	projectIds?: string[];
+}
+
+export interface CompletionLog {
+	append(record: CompletionRecord): Promise<void>;
+	list(query?: CompletionLogQuery): Promise<CompletionRecord[]>;
+}
+
+/**
+ * Изменение в журнале отмены вместе с состоянием до него (pre-image)
+ */
+export type UndoChange =
+	| { type: "createTask"; projectId: string; taskId: string }
+	| { type: "updateTask" | "completeTask" | "deleteTask"; before: Task }
+	| {
+			type: "moveTask";
+			taskId: string;
+			fromProjectId: string;
+			toProjectId: string;
+	  }
+	| { type: "createProject"; projectId: string }
+	| { type: "updateProject"; before: Project }
+	| { type: "deleteProject"; before: ProjectData };
+
+export type UndoChangeType = UndoChange["type"];
+
+/**
+ * Запись журнала отмены: все изменения одного вызова инструмента
+ */
+export interface UndoEntry {
+	id: string;
+	tool: string;
+	createdAt: string; // ISO 8601
+	changes: UndoChange[]; // После частичной отмены - только неотмененные
+	undoneAt?: string; // ISO 8601, когда отменены все изменения
+	clientId?: string; // HTTP клиент, выполнивший операцию
+}
+
+/**
+ * Новые ID задач и проектов, созданных заново при отмене (старый ID -> новый)
+ */
+export interface UndoIdMap {
+	tasks: Record<string, string>;
+	projects: Record<string, string>;
+}
+
+export interface UndoJournal {
+	append(entry: UndoEntry): Promise<void>;
+	update(entry: UndoEntry): Promise<void>;
+	remapIds(ids: UndoIdMap): Promise<void>; // Заменить старые ID в неотмененных записях
+	list(): Promise<UndoEntry[]>; // Сначала последние
+}
+
+/**
+ * Краткое описание изменения без полного состояния до него
+ */
+export interface UndoChangeSummary {
+	type: UndoChangeType;
+	projectId: string;
+	taskId?: string;
+	title?: string;
+	targetProjectId?: string; // Для перемещения - проект, куда перемещена задача
+}
+
+export interface UndoChangeResult extends UndoChangeSummary {
+	success: boolean;
+	newProjectId?: string; // Удаленный проект создается заново с новым ID
+	newTaskId?: string; // Удаленная или перемещенная обратно задача может получить новый ID
+	error?: string;
+	code?: TickTickErrorCode;
+	warning?: string;
+}
+
+export interface UndoResult {
+	operationId: string;
+	tool: string;
+	createdAt: string;
+	undone: number;
+	failed: number;
+	results: UndoChangeResult[];
+}
+
+export type McpTransportType = "stdio" | "http";
+
+/**
+ * Подтверждение разрушительных операций: elicit - запрос подтверждения у
+ * пользователя через MCP elicitation, если клиент его поддерживает, иначе
+ * токен; token - всегда токен подтверждения; off - без подтверждения
+ */
+export const CONFIRMATION_MODES = ["elicit", "token", "off"] as const;
+
+export type ConfirmationMode = (typeof CONFIRMATION_MODES)[number];
+
+export interface HttpServerConfig {
+	port?: number;
+	host?: string;
+}
+
+export interface TickTickServerOptions {
+	transport?: McpTransportType;
+	http?: HttpServerConfig;
+	authConfigPath?: string; // Путь к JSON файлу с API ключами и JWT настройками
+	accountsConfigPath?: string; // Путь к JSON файлу с аккаунтами TickTick
+	timeZone?: string; // Зона пользователя для относительных дат, по умолчанию зона хоста
+	locale?: Locale; // Язык описаний повторения и напоминаний, по умолчанию ru
+	confirmation?: ConfirmationMode; // Подтверждение разрушительных операций, по умолчанию elicit
+	confirmationTtl?: number; // Срок действия токена подтверждения в мс
+}
+
+export interface AccountConfig {
+	name: string;
+	accessToken?: string;
+	refreshToken?: string;
+	tokenStorePath?: string; // Файл хранилища токенов аккаунта
+	tokenStorePassphrase?: string; // Пароль для шифрования хранилища
+	completionLogPath?: string; // Файл журнала завершенных задач аккаунта
+	undoJournalPath?: string; // Файл журнала отмены аккаунта
+	undoRetentionDays?: number; // Сколько дней хранятся записи журнала отмены
+	baseUrl?: string;
+}
+
+export interface AccountsConfig {
+	defaultAccount?: string;
+	accounts: AccountConfig[];
+}
+
+export interface AuthClientConfig {
+	name: string;
+	apiKey: string;
+	tools?: string[]; // Разрешенные инструменты, "*" - все
+	projects?: string[]; // Разрешенные проекты, если не указано - все
+	account?: string; // Аккаунт TickTick, закрепленный за клиентом
+}
+
+export interface AuthJwtConfig {
+	secret: string; // Секрет для проверки подписи HS256
+	issuer?: string;
+	audience?: string;
+}
+
+export interface AuthConfig {
+	clients?: AuthClientConfig[];
+	jwt?: AuthJwtConfig;
+}
+
+export interface ClientPermissions {
+	clientId: string;
+	tools: string[];
+	projects?: string[];
+	account?: string;
 }
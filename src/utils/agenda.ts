@@ -0,0 +1,178 @@
+/**
+ * Группировка открытых задач по срокам: просроченные, сегодня, завтра,
+ * до конца недели, позже и без даты
+ */
+
+import {
+	Task,
+	AgendaBucket,
+	AgendaItem,
+	AGENDA_BUCKETS,
+	WeekStart,
+} from "../types/ticktick.js";
+import {
+	expandTaskOccurrences,
+	getZonedDateParts,
+	getZonedDayStart,
+} from "./date-utils.js";
+import { validateTimeZone } from "./validators.js";
+
+/**
+ * Сколько вхождений повторяющейся задачи рассчитывается для текущей недели
+ */
+const MAX_PROJECTED_OCCURRENCES = 14;
+
+export interface AgendaOptions {
+	defaultTimeZone: string; // Зона для задач без собственной timeZone
+	timeZone?: string; // Зона для всех задач (перекрывает timeZone задач)
+	weekStart?: WeekStart;
+	includeRecurring?: boolean; // Добавлять будущие вхождения на этой неделе
+	now?: Date;
+}
+
+/**
+ * Границы групп в конкретной временной зоне
+ */
+interface DayBoundaries {
+	today: number;
+	tomorrow: number;
+	dayAfterTomorrow: number;
+	nextWeek: number;
+}
+
+function getBoundaries(
+	now: Date,
+	timeZone: string,
+	weekStart: WeekStart
+): DayBoundaries {
+	const weekday = getZonedDateParts(now, timeZone).weekday;
+	const firstDay = weekStart === "monday" ? 1 : 0;
+	const daysToNextWeek = (firstDay - weekday + 7) % 7 || 7;
+
+	return {
+		today: getZonedDayStart(now, timeZone).getTime(),
+		tomorrow: getZonedDayStart(now, timeZone, 1).getTime(),
+		dayAfterTomorrow: getZonedDayStart(now, timeZone, 2).getTime(),
+		nextWeek: getZonedDayStart(now, timeZone, daysToNextWeek).getTime(),
+	};
+}
+
+function getBucket(time: number, bounds: DayBoundaries): AgendaBucket {
+	if (time < bounds.today) return "overdue";
+	if (time < bounds.tomorrow) return "today";
+	if (time < bounds.dayAfterTomorrow) return "tomorrow";
+	if (time < bounds.nextWeek) return "thisWeek";
+	return "later";
+}
+
+function getTaskDate(task: Pick<Task, "dueDate" | "startDate">) {
+	return task.dueDate || task.startDate || undefined;
+}
+
+/**
+ * Будущие вхождения повторяющейся задачи до конца недели (и не меньше чем до
+ * конца завтрашнего дня), кроме текущего - оно уже представлено самой задачей
+ */
+function projectOccurrences(
+	task: Task,
+	defaultTimeZone: string,
+	bounds: DayBoundaries
+): AgendaItem[] {
+	const ownDate = getTaskDate(task);
+	const ownTime = ownDate ? new Date(ownDate).getTime() : undefined;
+	const horizon = Math.max(bounds.nextWeek, bounds.dayAfterTomorrow);
+
+	let occurrences;
+	try {
+		occurrences = expandTaskOccurrences(task, {
+			from: new Date(bounds.today),
+			limit: MAX_PROJECTED_OCCURRENCES,
+			defaultTimeZone,
+		});
+	} catch {
+		// Неподдерживаемое правило: задача остается в группе по своей дате
+		return [];
+	}
+
+	const items: AgendaItem[] = [];
+	for (const occurrence of occurrences) {
+		const date = getTaskDate(occurrence)!;
+		const time = new Date(date).getTime();
+		if (time >= horizon) {
+			break;
+		}
+		if (ownTime === undefined || time > ownTime) {
+			items.push({
+				task: { ...task, ...occurrence },
+				date,
+				projected: true,
+			});
+		}
+	}
+	return items;
+}
+
+function compareItems(a: AgendaItem, b: AgendaItem): number {
+	if (a.date && b.date && a.date !== b.date) {
+		return new Date(a.date).getTime() - new Date(b.date).getTime();
+	}
+	return (b.task.priority || 0) - (a.task.priority || 0);
+}
+
+/**
+ * Распределить открытые задачи по группам. День задачи определяется по часам
+ * ее временной зоны (или options.timeZone), дата задачи - срок, а если его
+ * нет - дата начала.
+ */
+export function buildAgenda(
+	tasks: Task[],
+	options: AgendaOptions
+): Record<AgendaBucket, AgendaItem[]> {
+	const now = options.now || new Date();
+	const weekStart = options.weekStart || "monday";
+	const boundaries = new Map<string, DayBoundaries>();
+	const agenda = Object.fromEntries(
+		AGENDA_BUCKETS.map((bucket) => [bucket, [] as AgendaItem[]])
+	) as Record<AgendaBucket, AgendaItem[]>;
+
+	for (const task of tasks) {
+		if (task.status === 2) {
+			continue;
+		}
+
+		const date = getTaskDate(task);
+		if (!date) {
+			agenda.noDate.push({ task });
+			continue;
+		}
+
+		const timeZone =
+			options.timeZone ||
+			(task.timeZone && validateTimeZone(task.timeZone)
+				? task.timeZone
+				: options.defaultTimeZone);
+		if (!boundaries.has(timeZone)) {
+			boundaries.set(timeZone, getBoundaries(now, timeZone, weekStart));
+		}
+		const bounds = boundaries.get(timeZone)!;
+
+		agenda[getBucket(new Date(date).getTime(), bounds)].push({ task, date });
+
+		if (options.includeRecurring !== false && task.repeatFlag) {
+			// Правило повторения разворачивается по часам зоны самой задачи
+			const occurrences = projectOccurrences(
+				task,
+				options.defaultTimeZone,
+				bounds
+			);
+			for (const item of occurrences) {
+				agenda[getBucket(new Date(item.date!).getTime(), bounds)].push(item);
+			}
+		}
+	}
+
+	for (const bucket of AGENDA_BUCKETS) {
+		agenda[bucket].sort(compareItems);
+	}
+	return agenda;
+}
@@ -2,6 +2,8 @@
  * Утилиты для работы с датами, временем и часовыми поясами в TickTick API
  */
 
+import { DateOrder, Task, TaskOccurrence } from "../types/ticktick.js";
+
 /**
  * Проверяет, является ли строка валидной датой в формате ISO 8601
  */
@@ -115,11 +117,138 @@ export function validateDateRange(
 	return start.getTime() <= due.getTime();
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Строка заканчивается явным смещением или зоной: "Z", "+03:00", "GMT"
+const EXPLICIT_OFFSET_REGEX = /(?:z|[+-]\d{2}:?\d{2}|gmt|utc)$/i;
+
+export interface DateParseOptions {
+	now?: Date; // Момент отсчета для относительных дат
+	defaultTimeZone?: string; // Зона для относительных дат, если timeZone не указан
+	dateOrder?: DateOrder; // Порядок дня и месяца в DD.MM.YYYY / MM.DD.YYYY, по умолчанию auto
+}
+
+/**
+ * Дата допускает оба прочтения (DD.MM и MM.DD), а порядок не задан
+ */
+export class AmbiguousDateError extends Error {
+	constructor(
+		readonly value: string,
+		readonly readings: { dateOrder: DateOrder; date: string }[]
+	) {
+		super(
+			`Неоднозначная дата ${value}: ${readings
+				.map((reading) => `${reading.date} (${reading.dateOrder})`)
+				.join(
+					" или "
+				)}. Укажите dateOrder ("dmy" или "mdy") или используйте формат YYYY-MM-DD`
+		);
+		this.name = "AmbiguousDateError";
+	}
+}
+
+function isValidCalendarDate(
+	year: number,
+	month: number,
+	day: number
+): boolean {
+	return (
+		month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month)
+	);
+}
+
+/**
+ * Определить день и месяц по политике dateOrder. В режиме auto дата
+ * принимается, только если допустимо одно прочтение (или оба совпадают).
+ */
+function resolveDayMonth(
+	value: string,
+	first: number,
+	second: number,
+	year: number,
+	dateOrder: DateOrder
+): { day: number; month: number } {
+	const dmy = { day: first, month: second };
+	const mdy = { day: second, month: first };
+	const dmyValid = isValidCalendarDate(year, dmy.month, dmy.day);
+	const mdyValid = isValidCalendarDate(year, mdy.month, mdy.day);
+
+	if (dateOrder === "dmy" || dateOrder === "mdy") {
+		const reading = dateOrder === "dmy" ? dmy : mdy;
+		if (!(dateOrder === "dmy" ? dmyValid : mdyValid)) {
+			throw new Error(
+				`Невалидная дата ${value} для порядка ${
+					dateOrder === "dmy" ? "DD.MM.YYYY" : "MM.DD.YYYY"
+				}`
+			);
+		}
+		return reading;
+	}
+
+	if (dmyValid && mdyValid && first !== second) {
+		const format = ({ day, month }: { day: number; month: number }) =>
+			`${year}-${String(month).padStart(2, "0")}-${String(day).padStart(
+				2,
+				"0"
+			)}`;
+		throw new AmbiguousDateError(value, [
+			{ dateOrder: "dmy", date: format(dmy) },
+			{ dateOrder: "mdy", date: format(mdy) },
+		]);
+	}
+	if (dmyValid) {
+		return dmy;
+	}
+	if (mdyValid) {
+		return mdy;
+	}
+	throw new Error(`Невалидная дата: ${value}`);
+}
+
+/**
+ * Преобразует дату и время по часам временной зоны в ISO 8601. Без зоны
+ * время считается UTC.
+ */
+function wallClockToISO8601(
+	value: string,
+	parts: Omit<ZonedDateParts, "weekday">,
+	timeZone: string | undefined
+): string {
+	if (
+		!isValidCalendarDate(parts.year, parts.month, parts.day) ||
+		parts.hour > 23 ||
+		parts.minute > 59 ||
+		parts.second > 59
+	) {
+		throw new Error(`Невалидная дата: ${value}`);
+	}
+
+	return formatDateToISO8601(
+		timeZone
+			? zonedDateTimeToDate(parts, timeZone)
+			: new Date(
+					Date.UTC(
+						parts.year,
+						parts.month - 1,
+						parts.day,
+						parts.hour,
+						parts.minute,
+						parts.second
+					)
+			  )
+	);
+}
+
 /**
  * Пытается распарсить дату из различных форматов
- * и преобразовать в ISO 8601
+ * и преобразовать в ISO 8601. Дата без смещения считается временем по часам
+ * timeZone (или options.defaultTimeZone), а без зоны - временем UTC.
  */
-export function parseAndFormatDate(dateStr: string, timeZone?: string): string {
+export function parseAndFormatDate(
+	dateStr: string,
+	timeZone?: string,
+	options: DateParseOptions = {}
+): string {
 	if (!dateStr) {
 		throw new Error("Дата не может быть пустой");
 	}
@@ -129,54 +258,66 @@ export function parseAndFormatDate(dateStr: string, timeZone?: string): string {
 		return formatDateToISO8601(dateStr);
 	}
 
+	const wallClockZone = timeZone || options.defaultTimeZone;
+
+	// Относительные даты ("tomorrow 3pm", "через 2 дня") считаются по часам
+	// временной зоны задачи
+	const relativeZone = wallClockZone || getHostTimeZone();
+	const relative = parseRelativeDate(dateStr, relativeZone, options.now);
+	if (relative) {
+		return formatDateToISO8601(
+			zonedDateTimeToDate(
+				{
+					...relative,
+					hour: relative.hour ?? 0,
+					minute: relative.minute ?? 0,
+					second: 0,
+				},
+				relativeZone
+			)
+		);
+	}
+
 	// Пытаемся распознать различные форматы дат
 
-	// Формат DD.MM.YYYY или MM.DD.YYYY
-	const dotFormat =
-		/^(\d{1,2})\.(\d{1,2})\.(\d{4})(?:\s+(\d{1,2}):(\d{1,2})(?::(\d{1,2}))?)?$/;
-	const dotMatch = dateStr.match(dotFormat);
+	// Формат DD.MM.YYYY или MM.DD.YYYY (разделители ".", "/" или "-"):
+	// порядок дня и месяца определяется политикой dateOrder
+	const dayMonthFormat =
+		/^(\d{1,2})([./-])(\d{1,2})\2(\d{4})(?:\s+(\d{1,2}):(\d{1,2})(?::(\d{1,2}))?)?$/;
+	const dayMonthMatch = dateStr.match(dayMonthFormat);
 
-	if (dotMatch) {
-		// Определяем, какой формат использован (день.месяц или месяц.день)
-		// Для этого проверяем валидность обоих вариантов
+	if (dayMonthMatch) {
 		const [
 			_,
 			part1,
+			,
 			part2,
 			year,
 			hours = "00",
 			minutes = "00",
 			seconds = "00",
-		] = dotMatch;
+		] = dayMonthMatch;
 
-		// Пробуем как DD.MM.YYYY
-		const dateDMY = new Date(
-			`${year}-${part2}-${part1}T${hours}:${minutes}:${seconds}${
-				timeZone ? "" : "Z"
-			}`
+		const { day, month } = resolveDayMonth(
+			dateStr,
+			parseInt(part1),
+			parseInt(part2),
+			parseInt(year),
+			options.dateOrder || "auto"
 		);
 
-		// Пробуем как MM.DD.YYYY
-		const dateMDY = new Date(
-			`${year}-${part1}-${part2}T${hours}:${minutes}:${seconds}${
-				timeZone ? "" : "Z"
-			}`
+		return wallClockToISO8601(
+			dateStr,
+			{
+				year: parseInt(year),
+				month,
+				day,
+				hour: parseInt(hours),
+				minute: parseInt(minutes),
+				second: parseInt(seconds),
+			},
+			wallClockZone
 		);
-
-		// Выбираем более вероятный вариант (оба валидны - используем MM.DD.YYYY,
-		// так как это стандарт в API)
-		if (!isNaN(dateDMY.getTime()) && !isNaN(dateMDY.getTime())) {
-			// Если обе даты валидны, предпочитаем формат DD.MM.YYYY, если день ≤ 12
-			if (parseInt(part1) <= 12) {
-				return formatDateToISO8601(dateMDY);
-			} else {
-				return formatDateToISO8601(dateDMY);
-			}
-		} else if (!isNaN(dateDMY.getTime())) {
-			return formatDateToISO8601(dateDMY);
-		} else if (!isNaN(dateMDY.getTime())) {
-			return formatDateToISO8601(dateMDY);
-		}
 	}
 
 	// Формат YYYY-MM-DD
@@ -187,32 +328,57 @@ export function parseAndFormatDate(dateStr: string, timeZone?: string): string {
 	if (dashMatch) {
 		const [_, year, month, day, hours = "00", minutes = "00", seconds = "00"] =
 			dashMatch;
-		const date = new Date(
-			`${year}-${month.padStart(2, "0")}-${day.padStart(
-				2,
-				"0"
-			)}T${hours.padStart(2, "0")}:${minutes.padStart(
-				2,
-				"0"
-			)}:${seconds.padStart(2, "0")}${timeZone ? "" : "Z"}`
+		return wallClockToISO8601(
+			dateStr,
+			{
+				year: parseInt(year),
+				month: parseInt(month),
+				day: parseInt(day),
+				hour: parseInt(hours),
+				minute: parseInt(minutes),
+				second: parseInt(seconds),
+			},
+			wallClockZone
 		);
-
-		if (!isNaN(date.getTime())) {
-			return formatDateToISO8601(date);
-		}
 	}
 
 	// Если не удалось распознать формат, пытаемся использовать стандартный парсер
 	const date = new Date(dateStr);
 	if (!isNaN(date.getTime())) {
+		// Стандартный парсер читает время без смещения по часам хоста,
+		// поэтому переносим его на часы временной зоны задачи
+		if (wallClockZone && !EXPLICIT_OFFSET_REGEX.test(dateStr.trim())) {
+			return formatDateToISO8601(
+				zonedDateTimeToDate(
+					{
+						year: date.getFullYear(),
+						month: date.getMonth() + 1,
+						day: date.getDate(),
+						hour: date.getHours(),
+						minute: date.getMinutes(),
+						second: date.getSeconds(),
+					},
+					wallClockZone
+				)
+			);
+		}
 		return formatDateToISO8601(date);
 	}
 
 	throw new Error(`Не удалось распознать формат даты: ${dateStr}`);
 }
 
+// Дни недели RRULE в порядке Date.getDay(): 0=воскресенье
+const RRULE_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// День недели BYDAY с необязательным номером: "MO", "2MO", "-1FR"
+const BYDAY_REGEX = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/;
+
 /**
- * Валидирует правило повторения в формате RRULE
+ * Валидирует правило повторения в формате RRULE. Каждая часть правила
+ * (KEY=VALUE через ";") проверяется целиком. Ключи, которые здесь не
+ * проверяются (BYSETPOS, TT_SKIP и другие), допускаются: такие правила
+ * хранит TickTick.
  */
 export function validateRRule(rrule: string): boolean {
 	if (!rrule || typeof rrule !== "string") {
@@ -224,72 +390,77 @@ export function validateRRule(rrule: string): boolean {
 		return false;
 	}
 
-	// Проверяем наличие обязательного параметра FREQ
-	if (!rrule.includes("FREQ=")) {
+	const params = new Map<string, string>();
+	for (const part of rrule.slice("RRULE:".length).split(";")) {
+		if (!part) {
+			continue;
+		}
+		const match = part.match(/^([A-Z][A-Z0-9_-]*)=([^=]+)$/);
+		if (!match || params.has(match[1])) {
+			return false;
+		}
+		params.set(match[1], match[2]);
+	}
+	const list = (key: string) => params.get(key)?.split(",");
+
+	// Проверяем наличие и поддерживаемые значения FREQ
+	const freq = params.get("FREQ");
+	if (!freq || !["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)) {
 		return false;
 	}
 
-	// Проверяем поддерживаемые значения FREQ
-	const freqMatch = rrule.match(/FREQ=([^;]+)/);
-	if (freqMatch) {
-		const freq = freqMatch[1];
-		if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)) {
+	// INTERVAL и COUNT - целые числа больше 0
+	for (const key of ["INTERVAL", "COUNT"]) {
+		const value = params.get(key);
+		if (value !== undefined && !/^[1-9]\d*$/.test(value)) {
 			return false;
 		}
 	}
 
-	// Проверяем корректность INTERVAL, если он указан
-	const intervalMatch = rrule.match(/INTERVAL=(\d+)/);
-	if (intervalMatch) {
-		const interval = parseInt(intervalMatch[1]);
-		if (isNaN(interval) || interval < 1) {
-			return false;
-		}
+	// Формат UNTIL: YYYYMMDD, YYYYMMDDTHHMMSS или YYYYMMDDTHHMMSSZ
+	const until = params.get("UNTIL");
+	if (until !== undefined && !/^\d{8}(T\d{6}Z?)?$/.test(until)) {
+		return false;
 	}
 
-	// Проверяем корректность COUNT, если он указан
-	const countMatch = rrule.match(/COUNT=(\d+)/);
-	if (countMatch) {
-		const count = parseInt(countMatch[1]);
-		if (isNaN(count) || count < 1) {
+	// Номер дня в BYDAY ("2MO", "-1FR") допустим только для MONTHLY и YEARLY
+	const allowOrdinal = freq === "MONTHLY" || freq === "YEARLY";
+	for (const day of list("BYDAY") || []) {
+		const dayMatch = day.match(BYDAY_REGEX);
+		if (!dayMatch) {
 			return false;
 		}
+		if (dayMatch[1] !== undefined) {
+			const ordinal = parseInt(dayMatch[1]);
+			if (!allowOrdinal || ordinal === 0 || Math.abs(ordinal) > 5) {
+				return false;
+			}
+		}
 	}
 
-	// Проверяем корректность UNTIL, если он указан
-	const untilMatch = rrule.match(/UNTIL=([^;]+)/);
-	if (untilMatch) {
-		const until = untilMatch[1];
-		// Формат UNTIL должен быть YYYYMMDDTHHMMSSZ
-		const untilRegex = /^\d{8}T\d{6}Z$/;
-		if (!untilRegex.test(until)) {
+	// Месяцы от 1 до 12
+	for (const month of list("BYMONTH") || []) {
+		const monthNum = Number(month);
+		if (!/^\d{1,2}$/.test(month) || monthNum < 1 || monthNum > 12) {
 			return false;
 		}
 	}
 
-	// Проверяем корректность BYDAY, если он указан
-	const bydayMatch = rrule.match(/BYDAY=([^;]+)/);
-	if (bydayMatch) {
-		const byday = bydayMatch[1].split(",");
-		const validDays = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
-		for (const day of byday) {
-			// Проверяем, что день недели валидный
-			if (!validDays.includes(day)) {
-				return false;
-			}
-		}
+	const wkst = params.get("WKST");
+	if (wkst !== undefined && !RRULE_WEEKDAYS.includes(wkst)) {
+		return false;
 	}
 
-	// Проверяем корректность BYMONTHDAY, если он указан
-	const bymonthdayMatch = rrule.match(/BYMONTHDAY=([^;]+)/);
-	if (bymonthdayMatch) {
-		const bymonthday = bymonthdayMatch[1].split(",");
-		for (const day of bymonthday) {
-			const dayNum = parseInt(day);
-			// Дни месяца должны быть от -31 до -1 или от 1 до 31
-			if (isNaN(dayNum) || dayNum > 31 || dayNum < -31 || dayNum === 0) {
-				return false;
-			}
+	// Дни месяца должны быть от -31 до -1 или от 1 до 31
+	for (const day of list("BYMONTHDAY") || []) {
+		const dayNum = Number(day);
+		if (
+			!/^-?\d{1,2}$/.test(day) ||
+			dayNum > 31 ||
+			dayNum < -31 ||
+			dayNum === 0
+		) {
+			return false;
 		}
 	}
 
@@ -331,7 +502,43 @@ export function convertDateBetweenTimeZones(
  * Получает смещение часового пояса в миллисекундах для указанной даты
  */
 function getTimeZoneOffset(date: Date, timeZone: string): number {
-	// Форматируем дату в указанном часовом поясе
+	// Получаем компоненты даты в указанном часовом поясе
+	const parts = getZonedDateParts(date, timeZone);
+
+	// Создаем новую дату в UTC на основе компонентов
+	const utcDate = Date.UTC(
+		parts.year,
+		parts.month - 1,
+		parts.day,
+		parts.hour,
+		parts.minute,
+		parts.second
+	);
+
+	// Вычисляем разницу между UTC и локальным временем
+	return date.getTime() - utcDate;
+}
+
+/**
+ * Компоненты даты (по часам в указанной временной зоне)
+ */
+export interface ZonedDateParts {
+	year: number;
+	month: number; // 1-12
+	day: number;
+	hour: number;
+	minute: number;
+	second: number;
+	weekday: number; // 0=воскресенье ... 6=суббота
+}
+
+/**
+ * Получает компоненты даты по часам указанной временной зоны
+ */
+export function getZonedDateParts(
+	date: Date,
+	timeZone: string
+): ZonedDateParts {
 	const formatter = new Intl.DateTimeFormat("en-US", {
 		timeZone,
 		year: "numeric",
@@ -340,30 +547,813 @@ function getTimeZoneOffset(date: Date, timeZone: string): number {
 		hour: "numeric",
 		minute: "numeric",
 		second: "numeric",
-		hour12: false,
+		hourCycle: "h23",
 	});
 
-	// Получаем компоненты даты в указанном часовом поясе
-	const parts = formatter.formatToParts(date);
-
-	// Создаем объект с компонентами даты
-	const dateComponents: Record<string, number> = {};
-	parts.forEach((part) => {
+	const parts: Record<string, number> = {};
+	for (const part of formatter.formatToParts(date)) {
 		if (part.type !== "literal") {
-			dateComponents[part.type] = parseInt(part.value);
+			parts[part.type] = parseInt(part.value);
 		}
-	});
+	}
 
-	// Создаем новую дату в UTC на основе компонентов
-	const utcDate = Date.UTC(
-		dateComponents.year,
-		dateComponents.month - 1,
-		dateComponents.day,
-		dateComponents.hour,
-		dateComponents.minute,
-		dateComponents.second
+	return {
+		year: parts.year,
+		month: parts.month,
+		day: parts.day,
+		hour: parts.hour,
+		minute: parts.minute,
+		second: parts.second,
+		weekday: new Date(
+			Date.UTC(parts.year, parts.month - 1, parts.day)
+		).getUTCDay(),
+	};
+}
+
+/**
+ * Преобразует время по часам временной зоны в момент времени. Переполнение
+ * компонентов допускается (day: 32 - следующий месяц).
+ *
+ * Переходы на летнее время обрабатываются так же, как в приложениях
+ * календаря: несуществующее время (пропущенный час) сдвигается вперед на
+ * величину перехода, а повторяющееся время берется в первом вхождении.
+ */
+export function zonedDateTimeToDate(
+	parts: Omit<ZonedDateParts, "weekday">,
+	timeZone: string
+): Date {
+	const wallClock = Date.UTC(
+		parts.year,
+		parts.month - 1,
+		parts.day,
+		parts.hour,
+		parts.minute,
+		parts.second
 	);
 
-	// Вычисляем разницу между UTC и локальным временем
-	return date.getTime() - utcDate;
+	// Смещения за сутки до и после покрывают любой переход рядом с этим временем
+	const offsetBefore = getTimeZoneOffset(
+		new Date(wallClock - DAY_MS),
+		timeZone
+	);
+	const offsetAfter = getTimeZoneOffset(new Date(wallClock + DAY_MS), timeZone);
+
+	const candidates = [offsetBefore, offsetAfter]
+		.map((offset) => wallClock + offset)
+		.filter(
+			(instant) =>
+				instant - getTimeZoneOffset(new Date(instant), timeZone) === wallClock
+		);
+	if (candidates.length > 0) {
+		return new Date(Math.min(...candidates));
+	}
+
+	// Время попало в пропущенный час: смещение до перехода дает момент после него
+	return new Date(wallClock + offsetBefore);
+}
+
+/**
+ * Начало календарного дня (00:00 по часам временной зоны), в который попадает
+ * date, со сдвигом на days дней
+ */
+export function getZonedDayStart(date: Date, timeZone: string, days = 0): Date {
+	const parts = getZonedDateParts(date, timeZone);
+	return zonedDateTimeToDate(
+		{
+			year: parts.year,
+			month: parts.month,
+			day: parts.day + days,
+			hour: 0,
+			minute: 0,
+			second: 0,
+		},
+		timeZone
+	);
+}
+
+/**
+ * Календарная дата (по часам временной зоны) с необязательным временем
+ */
+export interface RelativeDate {
+	year: number;
+	month: number; // 1-12
+	day: number;
+	hour?: number; // Указаны, если во фразе есть время
+	minute?: number;
+}
+
+type CalendarDate = Pick<RelativeDate, "year" | "month" | "day">;
+
+type DateUnit = "minute" | "hour" | "day" | "week" | "month" | "year";
+
+export const WEEKDAY_NAMES: Record<string, number> = {
+	sunday: 0,
+	sun: 0,
+	monday: 1,
+	mon: 1,
+	tuesday: 2,
+	tue: 2,
+	tues: 2,
+	wednesday: 3,
+	wed: 3,
+	thursday: 4,
+	thu: 4,
+	thur: 4,
+	thurs: 4,
+	friday: 5,
+	fri: 5,
+	saturday: 6,
+	sat: 6,
+	воскресенье: 0,
+	вс: 0,
+	понедельник: 1,
+	пн: 1,
+	вторник: 2,
+	вт: 2,
+	среда: 3,
+	среду: 3,
+	ср: 3,
+	четверг: 4,
+	чт: 4,
+	пятница: 5,
+	пятницу: 5,
+	пт: 5,
+	суббота: 6,
+	субботу: 6,
+	сб: 6,
+};
+
+const DATE_UNITS: Record<string, DateUnit> = {
+	minute: "minute",
+	minutes: "minute",
+	min: "minute",
+	mins: "minute",
+	hour: "hour",
+	hours: "hour",
+	day: "day",
+	days: "day",
+	week: "week",
+	weeks: "week",
+	month: "month",
+	months: "month",
+	year: "year",
+	years: "year",
+	минута: "minute",
+	минуту: "minute",
+	минуты: "minute",
+	минут: "minute",
+	час: "hour",
+	часа: "hour",
+	часов: "hour",
+	день: "day",
+	дня: "day",
+	дней: "day",
+	неделя: "week",
+	неделю: "week",
+	недели: "week",
+	недель: "week",
+	месяц: "month",
+	месяца: "month",
+	месяцев: "month",
+	год: "year",
+	года: "year",
+	лет: "year",
+};
+
+const ONE_WORDS = ["a", "an", "one", "один", "одну", "одна"];
+
+const FIXED_OFFSETS: Record<string, number> = {
+	today: 0,
+	сегодня: 0,
+	tomorrow: 1,
+	завтра: 1,
+	"day after tomorrow": 2,
+	послезавтра: 2,
+	yesterday: -1,
+	вчера: -1,
+	"day before yesterday": -2,
+	позавчера: -2,
+};
+
+function shiftDays(date: CalendarDate, days: number): CalendarDate {
+	const shifted = new Date(
+		Date.UTC(date.year, date.month - 1, date.day + days)
+	);
+	return {
+		year: shifted.getUTCFullYear(),
+		month: shifted.getUTCMonth() + 1,
+		day: shifted.getUTCDate(),
+	};
+}
+
+function daysInMonth(year: number, month: number): number {
+	return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Сдвиг на месяцы: 31 января + 1 месяц = последний день февраля
+ */
+function shiftMonths(date: CalendarDate, months: number): CalendarDate {
+	const index = date.year * 12 + (date.month - 1) + months;
+	const year = Math.floor(index / 12);
+	const month = (index % 12) + 1;
+	return { year, month, day: Math.min(date.day, daysInMonth(year, month)) };
+}
+
+function weekdayOfDate(date: CalendarDate): number {
+	return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+/**
+ * Разобрать фразу без времени: "tomorrow", "next friday", "in 3 days",
+ * "end of month", "через 2 дня", "в пятницу", "конец месяца"
+ */
+function resolveDatePhrase(
+	phrase: string,
+	now: Date,
+	timeZone: string
+): RelativeDate | undefined {
+	const zonedNow = getZonedDateParts(now, timeZone);
+	const today: CalendarDate = {
+		year: zonedNow.year,
+		month: zonedNow.month,
+		day: zonedNow.day,
+	};
+
+	if (phrase in FIXED_OFFSETS) {
+		return shiftDays(today, FIXED_OFFSETS[phrase]);
+	}
+
+	// Начало и конец периодов
+	if (/^(next week|на следующей неделе|следующая неделя)$/.test(phrase)) {
+		return shiftDays(today, (8 - weekdayOfDate(today)) % 7 || 7);
+	}
+	if (/^(next month|в следующем месяце|следующий месяц)$/.test(phrase)) {
+		return shiftMonths({ ...today, day: 1 }, 1);
+	}
+	if (/^(next year|в следующем году|следующий год)$/.test(phrase)) {
+		return { year: today.year + 1, month: 1, day: 1 };
+	}
+
+	const end = phrase.match(
+		/^(?:(?:by |at )?(?:the )?end of (?:the |this )?|(?:в |к )?(?:конец|конце|концу) )(week|month|year|недели|месяца|года)$/
+	);
+	if (end) {
+		const unit = DATE_UNITS[end[1]];
+		if (unit === "week") {
+			// Неделя заканчивается в воскресенье
+			return shiftDays(today, (7 - weekdayOfDate(today)) % 7);
+		}
+		if (unit === "month") {
+			return { ...today, day: daysInMonth(today.year, today.month) };
+		}
+		return { year: today.year, month: 12, day: 31 };
+	}
+
+	// Сдвиг на N единиц вперед или назад
+	const shift =
+		phrase.match(/^(?:in|через) (?:(\d+|[a-zа-я]+) )?([a-zа-я]+)$/) ||
+		phrase.match(/^(\d+|[a-zа-я]+) ([a-zа-я]+) (ago|назад)$/);
+	if (shift && DATE_UNITS[shift[2]]) {
+		const amountWord = shift[1];
+		const amount =
+			amountWord === undefined || ONE_WORDS.includes(amountWord)
+				? 1
+				: /^\d+$/.test(amountWord)
+				? parseInt(amountWord)
+				: NaN;
+		if (isNaN(amount)) {
+			return undefined;
+		}
+		const sign = shift[3] ? -1 : 1;
+		const unit = DATE_UNITS[shift[2]];
+
+		if (unit === "minute" || unit === "hour") {
+			const instant = new Date(
+				now.getTime() + sign * amount * (unit === "hour" ? 3600000 : 60000)
+			);
+			const parts = getZonedDateParts(instant, timeZone);
+			return {
+				year: parts.year,
+				month: parts.month,
+				day: parts.day,
+				hour: parts.hour,
+				minute: parts.minute,
+			};
+		}
+		if (unit === "day" || unit === "week") {
+			return shiftDays(today, sign * amount * (unit === "week" ? 7 : 1));
+		}
+		return shiftMonths(today, sign * amount * (unit === "year" ? 12 : 1));
+	}
+
+	// Дни недели: "friday", "on friday", "в пятницу" - ближайший, включая
+	// сегодня; "next friday", "в следующую пятницу" - ближайший после сегодня
+	const weekday = phrase.match(
+		/^(?:(on|this|в|во)\s+)?(?:(next|следующ(?:ий|ую|ее))\s+)?([a-zа-я]+)$/
+	);
+	if (weekday && weekday[3] in WEEKDAY_NAMES) {
+		let days = (WEEKDAY_NAMES[weekday[3]] - weekdayOfDate(today) + 7) % 7;
+		if (weekday[2] && days === 0) {
+			days = 7;
+		}
+		return shiftDays(today, days);
+	}
+
+	return undefined;
+}
+
+/**
+ * Разобрать время: "3pm", "15:00", "9:30 am", "9 вечера"
+ */
+function parseTimeOfDay(
+	value: string
+): { hour: number; minute: number } | undefined {
+	const match = value.match(
+		/^(\d{1,2})(?::(\d{2}))?\s*(am|pm|утра|дня|вечера|ночи)?$/
+	);
+	if (!match) {
+		return undefined;
+	}
+
+	let hour = parseInt(match[1]);
+	const minute = match[2] ? parseInt(match[2]) : 0;
+	const period = match[3];
+	if (period) {
+		if (hour < 1 || hour > 12) {
+			return undefined;
+		}
+		if (period === "am" || period === "ночи" || period === "утра") {
+			hour = hour % 12;
+		} else {
+			hour = (hour % 12) + 12;
+		}
+	}
+
+	return hour <= 23 && minute <= 59 ? { hour, minute } : undefined;
+}
+
+/**
+ * Разобрать относительную дату на английском или русском ("tomorrow 3pm",
+ * "next friday", "in 3 days", "end of month", "через 2 дня", "завтра в 15:00").
+ * Дата считается по часам указанной временной зоны относительно now.
+ * Возвращает undefined, если фраза не распознана.
+ */
+export function parseRelativeDate(
+	input: string,
+	timeZone: string,
+	now: Date = new Date()
+): RelativeDate | undefined {
+	const phrase = input
+		.trim()
+		.toLowerCase()
+		.replace(/ё/g, "е")
+		.replace(/[.,]+$/, "")
+		.replace(/\s+/g, " ");
+	if (!phrase) {
+		return undefined;
+	}
+
+	const date = resolveDatePhrase(phrase, now, timeZone);
+	if (date) {
+		return date;
+	}
+
+	// Фраза с временем: "<дата> [at|в] <время>" или только время
+	const withTime = phrase.match(
+		/^(?:(.*) )?(\d{1,2}(?::\d{2})?(?: ?(?:am|pm|утра|дня|вечера|ночи))?)$/
+	);
+	if (!withTime) {
+		return undefined;
+	}
+
+	const timeText = withTime[2];
+	const prefixMatch = (withTime[1] || "").match(/^(?:(.*) )?(at|в)$/);
+	const datePhrase = prefixMatch ? prefixMatch[1] : withTime[1];
+	// Голое число без двоеточия и am/pm считается временем только после at/в
+	if (!prefixMatch && /^\d{1,2}$/.test(timeText)) {
+		return undefined;
+	}
+
+	const time = parseTimeOfDay(timeText.replace(" ", ""));
+	if (!time) {
+		return undefined;
+	}
+
+	const day = datePhrase
+		? resolveDatePhrase(datePhrase, now, timeZone)
+		: resolveDatePhrase("today", now, timeZone);
+	if (!day || day.hour !== undefined) {
+		return undefined;
+	}
+
+	return { ...day, ...time };
+}
+
+/**
+ * Временная зона хоста, на котором запущен сервер
+ */
+export function getHostTimeZone(): string {
+	return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export type RRuleFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+/**
+ * День недели из BYDAY: "MO", "2MO" (второй понедельник), "-1FR" (последняя пятница)
+ */
+export interface RRuleWeekday {
+	weekday: number; // 0=воскресенье ... 6=суббота
+	ordinal?: number;
+}
+
+/**
+ * Разобранное правило повторения (поддерживаемое подмножество RFC 5545)
+ */
+export interface ParsedRRule {
+	freq: RRuleFrequency;
+	interval: number;
+	count?: number;
+	until?: string; // Как в правиле: YYYYMMDD, YYYYMMDDTHHMMSS или YYYYMMDDTHHMMSSZ
+	byDay?: RRuleWeekday[];
+	byMonthDay?: number[];
+	byMonth?: number[];
+	weekStart: number; // WKST, по умолчанию понедельник
+}
+
+export interface RRuleExpandOptions {
+	start: Date; // DTSTART: дата и время первого вхождения
+	timeZone: string; // Зона, по часам которой повторяется время начала
+	from?: Date; // Вернуть вхождения не раньше этого момента (по умолчанию start)
+	limit: number;
+}
+
+// Параметры правила, которые учитывает разворачивание
+const SUPPORTED_RRULE_KEYS = [
+	"FREQ",
+	"INTERVAL",
+	"COUNT",
+	"UNTIL",
+	"BYDAY",
+	"BYMONTHDAY",
+	"BYMONTH",
+	"WKST",
+];
+
+// Ограничение перебора периодов для правил, которые почти не дают вхождений
+const MAX_RRULE_PERIODS = 100000;
+
+/**
+ * Разобрать правило повторения. Расширения TickTick (TT_*) и X-* ключи
+ * не влияют на даты вхождений и пропускаются.
+ * @throws {Error} Если правило невалидно или содержит ключи, которые
+ * разворачивание не поддерживает (BYSETPOS, BYHOUR и т.п.)
+ */
+export function parseRRule(rrule: string): ParsedRRule {
+	if (!validateRRule(rrule)) {
+		throw new Error(`Неподдерживаемое правило повторения: ${rrule}`);
+	}
+
+	const params = new Map(
+		rrule
+			.slice("RRULE:".length)
+			.split(";")
+			.filter(Boolean)
+			.map((part) => part.split("=") as [string, string])
+			.filter(([key]) => !/^(TT_|X-)/.test(key))
+	);
+	const unsupported = [...params.keys()].filter(
+		(key) => !SUPPORTED_RRULE_KEYS.includes(key)
+	);
+	if (unsupported.length > 0) {
+		throw new Error(
+			`Неподдерживаемые параметры правила повторения (${unsupported.join(
+				", "
+			)}): ${rrule}`
+		);
+	}
+	const list = (key: string) => params.get(key)?.split(",");
+
+	return {
+		freq: params.get("FREQ") as RRuleFrequency,
+		interval: params.has("INTERVAL") ? Number(params.get("INTERVAL")) : 1,
+		count: params.has("COUNT") ? Number(params.get("COUNT")) : undefined,
+		until: params.get("UNTIL"),
+		byDay: list("BYDAY")?.map((day) => {
+			const [, ordinal, code] = day.match(BYDAY_REGEX)!;
+			return {
+				weekday: RRULE_WEEKDAYS.indexOf(code),
+				ordinal: ordinal !== undefined ? parseInt(ordinal) : undefined,
+			};
+		}),
+		byMonthDay: list("BYMONTHDAY")?.map(Number),
+		byMonth: list("BYMONTH")?.map(Number),
+		weekStart: params.has("WKST")
+			? RRULE_WEEKDAYS.indexOf(params.get("WKST")!)
+			: 1,
+	};
+}
+
+/**
+ * Последний момент, входящий в UNTIL. Дата без времени включает весь день,
+ * время без "Z" считается по часам временной зоны.
+ */
+function resolveUntil(until: string, timeZone: string): number {
+	const [, year, month, day, hour, minute, second, utc] = until.match(
+		/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/
+	)!;
+	const date = {
+		year: Number(year),
+		month: Number(month),
+		day: Number(day),
+	};
+
+	if (hour === undefined) {
+		return (
+			zonedDateTimeToDate(
+				{ ...shiftDays(date, 1), hour: 0, minute: 0, second: 0 },
+				timeZone
+			).getTime() - 1
+		);
+	}
+
+	const time = {
+		hour: Number(hour),
+		minute: Number(minute),
+		second: Number(second),
+	};
+	return utc
+		? Date.UTC(
+				date.year,
+				date.month - 1,
+				date.day,
+				time.hour,
+				time.minute,
+				time.second
+		  )
+		: zonedDateTimeToDate({ ...date, ...time }, timeZone).getTime();
+}
+
+function matchesMonthDay(date: CalendarDate, monthDays: number[]): boolean {
+	const length = daysInMonth(date.year, date.month);
+	return monthDays.some(
+		(day) => (day > 0 ? day : length + day + 1) === date.day
+	);
+}
+
+/**
+ * Дни месяца, подходящие под BYMONTHDAY и BYDAY (при обоих - пересечение).
+ * Без них - день DTSTART, если он есть в этом месяце.
+ */
+function getMonthDays(
+	rule: ParsedRRule,
+	year: number,
+	month: number,
+	defaultDay: number
+): number[] {
+	const length = daysInMonth(year, month);
+	let days: number[] | undefined;
+
+	if (rule.byMonthDay) {
+		days = rule.byMonthDay
+			.map((day) => (day > 0 ? day : length + day + 1))
+			.filter((day) => day >= 1 && day <= length);
+	}
+
+	if (rule.byDay) {
+		const firstWeekday = weekdayOfDate({ year, month, day: 1 });
+		const weekdayDays = rule.byDay.flatMap(({ weekday, ordinal }) => {
+			const all: number[] = [];
+			for (
+				let day = 1 + ((weekday - firstWeekday + 7) % 7);
+				day <= length;
+				day += 7
+			) {
+				all.push(day);
+			}
+			if (ordinal === undefined) {
+				return all;
+			}
+			const day = ordinal > 0 ? all[ordinal - 1] : all[all.length + ordinal];
+			return day !== undefined ? [day] : [];
+		});
+		days = days ? days.filter((day) => weekdayDays.includes(day)) : weekdayDays;
+	}
+
+	if (!days) {
+		days = defaultDay <= length ? [defaultDay] : [];
+	}
+
+	return [...new Set(days)].sort((a, b) => a - b);
+}
+
+/**
+ * Календарные дни вхождений в периоде с номером period (день, неделя, месяц
+ * или год, считая от периода DTSTART с шагом INTERVAL), по возрастанию
+ */
+function getPeriodDates(
+	rule: ParsedRRule,
+	anchor: CalendarDate,
+	period: number
+): CalendarDate[] {
+	const step = period * rule.interval;
+	const inMonths = (date: CalendarDate) =>
+		!rule.byMonth || rule.byMonth.includes(date.month);
+
+	switch (rule.freq) {
+		case "DAILY": {
+			const date = shiftDays(anchor, step);
+			const matches =
+				inMonths(date) &&
+				(!rule.byMonthDay || matchesMonthDay(date, rule.byMonthDay)) &&
+				(!rule.byDay ||
+					rule.byDay.some(({ weekday }) => weekday === weekdayOfDate(date)));
+			return matches ? [date] : [];
+		}
+		case "WEEKLY": {
+			const weekStart = shiftDays(
+				anchor,
+				step * 7 - ((weekdayOfDate(anchor) - rule.weekStart + 7) % 7)
+			);
+			const weekdays = rule.byDay?.map(({ weekday }) => weekday) || [
+				weekdayOfDate(anchor),
+			];
+			return Array.from({ length: 7 }, (_, i) =>
+				shiftDays(weekStart, i)
+			).filter(
+				(date) => inMonths(date) && weekdays.includes(weekdayOfDate(date))
+			);
+		}
+		case "MONTHLY": {
+			const date = shiftMonths({ ...anchor, day: 1 }, step);
+			if (!inMonths(date)) {
+				return [];
+			}
+			return getMonthDays(rule, date.year, date.month, anchor.day).map(
+				(day) => ({ ...date, day })
+			);
+		}
+		case "YEARLY": {
+			const year = anchor.year + step;
+			return (
+				rule.byMonth ? [...rule.byMonth].sort((a, b) => a - b) : [anchor.month]
+			).flatMap((month) =>
+				getMonthDays(rule, year, month, anchor.day).map((day) => ({
+					year,
+					month,
+					day,
+				}))
+			);
+		}
+	}
+}
+
+/**
+ * Номер периода, с которого можно начинать перебор, чтобы не проходить все
+ * периоды от DTSTART до from (только для правил без COUNT)
+ */
+function getFirstPeriod(
+	rule: ParsedRRule,
+	anchor: CalendarDate,
+	from: CalendarDate
+): number {
+	const days =
+		(Date.UTC(from.year, from.month - 1, from.day) -
+			Date.UTC(anchor.year, anchor.month - 1, anchor.day)) /
+		DAY_MS;
+	const months = (from.year - anchor.year) * 12 + (from.month - anchor.month);
+	const units = {
+		DAILY: days,
+		WEEKLY: days / 7,
+		MONTHLY: months,
+		YEARLY: from.year - anchor.year,
+	}[rule.freq];
+
+	return Math.max(0, Math.floor(units / rule.interval) - 1);
+}
+
+/**
+ * Развернуть правило повторения: ближайшие вхождения начиная с options.from.
+ * Время начала повторяется по часам временной зоны, поэтому переход на
+ * летнее время не сдвигает задачу. Поддерживаются FREQ (DAILY, WEEKLY,
+ * MONTHLY, YEARLY), INTERVAL, COUNT, UNTIL, BYDAY (в том числе "2MO",
+ * "-1FR"), BYMONTHDAY, BYMONTH и WKST. Для YEARLY без BYMONTH вхождения
+ * ищутся в месяце DTSTART.
+ */
+export function expandRRule(
+	rrule: string | ParsedRRule,
+	options: RRuleExpandOptions
+): Date[] {
+	const rule = typeof rrule === "string" ? parseRRule(rrule) : rrule;
+	const { timeZone, limit } = options;
+	const anchor = getZonedDateParts(options.start, timeZone);
+	const startTime = Math.floor(options.start.getTime() / 1000) * 1000;
+	const fromTime = options.from ? options.from.getTime() : startTime;
+	const untilTime = rule.until ? resolveUntil(rule.until, timeZone) : Infinity;
+
+	const result: Date[] = [];
+	let produced = 0;
+	let period =
+		rule.count === undefined && fromTime > startTime
+			? getFirstPeriod(
+					rule,
+					anchor,
+					getZonedDateParts(new Date(fromTime), timeZone)
+			  )
+			: 0;
+
+	for (let checked = 0; checked < MAX_RRULE_PERIODS; checked++, period++) {
+		for (const date of getPeriodDates(rule, anchor, period)) {
+			const instant = zonedDateTimeToDate(
+				{
+					...date,
+					hour: anchor.hour,
+					minute: anchor.minute,
+					second: anchor.second,
+				},
+				timeZone
+			).getTime();
+
+			if (instant < startTime) {
+				continue;
+			}
+			if (instant > untilTime) {
+				return result;
+			}
+
+			produced++;
+			if (instant >= fromTime) {
+				result.push(new Date(instant));
+				if (result.length >= limit) {
+					return result;
+				}
+			}
+			if (rule.count !== undefined && produced >= rule.count) {
+				return result;
+			}
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Ближайшие вхождения повторяющейся задачи. Правило отсчитывается от startDate
+ * (или dueDate, если даты начала нет) по часам временной зоны задачи, а срок
+ * каждого вхождения сохраняет расстояние от начала до срока исходной задачи.
+ * @throws {Error} Если задача не повторяется или правило не поддерживается
+ */
+export function expandTaskOccurrences(
+	task: Pick<Task, "repeatFlag" | "startDate" | "dueDate" | "timeZone">,
+	options: { from?: Date; limit: number; defaultTimeZone?: string }
+): TaskOccurrence[] {
+	if (!task.repeatFlag) {
+		throw new Error("Задача не повторяется");
+	}
+
+	const anchorDate = task.startDate || task.dueDate;
+	if (!anchorDate) {
+		throw new Error("У повторяющейся задачи нет даты начала или срока");
+	}
+
+	const timeZone = task.timeZone || options.defaultTimeZone || "UTC";
+	const start = new Date(anchorDate);
+	const starts = expandRRule(task.repeatFlag, {
+		start,
+		timeZone,
+		from: options.from,
+		limit: options.limit,
+	});
+
+	if (!task.startDate) {
+		return starts.map((date) => ({ dueDate: formatDateToISO8601(date) }));
+	}
+
+	// Срок переносится в календарных днях и времени по часам зоны, а не
+	// в миллисекундах: иначе на переходе на летнее время он сдвинулся бы на час
+	const due = task.dueDate
+		? getZonedDateParts(new Date(task.dueDate), timeZone)
+		: undefined;
+	const startParts = getZonedDateParts(start, timeZone);
+	const dueDays = due
+		? (Date.UTC(due.year, due.month - 1, due.day) -
+				Date.UTC(startParts.year, startParts.month - 1, startParts.day)) /
+		  DAY_MS
+		: 0;
+
+	return starts.map((date) => {
+		const occurrence: TaskOccurrence = {
+			startDate: formatDateToISO8601(date),
+		};
+		if (due) {
+			const day = shiftDays(getZonedDateParts(date, timeZone), dueDays);
+			occurrence.dueDate = formatDateToISO8601(
+				zonedDateTimeToDate(
+					{ ...day, hour: due.hour, minute: due.minute, second: due.second },
+					timeZone
+				)
+			);
+		}
+		return occurrence;
+	});
 }
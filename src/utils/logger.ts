@@ -0,0 +1,205 @@
+/**
+ * Логирование сервера: уровни, вывод в stderr или файл (текст или JSON),
+ * контекст запроса и отправка MCP уведомлений notifications/message
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import fs from "fs";
+import { inspect } from "util";
+import { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+
+export type LogLevel = LoggingLevel;
+
+export type LogFormat = "text" | "json";
+
+export interface LoggingConfig {
+	level?: LogLevel;
+	format?: LogFormat;
+	file?: string; // Если не указан, логи пишутся в stderr
+}
+
+/**
+ * Получатель логов в виде MCP уведомлений (одна MCP сессия)
+ */
+export interface McpLogSink {
+	level?: LogLevel; // Уровень, установленный клиентом через logging/setLevel
+	isConnected(): boolean;
+	send(params: {
+		level: LogLevel;
+		logger: string;
+		data: unknown;
+	}): Promise<void>;
+}
+
+export interface LogContext {
+	requestId?: string | number;
+	sessionId?: string;
+	tool?: string;
+	sink?: McpLogSink;
+}
+
+export const LOG_LEVELS: LogLevel[] = [
+	"debug",
+	"info",
+	"notice",
+	"warning",
+	"error",
+	"critical",
+	"alert",
+	"emergency",
+];
+
+const logContextStorage = new AsyncLocalStorage<LogContext>();
+const mcpSinks = new Set<McpLogSink>();
+
+let minLevel: LogLevel = "info";
+let format: LogFormat = "text";
+let output: NodeJS.WritableStream = process.stderr;
+
+/**
+ * Проверяет, что строка является уровнем логирования MCP
+ */
+export function isLogLevel(value: string): value is LogLevel {
+	return (LOG_LEVELS as string[]).includes(value);
+}
+
+function isLevelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+	return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Настроить логирование. stdout никогда не используется: в stdio режиме
+ * он занят JSON-RPC протоколом.
+ */
+export function configureLogging(config: LoggingConfig = {}): void {
+	minLevel = config.level || "info";
+	format = config.format || "text";
+
+	if (output !== process.stderr) {
+		(output as fs.WriteStream).end();
+	}
+	output = config.file
+		? fs.createWriteStream(config.file, { flags: "a" })
+		: process.stderr;
+}
+
+export function getLogLevel(): LogLevel {
+	return minLevel;
+}
+
+/**
+ * Выполнить функцию с контекстом запроса: все логи внутри получат requestId и
+ * будут отправлены в MCP сессию запроса
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+	return logContextStorage.run(context, fn);
+}
+
+/**
+ * Зарегистрировать MCP сессию как получателя логов вне контекста запроса.
+ * Регистрировать можно только сессию, которой разрешено видеть все логи
+ * сервера. Возвращает функцию отписки.
+ */
+export function registerMcpLogSink(sink: McpLogSink): () => void {
+	mcpSinks.add(sink);
+	return () => {
+		mcpSinks.delete(sink);
+	};
+}
+
+/**
+ * Привести аргументы логов к виду, пригодному для JSON
+ */
+function serializeArg(arg: unknown): unknown {
+	if (arg instanceof Error) {
+		const error = arg as Error & { code?: unknown; details?: unknown };
+		return {
+			name: error.name,
+			message: error.message,
+			code: error.code,
+			details: error.details,
+			stack: error.stack,
+		};
+	}
+	return arg;
+}
+
+function write(
+	level: LogLevel,
+	logger: string,
+	message: string,
+	args: unknown[]
+): void {
+	const context = logContextStorage.getStore();
+	const data = args.filter((arg) => arg !== undefined).map(serializeArg);
+
+	if (isLevelEnabled(level, minLevel)) {
+		let line: string;
+		if (format === "json") {
+			line = JSON.stringify({
+				timestamp: new Date().toISOString(),
+				level,
+				logger,
+				message,
+				requestId: context?.requestId,
+				sessionId: context?.sessionId,
+				tool: context?.tool,
+				data: data.length > 0 ? data : undefined,
+			});
+		} else {
+			const requestTag =
+				context?.requestId !== undefined ? ` [req:${context.requestId}]` : "";
+			const details = data
+				.map((arg) =>
+					typeof arg === "string" ? arg : inspect(arg, { depth: 4 })
+				)
+				.join(" ");
+			line = `${new Date().toISOString()} ${level.toUpperCase()} [${logger}]${requestTag} ${message}${
+				details ? ` ${details}` : ""
+			}`;
+		}
+		output.write(line + "\n");
+	}
+
+	// Логи внутри запроса уходят только в его сессию, остальные - в
+	// зарегистрированные сессии (только stdio, см. registerMcpLogSink)
+	const sinks = context?.sink ? [context.sink] : [...mcpSinks];
+	for (const sink of sinks) {
+		if (!sink.isConnected() || !isLevelEnabled(level, sink.level || minLevel)) {
+			continue;
+		}
+		sink
+			.send({
+				level,
+				logger,
+				data: {
+					message,
+					requestId: context?.requestId,
+					details: data.length > 0 ? data : undefined,
+				},
+			})
+			.catch(() => {
+				// Ошибки отправки уведомлений не логируем, чтобы не зациклиться
+			});
+	}
+}
+
+export class Logger {
+	constructor(private context: string) {}
+
+	debug(message: string, ...args: any[]) {
+		write("debug", this.context, message, args);
+	}
+
+	log(message: string, ...args: any[]) {
+		write("info", this.context, message, args);
+	}
+
+	warn(message: string, ...args: any[]) {
+		write("warning", this.context, message, args);
+	}
+
+	error(message: string, error?: any) {
+		write("error", this.context, message, [error]);
+	}
+}
@@ -0,0 +1,520 @@
+/**
+ * Разбор быстрого ввода задачи в стиле TickTick:
+ * "Call vendor tomorrow 3pm !high ^Work #billing every monday remind 30m before"
+ */
+
+import {
+	Project,
+	Priority,
+	PRIORITY_MAP,
+	QuickAddParseResult,
+	QuickAddToken,
+	TickTickValidationError,
+} from "../types/ticktick.js";
+import {
+	expandRRule,
+	formatDateToISO8601,
+	getZonedDateParts,
+	parseRRule,
+	parseRelativeDate,
+	zonedDateTimeToDate,
+} from "./date-utils.js";
+import { buildRRule, parseRecurrenceText } from "./recurrence.js";
+import { parseReminder } from "./reminders.js";
+
+export interface QuickAddOptions {
+	projects: Project[]; // Проекты для разрешения ^Название
+	timeZone: string; // Зона, в которой понимаются "сегодня" и время
+	now?: Date;
+}
+
+interface Word {
+	text: string;
+	lower: string;
+	literal: boolean; // Текст в кавычках не разбирается
+	exact?: boolean; // ^"Название" - проект только с этим названием целиком
+}
+
+interface Match {
+	length: number; // Сколько слов поглощено
+	kind: QuickAddToken["kind"];
+	setsTime?: boolean; // Дата с временем ("tomorrow 3pm") задает и время
+	apply: (state: ParseState) => void;
+}
+
+/**
+ * Сколько слов подряд проверяется как одна фраза даты ("day after tomorrow at 3pm")
+ */
+const MAX_DATE_PHRASE_WORDS = 6;
+
+/**
+ * Сколько слов проверяется как одна фраза повторения
+ * ("every 2 weeks on mon and thu until june 15")
+ */
+const MAX_REPEAT_PHRASE_WORDS = 12;
+
+/**
+ * Сколько слов после remind проверяется как напоминание ("at 9am the day before")
+ */
+const MAX_REMINDER_PHRASE_WORDS = 5;
+
+interface ParseState {
+	date?: { year: number; month: number; day: number };
+	time?: { hour: number; minute: number };
+	priority?: number;
+	project?: Project;
+	tags: string[];
+	repeat?: string;
+	reminders: string[];
+}
+
+const PRIORITY_ALIASES: Record<string, Priority> = {
+	med: "medium",
+	hi: "high",
+	lo: "low",
+};
+
+function tokenize(input: string): Word[] {
+	return (input.match(/\^"[^"]*"|"[^"]*"|\S+/g) || []).map((text) => {
+		if (/^\^"[^"]*"$/.test(text)) {
+			const value = `^${text.slice(2, -1)}`;
+			return {
+				text: value,
+				lower: value.toLowerCase(),
+				literal: false,
+				exact: true,
+			};
+		}
+		const literal =
+			text.length > 1 && text.startsWith('"') && text.endsWith('"');
+		const value = literal ? text.slice(1, -1) : text;
+		return { text: value, lower: value.toLowerCase(), literal };
+	});
+}
+
+/**
+ * Сколько слов, начиная с start, можно проверить как одну фразу: фраза не
+ * заходит в текст в кавычках
+ */
+function countPhraseWords(
+	words: Word[],
+	start: number,
+	maxWords: number
+): number {
+	let length = 0;
+	while (
+		length < maxWords &&
+		start + length < words.length &&
+		!words[start + length].literal &&
+		!words[start + length].exact
+	) {
+		length++;
+	}
+	return length;
+}
+
+function joinWords(words: Word[], start: number, length: number): string {
+	return words
+		.slice(start, start + length)
+		.map((word) => word.text)
+		.join(" ");
+}
+
+/**
+ * Результат разбора или undefined, если фраза не распознана
+ */
+function tryParse<T>(parse: () => T): T | undefined {
+	try {
+		return parse();
+	} catch (error) {
+		if (error instanceof TickTickValidationError) {
+			return undefined;
+		}
+		throw error;
+	}
+}
+
+function addDays(
+	date: { year: number; month: number; day: number },
+	days: number
+): { year: number; month: number; day: number } {
+	const shifted = new Date(
+		Date.UTC(date.year, date.month - 1, date.day + days)
+	);
+	return {
+		year: shifted.getUTCFullYear(),
+		month: shifted.getUTCMonth() + 1,
+		day: shifted.getUTCDate(),
+	};
+}
+
+/**
+ * Разрешить ^Название проекта: выбирается самое длинное совпадение по словам.
+ * ^"Название" сравнивается только целиком.
+ */
+function matchProject(
+	words: Word[],
+	start: number,
+	projects: Project[]
+): Match {
+	const first = words[start].text.slice(1);
+	const maxLength = words[start].exact ? 1 : words.length - start;
+	for (let length = maxLength; length >= 1; length--) {
+		const name = [
+			first,
+			...words.slice(start + 1, start + length).map((w) => w.text),
+		]
+			.join(" ")
+			.toLowerCase();
+		const project = projects.find(
+			(project) => project.name.trim().toLowerCase() === name
+		);
+		if (project) {
+			return {
+				length,
+				kind: "project",
+				apply: (state) => (state.project = project),
+			};
+		}
+	}
+
+	throw new TickTickValidationError(
+		`Проект "${first}" не найден. Доступные проекты: ${
+			projects.map((project) => project.name).join(", ") || "нет"
+		}`,
+		{ field: "project", value: first }
+	);
+}
+
+/**
+ * Повторение: самая длинная фраза, которую принимает parseRecurrenceText
+ * ("daily", "every month on the 1st", "каждую пятницу до июня")
+ */
+function matchRepeat(
+	words: Word[],
+	start: number,
+	timeZone: string,
+	now: Date
+): Match | undefined {
+	const maxLength = countPhraseWords(words, start, MAX_REPEAT_PHRASE_WORDS);
+	for (let length = maxLength; length >= 1; length--) {
+		const rrule = tryParse(() => {
+			const options = { timeZone, now };
+			return buildRRule(
+				parseRecurrenceText(joinWords(words, start, length), options),
+				options
+			);
+		});
+		if (rrule) {
+			return {
+				length,
+				kind: "repeat",
+				apply: (state) => (state.repeat = rrule),
+			};
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Напоминание: remind и самая длинная фраза после него, которую принимает
+ * parseReminder ("remind 30m before", "remind at 9am", "remind on time")
+ */
+function matchReminder(words: Word[], start: number): Match | undefined {
+	if (words[start].lower !== "remind") {
+		return undefined;
+	}
+
+	const maxLength = countPhraseWords(
+		words,
+		start + 1,
+		MAX_REMINDER_PHRASE_WORDS
+	);
+	for (let length = maxLength; length >= 1; length--) {
+		const trigger = tryParse(() =>
+			parseReminder(joinWords(words, start + 1, length))
+		);
+		if (trigger) {
+			return {
+				length: length + 1,
+				kind: "reminder",
+				apply: (state) => state.reminders.push(trigger),
+			};
+		}
+	}
+
+	return undefined;
+}
+
+function matchDate(
+	words: Word[],
+	start: number,
+	timeZone: string,
+	now: Date
+): Match | undefined {
+	const iso = words[start].lower.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (iso) {
+		const date = {
+			year: parseInt(iso[1]),
+			month: parseInt(iso[2]),
+			day: parseInt(iso[3]),
+		};
+		const check = addDays(date, 0);
+		if (check.month !== date.month || check.day !== date.day) {
+			throw new TickTickValidationError(
+				`Невалидная дата: ${words[start].text}`,
+				{ field: "date", value: words[start].text }
+			);
+		}
+		return { length: 1, kind: "date", apply: (state) => (state.date = date) };
+	}
+
+	// Относительные даты и время: выбирается самая длинная распознанная фраза
+	const maxLength = countPhraseWords(words, start, MAX_DATE_PHRASE_WORDS);
+	for (let length = maxLength; length >= 1; length--) {
+		const phrase = joinWords(words, start, length);
+		const relative = parseRelativeDate(phrase, timeZone, now);
+		if (!relative) {
+			continue;
+		}
+
+		const { hour, minute, ...date } = relative;
+		// Фраза задает только время ("3pm", "at 5", "в 15:00"), если ее можно
+		// дописать к "today": дату тогда выбирает parseQuickAdd
+		if (
+			hour !== undefined &&
+			parseRelativeDate(`today ${phrase}`, timeZone, now)
+		) {
+			return {
+				length,
+				kind: "time",
+				apply: (state) => (state.time = { hour, minute: minute ?? 0 }),
+			};
+		}
+
+		return {
+			length,
+			kind: "date",
+			setsTime: hour !== undefined,
+			apply: (state) => {
+				state.date = date;
+				if (hour !== undefined) {
+					state.time = { hour, minute: minute ?? 0 };
+				}
+			},
+		};
+	}
+
+	return undefined;
+}
+
+function matchPriority(word: Word): Match | undefined {
+	const match = word.lower.match(/^!([a-z]+)$/);
+	if (!match) {
+		return undefined;
+	}
+	const name = (PRIORITY_ALIASES[match[1]] || match[1]) as Priority;
+	if (!(name in PRIORITY_MAP)) {
+		throw new TickTickValidationError(
+			`Неизвестный приоритет: ${word.text}. Допустимые значения: ${Object.keys(
+				PRIORITY_MAP
+			)
+				.map((key) => `!${key}`)
+				.join(", ")}`,
+			{ field: "priority", value: word.text }
+		);
+	}
+	return {
+		length: 1,
+		kind: "priority",
+		apply: (state) => (state.priority = PRIORITY_MAP[name]),
+	};
+}
+
+function matchTag(word: Word): Match | undefined {
+	const match = word.text.match(/^#([^\s#]+)$/);
+	if (!match) {
+		return undefined;
+	}
+	return {
+		length: 1,
+		kind: "tag",
+		apply: (state) => {
+			if (!state.tags.includes(match[1])) {
+				state.tags.push(match[1]);
+			}
+		},
+	};
+}
+
+/**
+ * Ограничивает ли правило дни повторения (дни недели, числа, месяцы)
+ */
+function limitsDays(rrule: string): boolean {
+	const rule = parseRRule(rrule);
+	return !!(rule.byDay || rule.byMonthDay || rule.byMonth);
+}
+
+/**
+ * Дата задачи, для которой указано только время или повторение: ближайший
+ * подходящий под правило день, начиная с сегодняшнего. Время, которое сегодня
+ * уже прошло, переносит задачу на следующий подходящий день.
+ */
+function resolveFirstDate(
+	state: ParseState,
+	today: { year: number; month: number; day: number },
+	timeZone: string,
+	now: Date
+): { year: number; month: number; day: number } {
+	const start = zonedDateTimeToDate(
+		{
+			...today,
+			hour: state.time?.hour ?? 0,
+			minute: state.time?.minute ?? 0,
+			second: 0,
+		},
+		timeZone
+	);
+	const passed = state.time !== undefined && start < now;
+	if (!state.repeat) {
+		return passed ? addDays(today, 1) : today;
+	}
+
+	const [first] = expandRRule(state.repeat, {
+		start,
+		timeZone,
+		from: passed ? now : start,
+		limit: 1,
+	});
+	if (!first) {
+		return today;
+	}
+	const { year, month, day } = getZonedDateParts(first, timeZone);
+	return { year, month, day };
+}
+
+/**
+ * Разобрать строку быстрого ввода. Нераспознанные слова составляют название
+ * задачи; текст в двойных кавычках всегда остается в названии как есть.
+ */
+export function parseQuickAdd(
+	input: string,
+	options: QuickAddOptions
+): QuickAddParseResult {
+	const now = options.now || new Date();
+	const zonedNow = getZonedDateParts(now, options.timeZone);
+	const today = {
+		year: zonedNow.year,
+		month: zonedNow.month,
+		day: zonedNow.day,
+	};
+
+	const words = tokenize(input);
+	const state: ParseState = { tags: [], reminders: [] };
+	const titleWords: string[] = [];
+	const tokens: QuickAddToken[] = [];
+	const usedKinds = new Set<string>();
+
+	for (let index = 0; index < words.length; ) {
+		const word = words[index];
+		const match = word.literal
+			? undefined
+			: word.text.startsWith("^") && word.text.length > 1
+			? matchProject(words, index, options.projects)
+			: matchPriority(word) ||
+			  matchTag(word) ||
+			  matchRepeat(words, index, options.timeZone, now) ||
+			  matchReminder(words, index) ||
+			  matchDate(words, index, options.timeZone, now);
+
+		if (!match) {
+			titleWords.push(word.text);
+			index++;
+			continue;
+		}
+
+		const kinds = match.setsTime ? [match.kind, "time"] : [match.kind];
+		if (
+			kinds.some(
+				(kind) => usedKinds.has(kind) && !["tag", "reminder"].includes(kind)
+			)
+		) {
+			throw new TickTickValidationError(
+				`Повторное указание (${match.kind}): ${words
+					.slice(index, index + match.length)
+					.map((w) => w.text)
+					.join(" ")}`,
+				{ field: match.kind }
+			);
+		}
+
+		match.apply(state);
+		kinds.forEach((kind) => usedKinds.add(kind));
+		tokens.push({
+			kind: match.kind,
+			text: words
+				.slice(index, index + match.length)
+				.map((w) => w.text)
+				.join(" "),
+		});
+		index += match.length;
+	}
+
+	const title = titleWords.join(" ").trim();
+	if (!title) {
+		throw new TickTickValidationError("Не удалось выделить название задачи", {
+			field: "text",
+			value: input,
+		});
+	}
+
+	let date = state.date;
+	if (!date && (state.time || (state.repeat && limitsDays(state.repeat)))) {
+		date = resolveFirstDate(state, today, options.timeZone, now);
+	}
+
+	if (state.reminders.length > 0 && !date) {
+		throw new TickTickValidationError(
+			"Напоминание требует даты или времени задачи",
+			{ field: "reminders" }
+		);
+	}
+
+	const result: QuickAddParseResult = {
+		title,
+		tags: state.tags,
+		reminders: state.reminders,
+		tokens,
+	};
+
+	if (state.project) {
+		result.projectId = state.project.id;
+		result.projectName = state.project.name;
+	}
+	if (state.priority !== undefined) {
+		result.priority = state.priority;
+	}
+	if (date) {
+		const dueDate = formatDateToISO8601(
+			zonedDateTimeToDate(
+				{
+					...date,
+					hour: state.time?.hour ?? 0,
+					minute: state.time?.minute ?? 0,
+					second: 0,
+				},
+				options.timeZone
+			)
+		);
+		result.isAllDay = !state.time;
+		result.startDate = dueDate;
+		result.dueDate = dueDate;
+		result.timeZone = options.timeZone;
+	}
+	if (state.repeat) {
+		result.repeatFlag = state.repeat;
+	}
+
+	return result;
+}
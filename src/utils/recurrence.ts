@@ -0,0 +1,974 @@
+/**
+ * Построение правил повторения (RRULE) из структуры или текста на английском
+ * и русском языках и обратное описание правил человеческим языком
+ */
+
+import {
+	Locale,
+	RecurrenceFrequency,
+	RecurrenceInput,
+	RecurrenceSpec,
+	TickTickValidationError,
+} from "../types/ticktick.js";
+import {
+	DateParseOptions,
+	ParsedRRule,
+	WEEKDAY_NAMES,
+	getZonedDateParts,
+	parseAndFormatDate,
+	parseRRule,
+	validateRRule,
+} from "./date-utils.js";
+
+export interface RecurrenceOptions extends DateParseOptions {
+	timeZone: string; // Зона, в которой понимается дата окончания (until)
+}
+
+const RRULE_DAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const FREQUENCY_CODES: Record<RecurrenceFrequency, string> = {
+	daily: "DAILY",
+	weekly: "WEEKLY",
+	monthly: "MONTHLY",
+	yearly: "YEARLY",
+};
+
+const SHORT_FREQUENCIES: Record<string, RecurrenceFrequency> = {
+	daily: "daily",
+	weekly: "weekly",
+	monthly: "monthly",
+	yearly: "yearly",
+	annually: "yearly",
+	ежедневно: "daily",
+	еженедельно: "weekly",
+	ежемесячно: "monthly",
+	ежегодно: "yearly",
+};
+
+const EVERY_WORDS = [
+	"every",
+	"each",
+	"каждый",
+	"каждую",
+	"каждое",
+	"каждые",
+	"каждой",
+];
+
+const PERIOD_UNITS: Record<string, RecurrenceFrequency> = {
+	day: "daily",
+	days: "daily",
+	week: "weekly",
+	weeks: "weekly",
+	month: "monthly",
+	months: "monthly",
+	year: "yearly",
+	years: "yearly",
+	день: "daily",
+	дня: "daily",
+	дней: "daily",
+	неделю: "weekly",
+	недели: "weekly",
+	недель: "weekly",
+	месяц: "monthly",
+	месяца: "monthly",
+	месяцев: "monthly",
+	год: "yearly",
+	года: "yearly",
+	лет: "yearly",
+};
+
+// Формы дней недели, которых нет в WEEKDAY_NAMES: "mondays", "по понедельникам"
+const WEEKDAY_FORMS: Record<string, number> = {
+	mondays: 1,
+	tuesdays: 2,
+	wednesdays: 3,
+	thursdays: 4,
+	fridays: 5,
+	saturdays: 6,
+	sundays: 0,
+	понедельникам: 1,
+	вторникам: 2,
+	средам: 3,
+	четвергам: 4,
+	пятницам: 5,
+	субботам: 6,
+	воскресеньям: 0,
+};
+
+const ORDINALS: Record<string, number> = {
+	first: 1,
+	"1st": 1,
+	second: 2,
+	"2nd": 2,
+	third: 3,
+	"3rd": 3,
+	fourth: 4,
+	"4th": 4,
+	fifth: 5,
+	"5th": 5,
+	last: -1,
+	первый: 1,
+	первую: 1,
+	первое: 1,
+	второй: 2,
+	вторую: 2,
+	второе: 2,
+	третий: 3,
+	третью: 3,
+	третье: 3,
+	четвертый: 4,
+	четвертую: 4,
+	четвертое: 4,
+	пятый: 5,
+	пятую: 5,
+	пятое: 5,
+	последний: -1,
+	последнюю: -1,
+	последнее: -1,
+};
+
+const MONTH_NAMES: Record<string, number> = {
+	january: 1,
+	jan: 1,
+	february: 2,
+	feb: 2,
+	march: 3,
+	mar: 3,
+	april: 4,
+	apr: 4,
+	may: 5,
+	june: 6,
+	jun: 6,
+	july: 7,
+	jul: 7,
+	august: 8,
+	aug: 8,
+	september: 9,
+	sep: 9,
+	sept: 9,
+	october: 10,
+	oct: 10,
+	november: 11,
+	nov: 11,
+	december: 12,
+	dec: 12,
+	январь: 1,
+	января: 1,
+	январе: 1,
+	февраль: 2,
+	февраля: 2,
+	феврале: 2,
+	март: 3,
+	марта: 3,
+	марте: 3,
+	апрель: 4,
+	апреля: 4,
+	апреле: 4,
+	май: 5,
+	мая: 5,
+	мае: 5,
+	июнь: 6,
+	июня: 6,
+	июне: 6,
+	июль: 7,
+	июля: 7,
+	июле: 7,
+	август: 8,
+	августа: 8,
+	августе: 8,
+	сентябрь: 9,
+	сентября: 9,
+	сентябре: 9,
+	октябрь: 10,
+	октября: 10,
+	октябре: 10,
+	ноябрь: 11,
+	ноября: 11,
+	ноябре: 11,
+	декабрь: 12,
+	декабря: 12,
+	декабре: 12,
+};
+
+const LIST_SEPARATORS = ["and", "&", "и"];
+
+const WEEKDAYS_MO_FR = ["MO", "TU", "WE", "TH", "FR"];
+const WEEKEND = ["SA", "SU"];
+
+function invalidRecurrence(message: string, value: unknown): never {
+	throw new TickTickValidationError(message, { field: "repeat", value });
+}
+
+function lookupWeekday(word: string): number | undefined {
+	return WEEKDAY_NAMES[word] ?? WEEKDAY_FORMS[word];
+}
+
+/**
+ * Привести день недели к коду RRULE: "MO", "monday", "пн", "2MO", "-1FR"
+ */
+function normalizeWeekday(value: string): string | undefined {
+	const code = value
+		.trim()
+		.toUpperCase()
+		.match(/^([+-]?\d)?(MO|TU|WE|TH|FR|SA|SU)$/);
+	if (code) {
+		return `${code[1] || ""}${code[2]}`;
+	}
+	const weekday = lookupWeekday(value.trim().toLowerCase());
+	return weekday !== undefined ? RRULE_DAYS[weekday] : undefined;
+}
+
+function formatUntilDate(date: {
+	year: number;
+	month: number;
+	day: number;
+}): string {
+	return `${date.year}${String(date.month).padStart(2, "0")}${String(
+		date.day
+	).padStart(2, "0")}`;
+}
+
+/**
+ * Дата окончания повторения в формате UNTIL (YYYYMMDD, включительно).
+ * Месяц без числа ("until June", "до июня") означает "до начала месяца".
+ */
+function resolveUntil(value: string, options: RecurrenceOptions): string {
+	const text = value.trim().toLowerCase().replace(/ё/g, "е").replace(/,/g, "");
+	const today = getZonedDateParts(options.now || new Date(), options.timeZone);
+	const words = text.split(/\s+/);
+
+	// Ближайший такой месяц (и число) не раньше сегодняшнего дня
+	const nearestYear = (month: number, day: number) =>
+		month > today.month || (month === today.month && day >= today.day)
+			? today.year
+			: today.year + 1;
+
+	// "june", "june 2026", "июня"
+	if (
+		MONTH_NAMES[words[0]] &&
+		(words.length === 1 || (words.length === 2 && /^\d{4}$/.test(words[1])))
+	) {
+		const month = MONTH_NAMES[words[0]];
+		const year = words[1] ? parseInt(words[1]) : nearestYear(month, 1);
+		const start = new Date(Date.UTC(year, month - 1, 1));
+		start.setUTCDate(0);
+		return formatUntilDate({
+			year: start.getUTCFullYear(),
+			month: start.getUTCMonth() + 1,
+			day: start.getUTCDate(),
+		});
+	}
+
+	// "15 june [2025]", "15 июня [2025]", "june 15 [2025]"
+	const dayFirst = text.match(
+		/^(\d{1,2})(?:st|nd|rd|th|-?го)? ([a-zа-я]+)(?: (\d{4}))?$/
+	);
+	const monthFirst = text.match(
+		/^([a-z]+) (\d{1,2})(?:st|nd|rd|th)?(?: (\d{4}))?$/
+	);
+	const named = dayFirst
+		? { day: dayFirst[1], month: dayFirst[2], year: dayFirst[3] }
+		: monthFirst
+		? { day: monthFirst[2], month: monthFirst[1], year: monthFirst[3] }
+		: undefined;
+	if (named && MONTH_NAMES[named.month]) {
+		const month = MONTH_NAMES[named.month];
+		const day = parseInt(named.day);
+		const year = named.year ? parseInt(named.year) : nearestYear(month, day);
+		if (day < 1 || day > new Date(Date.UTC(year, month, 0)).getUTCDate()) {
+			invalidRecurrence(
+				`Невалидная дата окончания повторения: ${value}`,
+				value
+			);
+		}
+		return formatUntilDate({ year, month, day });
+	}
+
+	try {
+		const date = new Date(parseAndFormatDate(value, options.timeZone, options));
+		return formatUntilDate(getZonedDateParts(date, options.timeZone));
+	} catch (error) {
+		return invalidRecurrence(
+			`Невалидная дата окончания повторения: ${value}${
+				error instanceof Error ? ` (${error.message})` : ""
+			}`,
+			value
+		);
+	}
+}
+
+/**
+ * Построить RRULE из структурированного описания
+ * @throws {TickTickValidationError} Если описание невалидно
+ */
+export function buildRRule(
+	spec: RecurrenceSpec,
+	options: RecurrenceOptions
+): string {
+	const freq = FREQUENCY_CODES[spec.frequency];
+	if (!freq) {
+		invalidRecurrence(
+			`Неизвестная частота повторения: ${spec.frequency}`,
+			spec
+		);
+	}
+
+	const interval = spec.interval ?? 1;
+	if (!Number.isInteger(interval) || interval < 1) {
+		invalidRecurrence(
+			`Интервал повторения должен быть целым числом больше 0: ${interval}`,
+			spec
+		);
+	}
+
+	const parts = [`FREQ=${freq}`, `INTERVAL=${interval}`];
+
+	if (spec.weekdays?.length) {
+		const days = spec.weekdays.map((day) => {
+			const code = normalizeWeekday(day);
+			if (!code) {
+				invalidRecurrence(`Неизвестный день недели: ${day}`, spec);
+			}
+			if (/\d/.test(code) && (freq === "DAILY" || freq === "WEEKLY")) {
+				invalidRecurrence(
+					`День недели с номером (${day}) допустим только для monthly и yearly`,
+					spec
+				);
+			}
+			return code;
+		});
+		parts.push(`BYDAY=${[...new Set(days)].join(",")}`);
+	}
+
+	if (spec.monthDays?.length) {
+		for (const day of spec.monthDays) {
+			if (!Number.isInteger(day) || day === 0 || day < -31 || day > 31) {
+				invalidRecurrence(`Невалидный день месяца: ${day}`, spec);
+			}
+		}
+		parts.push(`BYMONTHDAY=${[...new Set(spec.monthDays)].join(",")}`);
+	}
+
+	if (spec.months?.length) {
+		for (const month of spec.months) {
+			if (!Number.isInteger(month) || month < 1 || month > 12) {
+				invalidRecurrence(`Невалидный месяц: ${month}`, spec);
+			}
+		}
+		parts.push(`BYMONTH=${[...new Set(spec.months)].join(",")}`);
+	}
+
+	if (spec.count !== undefined && spec.until !== undefined) {
+		invalidRecurrence("Нельзя одновременно указать count и until", spec);
+	}
+	if (spec.count !== undefined) {
+		if (!Number.isInteger(spec.count) || spec.count < 1) {
+			invalidRecurrence(
+				`Количество повторений должно быть целым числом больше 0: ${spec.count}`,
+				spec
+			);
+		}
+		parts.push(`COUNT=${spec.count}`);
+	}
+	if (spec.until !== undefined) {
+		parts.push(`UNTIL=${resolveUntil(spec.until, options)}`);
+	}
+
+	const rrule = `RRULE:${parts.join(";")}`;
+	if (!validateRRule(rrule)) {
+		invalidRecurrence(`Невалидное правило повторения: ${rrule}`, spec);
+	}
+	return rrule;
+}
+
+/**
+ * Список элементов через запятую, "and" или "и": "mon and thu", "1st, 15th"
+ */
+function parseList<T>(
+	words: string[],
+	start: number,
+	parseItem: (word: string) => T | undefined
+): { items: T[]; next: number } {
+	const items: T[] = [];
+	let index = start;
+
+	while (index < words.length) {
+		if (items.length > 0 && LIST_SEPARATORS.includes(words[index])) {
+			if (parseItem(words[index + 1] || "") === undefined) {
+				break;
+			}
+			index++;
+			continue;
+		}
+		const item = parseItem(words[index]);
+		if (item === undefined) {
+			break;
+		}
+		items.push(item);
+		index++;
+	}
+
+	return { items, next: index };
+}
+
+function parseMonthDay(word: string): number | undefined {
+	const match = word.match(/^(\d{1,2})(?:st|nd|rd|th|-?го|-?е)?$/);
+	const day = match ? parseInt(match[1]) : NaN;
+	return day >= 1 && day <= 31 ? day : undefined;
+}
+
+/**
+ * Разобрать описание повторения на английском или русском языке:
+ * "every 2 weeks on Mon and Thu until June", "every month on the last Friday",
+ * "каждые 2 недели по понедельникам и четвергам", "ежемесячно 15 числа 5 раз"
+ * @throws {TickTickValidationError} Если описание не распознано
+ */
+export function parseRecurrenceText(
+	text: string,
+	options: RecurrenceOptions
+): RecurrenceSpec {
+	let phrase = text
+		.trim()
+		.toLowerCase()
+		.replace(/ё/g, "е")
+		.replace(/[.]+$/, "")
+		.replace(/,/g, " , ")
+		.replace(/\s+/g, " ");
+	const spec: Partial<RecurrenceSpec> = {};
+	const unrecognized = () =>
+		invalidRecurrence(
+			`Не удалось разобрать повторение: "${text}". Примеры: "every 2 weeks on Mon and Thu until June", "every month on the 15th", "каждую пятницу 5 раз"`,
+			text
+		);
+
+	const untilMatch = phrase.match(/^(.+?) (?:until|till|through|до) (.+)$/);
+	if (untilMatch) {
+		phrase = untilMatch[1];
+		spec.until = untilMatch[2];
+	}
+
+	const countMatch = phrase.match(
+		/^(.+?) (?:for )?(\d+) (?:times|time|occurrences|раз|раза)$/
+	);
+	if (countMatch) {
+		phrase = countMatch[1];
+		spec.count = parseInt(countMatch[2]);
+	}
+
+	const words = phrase.split(" ").filter((word) => word && word !== ",");
+	const weekdayCode = (word: string) => {
+		const weekday = lookupWeekday(word);
+		return weekday !== undefined ? RRULE_DAYS[weekday] : undefined;
+	};
+	const setWeekdays = (weekdays: string[]) => {
+		if (spec.weekdays) {
+			unrecognized();
+		}
+		spec.weekdays = weekdays;
+	};
+	let index = 0;
+
+	// Частота: "daily", "every 2 weeks", "every monday", "по будням"
+	const head = words[index];
+	if (SHORT_FREQUENCIES[head]) {
+		spec.frequency = SHORT_FREQUENCIES[head];
+		index++;
+	} else if (EVERY_WORDS.includes(head)) {
+		index++;
+		if (words[index] === "other") {
+			spec.interval = 2;
+			index++;
+		} else if (/^\d+$/.test(words[index] || "")) {
+			spec.interval = parseInt(words[index]);
+			index++;
+		}
+
+		const word = words[index];
+		const ordinal = ORDINALS[word];
+		if (PERIOD_UNITS[word]) {
+			spec.frequency = PERIOD_UNITS[word];
+			index++;
+		} else if (
+			word === "weekday" ||
+			word === "weekdays" ||
+			(word === "будний" && words[index + 1] === "день")
+		) {
+			spec.frequency = "weekly";
+			setWeekdays(WEEKDAYS_MO_FR);
+			index += word === "будний" ? 2 : 1;
+		} else if (["weekend", "weekends", "выходные"].includes(word)) {
+			spec.frequency = "weekly";
+			setWeekdays(WEEKEND);
+			index++;
+		} else if (
+			ordinal !== undefined &&
+			(ordinal === -1 || /^[a-z0-9]+$/.test(word)) &&
+			weekdayCode(words[index + 1] || "")
+		) {
+			// "every last friday" - последняя пятница каждого месяца. "Каждый второй
+			// вторник" по-русски обычно значит "через неделю", поэтому русские
+			// порядковые здесь не принимаются (кроме "последний")
+			spec.frequency = "monthly";
+			setWeekdays([`${ordinal}${weekdayCode(words[index + 1])}`]);
+			index += 2;
+		} else {
+			const list = parseList(words, index, weekdayCode);
+			if (list.items.length === 0) {
+				unrecognized();
+			}
+			spec.frequency = "weekly";
+			setWeekdays(list.items);
+			index = list.next;
+		}
+	} else if (head === "по") {
+		index++;
+		if (words[index] === "будням") {
+			setWeekdays(WEEKDAYS_MO_FR);
+			index++;
+		} else if (words[index] === "выходным") {
+			setWeekdays(WEEKEND);
+			index++;
+		} else {
+			const list = parseList(words, index, weekdayCode);
+			if (list.items.length === 0) {
+				unrecognized();
+			}
+			setWeekdays(list.items);
+			index = list.next;
+		}
+		spec.frequency = "weekly";
+	} else {
+		unrecognized();
+	}
+
+	// Уточнения: дни недели, числа месяца, месяцы
+	while (index < words.length) {
+		const word = words[index];
+
+		if (word === "числа") {
+			index++;
+			continue;
+		}
+
+		const isPreposition = ["on", "в", "во", "по", "in"].includes(word);
+		let next = isPreposition ? index + 1 : index;
+		if (words[next] === "the") {
+			next++;
+		}
+
+		// "on mon and thu", "по понедельникам"
+		const weekdays = parseList(words, next, weekdayCode);
+		if (weekdays.items.length > 0) {
+			setWeekdays(weekdays.items);
+			index = weekdays.next;
+			continue;
+		}
+
+		// "on the last day", "в последний день"
+		if (
+			ORDINALS[words[next]] === -1 &&
+			["day", "день"].includes(words[next + 1])
+		) {
+			spec.monthDays = [-1];
+			index = next + 2;
+			continue;
+		}
+
+		// "on the second monday", "в последнюю пятницу"
+		const ordinal = ORDINALS[words[next]];
+		if (ordinal !== undefined && weekdayCode(words[next + 1] || "")) {
+			setWeekdays([`${ordinal}${weekdayCode(words[next + 1])}`]);
+			index = next + 2;
+			continue;
+		}
+
+		// "in march and september", "в марте"
+		const months = parseList(words, next, (w) => MONTH_NAMES[w]);
+		if (months.items.length > 0) {
+			spec.months = months.items;
+			index = months.next;
+			continue;
+		}
+
+		// "on the 15th", "on day 1 and 15", "15 числа"
+		if (words[next] === "day" || words[next] === "days") {
+			next++;
+		}
+		const days = parseList(words, next, parseMonthDay);
+		if (days.items.length > 0) {
+			spec.monthDays = days.items;
+			index = days.next;
+			continue;
+		}
+
+		unrecognized();
+	}
+
+	// Дни недели с номером задают день месяца
+	if (
+		spec.weekdays?.some((day) => /\d/.test(day)) &&
+		(spec.frequency === "daily" || spec.frequency === "weekly")
+	) {
+		spec.frequency = "monthly";
+	}
+
+	return spec as RecurrenceSpec;
+}
+
+/**
+ * Преобразовать повторение из входных параметров в RRULE. Строка, которая
+ * начинается с "RRULE:", проверяется и возвращается как есть.
+ */
+export function resolveRecurrence(
+	input: RecurrenceInput,
+	options: RecurrenceOptions
+): string {
+	if (typeof input !== "string") {
+		return buildRRule(input, options);
+	}
+	if (input.trim().toUpperCase().startsWith("RRULE:")) {
+		if (!validateRRule(input.trim())) {
+			invalidRecurrence(`Невалидное правило повторения: ${input}`, input);
+		}
+		return input.trim();
+	}
+	return buildRRule(parseRecurrenceText(input, options), options);
+}
+
+const EN_WEEKDAYS = [
+	"Sunday",
+	"Monday",
+	"Tuesday",
+	"Wednesday",
+	"Thursday",
+	"Friday",
+	"Saturday",
+];
+
+// Дни недели по-русски: род (для порядковых) и форма "по понедельникам"
+const RU_WEEKDAYS: { name: string; gender: "m" | "f" | "n"; plural: string }[] =
+	[
+		{ name: "воскресенье", gender: "n", plural: "воскресеньям" },
+		{ name: "понедельник", gender: "m", plural: "понедельникам" },
+		{ name: "вторник", gender: "m", plural: "вторникам" },
+		{ name: "среду", gender: "f", plural: "средам" },
+		{ name: "четверг", gender: "m", plural: "четвергам" },
+		{ name: "пятницу", gender: "f", plural: "пятницам" },
+		{ name: "субботу", gender: "f", plural: "субботам" },
+	];
+
+const EN_ORDINALS: Record<number, string> = {
+	1: "first",
+	2: "second",
+	3: "third",
+	4: "fourth",
+	5: "fifth",
+	[-1]: "last",
+};
+
+const RU_ORDINALS: Record<number, Record<"m" | "f" | "n", string>> = {
+	1: { m: "первый", f: "первую", n: "первое" },
+	2: { m: "второй", f: "вторую", n: "второе" },
+	3: { m: "третий", f: "третью", n: "третье" },
+	4: { m: "четвертый", f: "четвертую", n: "четвертое" },
+	5: { m: "пятый", f: "пятую", n: "пятое" },
+	[-1]: { m: "последний", f: "последнюю", n: "последнее" },
+};
+
+const EN_MONTHS = [
+	"January",
+	"February",
+	"March",
+	"April",
+	"May",
+	"June",
+	"July",
+	"August",
+	"September",
+	"October",
+	"November",
+	"December",
+];
+
+const RU_MONTHS_GENITIVE = [
+	"января",
+	"февраля",
+	"марта",
+	"апреля",
+	"мая",
+	"июня",
+	"июля",
+	"августа",
+	"сентября",
+	"октября",
+	"ноября",
+	"декабря",
+];
+
+const RU_MONTHS_PREPOSITIONAL = [
+	"январе",
+	"феврале",
+	"марте",
+	"апреле",
+	"мае",
+	"июне",
+	"июле",
+	"августе",
+	"сентябре",
+	"октябре",
+	"ноябре",
+	"декабре",
+];
+
+/**
+ * Форма слова для числа: 1 день, 2 дня, 5 дней
+ */
+export function pluralRu(
+	n: number,
+	one: string,
+	few: string,
+	many: string
+): string {
+	const mod10 = n % 10;
+	const mod100 = n % 100;
+	if (mod10 === 1 && mod100 !== 11) {
+		return one;
+	}
+	if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) {
+		return few;
+	}
+	return many;
+}
+
+function joinList(items: string[], locale: Locale): string {
+	const and = locale === "ru" ? " и " : " and ";
+	return items.length > 1
+		? `${items.slice(0, -1).join(", ")}${and}${items[items.length - 1]}`
+		: items[0];
+}
+
+function ordinalSuffix(day: number): string {
+	if (day % 100 >= 11 && day % 100 <= 13) {
+		return "th";
+	}
+	return { 1: "st", 2: "nd", 3: "rd" }[day % 10] || "th";
+}
+
+function describeFrequencyEn(rule: ParsedRRule): string {
+	const units = {
+		DAILY: "day",
+		WEEKLY: "week",
+		MONTHLY: "month",
+		YEARLY: "year",
+	};
+	const unit = units[rule.freq];
+	if (rule.interval === 1) {
+		return `Every ${unit}`;
+	}
+	return rule.interval === 2
+		? `Every other ${unit}`
+		: `Every ${rule.interval} ${unit}s`;
+}
+
+function describeFrequencyRu(rule: ParsedRRule): string {
+	const n = rule.interval;
+	const forms = {
+		DAILY: ["Каждый", "день", "дня", "дней"],
+		WEEKLY: ["Каждую", "неделю", "недели", "недель"],
+		MONTHLY: ["Каждый", "месяц", "месяца", "месяцев"],
+		YEARLY: ["Каждый", "год", "года", "лет"],
+	}[rule.freq];
+	if (n === 1) {
+		return `${forms[0]} ${forms[1]}`;
+	}
+	const every = n % 10 === 1 && n % 100 !== 11 ? forms[0] : "Каждые";
+	return `${every} ${n} ${pluralRu(n, forms[1], forms[2], forms[3])}`;
+}
+
+function describeMonthDays(days: number[], locale: Locale): string {
+	const positive = days.filter((day) => day > 0);
+	const last = days.includes(-1);
+	const parts: string[] = [];
+
+	if (locale === "ru") {
+		if (positive.length) {
+			parts.push(`${joinList(positive.map(String), locale)} числа`);
+		}
+		if (last) {
+			parts.push("в последний день месяца");
+		}
+		const others = days.filter((day) => day < -1);
+		if (others.length) {
+			parts.push(
+				`в ${joinList(
+					others.map((day) => `${-day}-й`),
+					locale
+				)} день с конца месяца`
+			);
+		}
+		return parts.join(" и ");
+	}
+
+	if (positive.length) {
+		parts.push(
+			`on the ${joinList(
+				positive.map((day) => `${day}${ordinalSuffix(day)}`),
+				locale
+			)}`
+		);
+	}
+	if (last) {
+		parts.push("on the last day of the month");
+	}
+	const others = days.filter((day) => day < -1);
+	if (others.length) {
+		parts.push(
+			`on the ${joinList(
+				others.map((day) => `${-day}${ordinalSuffix(-day)}`),
+				locale
+			)} to last day of the month`
+		);
+	}
+	return parts.join(" and ");
+}
+
+function describeWeekdays(
+	weekdays: NonNullable<ParsedRRule["byDay"]>,
+	locale: Locale
+): string {
+	const plain = weekdays.filter((day) => day.ordinal === undefined);
+	const numbered = weekdays.filter((day) => day.ordinal !== undefined);
+	const parts: string[] = [];
+
+	const codes = plain
+		.map((day) => RRULE_DAYS[day.weekday])
+		.sort()
+		.join(",");
+	const isWorkdays = codes === [...WEEKDAYS_MO_FR].sort().join(",");
+	const isWeekend = codes === [...WEEKEND].sort().join(",");
+	// Порядок с понедельника
+	const sorted = [...plain].sort(
+		(a, b) => ((a.weekday + 6) % 7) - ((b.weekday + 6) % 7)
+	);
+
+	if (locale === "ru") {
+		if (isWorkdays) {
+			parts.push("по будним дням");
+		} else if (isWeekend) {
+			parts.push("по выходным");
+		} else if (sorted.length) {
+			parts.push(
+				`по ${joinList(
+					sorted.map((day) => RU_WEEKDAYS[day.weekday].plural),
+					locale
+				)}`
+			);
+		}
+		for (const { weekday, ordinal } of numbered) {
+			const day = RU_WEEKDAYS[weekday];
+			const word = RU_ORDINALS[ordinal!]?.[day.gender] || `${ordinal}-й`;
+			parts.push(`${word.startsWith("вт") ? "во" : "в"} ${word} ${day.name}`);
+		}
+		return parts.join(" и ");
+	}
+
+	if (isWorkdays) {
+		parts.push("on weekdays");
+	} else if (isWeekend) {
+		parts.push("on weekends");
+	} else if (sorted.length) {
+		parts.push(
+			`on ${joinList(
+				sorted.map((day) => EN_WEEKDAYS[day.weekday]),
+				locale
+			)}`
+		);
+	}
+	for (const { weekday, ordinal } of numbered) {
+		parts.push(
+			`on the ${EN_ORDINALS[ordinal!] || `${ordinal}th`} ${
+				EN_WEEKDAYS[weekday]
+			}`
+		);
+	}
+	return parts.join(" and ");
+}
+
+function describeUntil(until: string, locale: Locale): string {
+	const [, year, month, day] = until.match(/^(\d{4})(\d{2})(\d{2})/)!;
+	const monthIndex = parseInt(month) - 1;
+	return locale === "ru"
+		? `до ${parseInt(day)} ${RU_MONTHS_GENITIVE[monthIndex]} ${year}`
+		: `until ${EN_MONTHS[monthIndex]} ${parseInt(day)}, ${year}`;
+}
+
+/**
+ * Описать правило повторения человеческим языком:
+ * "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH" - "Every other week on Monday and
+ * Thursday" / "Каждые 2 недели по понедельникам и четвергам".
+ * Возвращает undefined, если правило не поддерживается.
+ */
+export function describeRRule(
+	rrule: string,
+	locale: Locale = "ru"
+): string | undefined {
+	let rule: ParsedRRule;
+	try {
+		rule = parseRRule(rrule);
+	} catch {
+		return undefined;
+	}
+
+	const parts: string[] = [];
+	const isPlainWorkdays =
+		rule.freq === "WEEKLY" &&
+		rule.interval === 1 &&
+		!rule.byMonthDay &&
+		!rule.byMonth &&
+		rule.byDay?.every((day) => day.ordinal === undefined) &&
+		rule.byDay
+			.map((day) => RRULE_DAYS[day.weekday])
+			.sort()
+			.join(",") === [...WEEKDAYS_MO_FR].sort().join(",");
+
+	if (isPlainWorkdays) {
+		parts.push(locale === "ru" ? "По будним дням" : "Every weekday");
+	} else {
+		parts.push(
+			locale === "ru" ? describeFrequencyRu(rule) : describeFrequencyEn(rule)
+		);
+		if (rule.byMonth) {
+			const months = [...rule.byMonth].sort((a, b) => a - b);
+			parts.push(
+				locale === "ru"
+					? `в ${joinList(
+							months.map((m) => RU_MONTHS_PREPOSITIONAL[m - 1]),
+							locale
+					  )}`
+					: `in ${joinList(
+							months.map((m) => EN_MONTHS[m - 1]),
+							locale
+					  )}`
+			);
+		}
+		if (rule.byDay) {
+			parts.push(describeWeekdays(rule.byDay, locale));
+		}
+		if (rule.byMonthDay) {
+			parts.push(describeMonthDays(rule.byMonthDay, locale));
+		}
+	}
+
+	let description = parts.join(" ");
+	if (rule.count !== undefined) {
+		description +=
+			locale === "ru"
+				? `, ${rule.count} ${pluralRu(rule.count, "раз", "раза", "раз")}`
+				: `, ${rule.count} ${rule.count === 1 ? "time" : "times"}`;
+	}
+	if (rule.until) {
+		description += `, ${describeUntil(rule.until, locale)}`;
+	}
+	return description;
+}
@@ -0,0 +1,352 @@
+/**
+ * Напоминания задач: разбор и построение iCalendar TRIGGER
+ * ("TRIGGER:-P0DT0H30M0S") из понятных форм на английском и русском языках
+ * и обратное описание
+ */
+
+import { Locale, TickTickValidationError } from "../types/ticktick.js";
+import { pluralRu } from "./recurrence.js";
+
+const DAY_MINUTES = 1440;
+
+const TRIGGER_REGEX =
+	/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?=\d)(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+const TIME_PATTERN = "(\\d{1,2}(?::\\d{2})? ?(?:am|pm)?)";
+
+const DURATION_UNITS: Record<string, number> = {
+	m: 1,
+	min: 1,
+	mins: 1,
+	minute: 1,
+	minutes: 1,
+	h: 60,
+	hr: 60,
+	hrs: 60,
+	hour: 60,
+	hours: 60,
+	d: DAY_MINUTES,
+	day: DAY_MINUTES,
+	days: DAY_MINUTES,
+	w: 7 * DAY_MINUTES,
+	week: 7 * DAY_MINUTES,
+	weeks: 7 * DAY_MINUTES,
+	м: 1,
+	мин: 1,
+	минута: 1,
+	минуту: 1,
+	минуты: 1,
+	минут: 1,
+	ч: 60,
+	час: 60,
+	часа: 60,
+	часов: 60,
+	д: DAY_MINUTES,
+	день: DAY_MINUTES,
+	дня: DAY_MINUTES,
+	дней: DAY_MINUTES,
+	сутки: DAY_MINUTES,
+	суток: DAY_MINUTES,
+	нед: 7 * DAY_MINUTES,
+	неделя: 7 * DAY_MINUTES,
+	неделю: 7 * DAY_MINUTES,
+	недели: 7 * DAY_MINUTES,
+	недель: 7 * DAY_MINUTES,
+};
+
+const ON_TIME_PHRASES = [
+	"on time",
+	"at due time",
+	"at the due time",
+	"at start",
+	"вовремя",
+	"в срок",
+	"в момент срока",
+	"в момент начала",
+];
+
+const SAME_DAY_PHRASES = [
+	"",
+	"on the day",
+	"on the due day",
+	"on the same day",
+	"в день задачи",
+	"в день срока",
+	"в тот же день",
+];
+
+const DAY_BEFORE_PHRASES = ["the day before", "a day before", "накануне"];
+
+const UNRECOGNIZED_HINT =
+	'Примеры: "30 minutes before", "1 day before", "at 9:00 on the day", "за 15 минут", "накануне в 9:00", "TRIGGER:-PT30M"';
+
+function invalidReminder(message: string, value: unknown): never {
+	throw new TickTickValidationError(message, { field: "reminders", value });
+}
+
+/**
+ * Смещение напоминания от даты задачи в минутах (отрицательное - до даты).
+ * Для невалидного TRIGGER возвращается undefined.
+ */
+export function parseTrigger(trigger: string): number | undefined {
+	const match = trigger
+		.trim()
+		.replace(/^TRIGGER:/i, "")
+		.toUpperCase()
+		.match(TRIGGER_REGEX);
+	if (!match || match.slice(2).every((part) => part === undefined)) {
+		return undefined;
+	}
+
+	const [weeks, days, hours, minutes, seconds] = match
+		.slice(2)
+		.map((part) => parseInt(part || "0"));
+	if (seconds % 60 !== 0) {
+		return undefined;
+	}
+
+	const total =
+		(weeks * 7 + days) * DAY_MINUTES + hours * 60 + minutes + seconds / 60;
+	return match[1] === "-" ? -total : total;
+}
+
+/**
+ * TRIGGER со смещением в минутах от даты задачи (отрицательное - до даты)
+ */
+export function formatTrigger(offsetMinutes: number): string {
+	if (offsetMinutes === 0) {
+		return "TRIGGER:PT0S";
+	}
+	const total = Math.abs(offsetMinutes);
+	const days = Math.floor(total / DAY_MINUTES);
+	const hours = Math.floor((total % DAY_MINUTES) / 60);
+	const minutes = total % 60;
+	return `TRIGGER:${
+		offsetMinutes < 0 ? "-" : ""
+	}P${days}DT${hours}H${minutes}M0S`;
+}
+
+/**
+ * Длительность: "30 minutes", "1h 30m", "an hour", "2 дня", "час", "полчаса"
+ */
+function parseDuration(text: string): number | undefined {
+	const words = text.split(" ").filter((word) => word && word !== "and");
+	let total = 0;
+	let index = 0;
+
+	while (index < words.length) {
+		const word = words[index];
+		const compact = word.match(/^(\d+)([a-zа-я]+)$/);
+
+		if (word === "полчаса") {
+			total += 30;
+			index++;
+		} else if (compact && DURATION_UNITS[compact[2]]) {
+			total += parseInt(compact[1]) * DURATION_UNITS[compact[2]];
+			index++;
+		} else if (
+			(/^\d+$/.test(word) || ["a", "an", "one"].includes(word)) &&
+			DURATION_UNITS[words[index + 1]]
+		) {
+			const amount = /^\d+$/.test(word) ? parseInt(word) : 1;
+			total += amount * DURATION_UNITS[words[index + 1]];
+			index += 2;
+		} else if (DURATION_UNITS[word] && word.length > 1) {
+			// "за час", "за день" - без числа
+			total += DURATION_UNITS[word];
+			index++;
+		} else {
+			return undefined;
+		}
+	}
+
+	return index > 0 ? total : undefined;
+}
+
+/**
+ * Время дня в минутах: 9, 9:00, 9am, 9:30pm, 21:00
+ */
+function parseTimeOfDay(text: string): number | undefined {
+	const match = text.match(/^(\d{1,2})(?::(\d{2}))? ?(am|pm)?$/);
+	if (!match) {
+		return undefined;
+	}
+
+	let hour = parseInt(match[1]);
+	const minute = match[2] ? parseInt(match[2]) : 0;
+	if (match[3]) {
+		if (hour < 1 || hour > 12) {
+			return undefined;
+		}
+		hour = (hour % 12) + (match[3] === "pm" ? 12 : 0);
+	}
+
+	return hour <= 23 && minute <= 59 ? hour * 60 + minute : undefined;
+}
+
+/**
+ * Смещение в днях для напоминания с временем дня: "on the day", "накануне",
+ * "2 days before", "за 2 дня"
+ */
+function parseDayOffset(text: string): number | undefined {
+	if (SAME_DAY_PHRASES.includes(text)) {
+		return 0;
+	}
+	if (DAY_BEFORE_PHRASES.includes(text)) {
+		return -1;
+	}
+
+	const before = text.match(/^(.+) before$/) || text.match(/^за (.+)$/);
+	const duration = before ? parseDuration(before[1]) : undefined;
+	if (duration === undefined || duration % DAY_MINUTES !== 0) {
+		return undefined;
+	}
+	return -duration / DAY_MINUTES;
+}
+
+/**
+ * Привести напоминание к TRIGGER. Принимаются TRIGGER ("TRIGGER:-PT30M"),
+ * длительность ISO 8601 ("-PT30M") и текст: "on time", "30 minutes before",
+ * "1 day before", "at 9:00 on the day", "at 9am the day before",
+ * "за 30 минут", "накануне в 9:00". Напоминания со временем дня
+ * отсчитываются от начала дня задачи и предназначены для задач на весь день.
+ * @throws {TickTickValidationError} Если напоминание не удалось разобрать
+ */
+export function parseReminder(value: string): string {
+	const raw = value.trim();
+
+	if (/^(TRIGGER:)?[+-]?P/i.test(raw)) {
+		const offset = parseTrigger(raw);
+		if (offset === undefined) {
+			invalidReminder(`Невалидное напоминание: ${value}`, value);
+		}
+		return `TRIGGER:${raw.replace(/^TRIGGER:/i, "").toUpperCase()}`;
+	}
+
+	const text = raw.toLowerCase().replace(/ё/g, "е").replace(/\s+/g, " ");
+
+	if (ON_TIME_PHRASES.includes(text)) {
+		return formatTrigger(0);
+	}
+
+	// Время дня: "at 9:00 ...", "... at 9am", "в 9:00 ...", "... в 9:00"
+	const leading = text.match(
+		new RegExp(`^(?:at|в|во) ${TIME_PATTERN}(?: (.+))?$`)
+	);
+	const trailing = leading
+		? undefined
+		: text.match(new RegExp(`^(.+) (?:at|в|во) ${TIME_PATTERN}$`));
+	if (leading || trailing) {
+		const time = leading ? leading[1] : trailing![2];
+		const rest = leading ? leading[2] || "" : trailing![1];
+		const minutes = parseTimeOfDay(time);
+		const days = parseDayOffset(rest);
+		if (minutes === undefined || days === undefined) {
+			invalidReminder(
+				`Не удалось разобрать напоминание: "${value}". ${UNRECOGNIZED_HINT}`,
+				value
+			);
+		}
+		return formatTrigger(days * DAY_MINUTES + minutes);
+	}
+
+	const relative =
+		text.match(/^(.+) (before|after)$/) || text.match(/^(за|через) (.+)$/);
+	if (relative) {
+		const [amount, direction] =
+			relative[2] === "before" || relative[2] === "after"
+				? [relative[1], relative[2]]
+				: [relative[2], relative[1]];
+		const duration = parseDuration(amount);
+		if (duration !== undefined) {
+			return formatTrigger(
+				direction === "before" || direction === "за" ? -duration : duration
+			);
+		}
+	}
+
+	return invalidReminder(
+		`Не удалось разобрать напоминание: "${value}". ${UNRECOGNIZED_HINT}`,
+		value
+	);
+}
+
+/**
+ * Одинаковые ли напоминания (по смещению, а не по записи TRIGGER)
+ */
+export function isSameReminder(a: string, b: string): boolean {
+	const offset = parseTrigger(a);
+	return offset === undefined ? a === b : offset === parseTrigger(b);
+}
+
+function formatClock(minutes: number): string {
+	return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+function describeDuration(minutes: number, locale: Locale): string {
+	const units: [number, string, [string, string, string]][] = [
+		[DAY_MINUTES, "day", ["день", "дня", "дней"]],
+		[60, "hour", ["час", "часа", "часов"]],
+		[1, "minute", ["минуту", "минуты", "минут"]],
+	];
+	const parts: string[] = [];
+	let rest = minutes;
+
+	for (const [size, en, ru] of units) {
+		const amount = Math.floor(rest / size);
+		rest %= size;
+		if (amount > 0) {
+			parts.push(
+				locale === "ru"
+					? `${amount} ${pluralRu(amount, ...ru)}`
+					: `${amount} ${en}${amount === 1 ? "" : "s"}`
+			);
+		}
+	}
+	return parts.join(" ");
+}
+
+/**
+ * Описать напоминание человеческим языком. Для задач на весь день смещение
+ * понимается как время дня: "The day before at 9:00", "Накануне в 9:00".
+ * Для невалидного TRIGGER возвращается undefined.
+ */
+export function describeReminder(
+	trigger: string,
+	locale: Locale = "ru",
+	isAllDay = false
+): string | undefined {
+	const offset = parseTrigger(trigger);
+	if (offset === undefined) {
+		return undefined;
+	}
+
+	if (isAllDay) {
+		const days = Math.floor(offset / DAY_MINUTES);
+		const time = formatClock(offset - days * DAY_MINUTES);
+		if (days === 0) {
+			return locale === "ru"
+				? `В день задачи в ${time}`
+				: `On the day at ${time}`;
+		}
+		if (days === -1) {
+			return locale === "ru"
+				? `Накануне в ${time}`
+				: `The day before at ${time}`;
+		}
+		const duration = describeDuration(Math.abs(days) * DAY_MINUTES, locale);
+		if (locale === "ru") {
+			return `${days < 0 ? "За" : "Через"} ${duration} в ${time}`;
+		}
+		return `${duration} ${days < 0 ? "before" : "after"} at ${time}`;
+	}
+
+	if (offset === 0) {
+		return locale === "ru" ? "Вовремя" : "On time";
+	}
+	const duration = describeDuration(Math.abs(offset), locale);
+	if (locale === "ru") {
+		return `${offset < 0 ? "За" : "Через"} ${duration}`;
+	}
+	return `${duration} ${offset < 0 ? "before" : "after"}`;
+}
@@ -0,0 +1,47 @@
+/**
+ * Читаемые описания полей задач в ответах инструментов
+ */
+
+import { Locale } from "../types/ticktick.js";
+import { describeRRule } from "./recurrence.js";
+import { describeReminder } from "./reminders.js";
+
+/**
+ * Добавить описания ко всем объектам с repeatFlag или reminders (задачи в
+ * ответах инструментов, в том числе вложенные): repeatDescription и
+ * reminderDescriptions. Исходные объекты не изменяются.
+ */
+export function withTaskDescriptions<T>(value: T, locale: Locale): T {
+	if (Array.isArray(value)) {
+		return value.map((item) => withTaskDescriptions(item, locale)) as T;
+	}
+	if (!value || typeof value !== "object" || value.constructor !== Object) {
+		return value;
+	}
+
+	const source = value as Record<string, unknown>;
+	const result: Record<string, unknown> = {};
+	for (const [key, field] of Object.entries(source)) {
+		result[key] = withTaskDescriptions(field, locale);
+	}
+
+	if (typeof source.repeatFlag === "string" && source.repeatFlag) {
+		const description = describeRRule(source.repeatFlag, locale);
+		if (description) {
+			result.repeatDescription = description;
+		}
+	}
+
+	// Нераспознанные напоминания описываются как есть
+	if (
+		Array.isArray(source.reminders) &&
+		source.reminders.length > 0 &&
+		source.reminders.every((reminder) => typeof reminder === "string")
+	) {
+		result.reminderDescriptions = source.reminders.map(
+			(reminder: string) =>
+				describeReminder(reminder, locale, source.isAllDay === true) || reminder
+		);
+	}
+	return result as T;
+}
@@ -0,0 +1,285 @@
+/**
+ * Фильтрация и сортировка задач для поиска по всем проектам
+ */
+
+import {
+	Task,
+	SearchTasksParams,
+	TaskSortField,
+	PRIORITY_MAP,
+	TickTickValidationError,
+} from "../types/ticktick.js";
+import {
+	AmbiguousDateError,
+	DateParseOptions,
+	getZonedDayStart,
+	parseAndFormatDate,
+} from "./date-utils.js";
+
+const DATE_ONLY_REGEX =
+	/^\d{4}-\d{1,2}-\d{1,2}$|^\d{1,2}([./-])\d{1,2}\1\d{4}$/;
+
+export interface DateRange {
+	from?: number;
+	to?: number; // Не включительно
+}
+
+/**
+ * Преобразует дату фильтра в timestamp. Дата без смещения считается по часам
+ * options.defaultTimeZone.
+ */
+function parseFilterDate(
+	value: string,
+	field: string,
+	options: DateParseOptions
+): number {
+	try {
+		return new Date(parseAndFormatDate(value, undefined, options)).getTime();
+	} catch (error) {
+		if (error instanceof AmbiguousDateError) {
+			throw new TickTickValidationError(
+				`Невалидная дата фильтра ${field}: ${error.message}`,
+				{ field, value, readings: error.readings }
+			);
+		}
+		throw new TickTickValidationError(
+			`Невалидная дата фильтра ${field}: ${value}`,
+			{
+				field,
+				value,
+			}
+		);
+	}
+}
+
+/**
+ * Преобразует границы диапазона дат в timestamp. Верхняя граница без времени
+ * ("2025-03-05") включает весь день по часам временной зоны (день перехода
+ * на летнее время короче или длиннее 24 часов).
+ */
+export function parseDateRange(
+	fromField: string,
+	from: string | undefined,
+	toField: string,
+	to: string | undefined,
+	options: DateParseOptions
+): DateRange {
+	const range: DateRange = {};
+
+	if (from) {
+		range.from = parseFilterDate(from, fromField, options);
+	}
+
+	if (to) {
+		const toTime = parseFilterDate(to, toField, options);
+		range.to = DATE_ONLY_REGEX.test(to.trim())
+			? getZonedDayStart(
+					new Date(toTime),
+					options.defaultTimeZone || "UTC",
+					1
+			  ).getTime()
+			: toTime + 1;
+	}
+
+	return range;
+}
+
+function isInRange(date: string | undefined, range: DateRange): boolean {
+	if (range.from === undefined && range.to === undefined) {
+		return true;
+	}
+	if (!date) {
+		return false;
+	}
+
+	const time = new Date(date).getTime();
+	if (isNaN(time)) {
+		return false;
+	}
+
+	return (
+		(range.from === undefined || time >= range.from) &&
+		(range.to === undefined || time < range.to)
+	);
+}
+
+/**
+ * Проверяет, что все слова запроса встречаются в названии, описании или подзадачах
+ */
+function matchesQuery(task: Task, query: string): boolean {
+	const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+	if (words.length === 0) {
+		return true;
+	}
+
+	const haystack = [
+		task.title,
+		task.content,
+		task.desc,
+		...(task.items || []).map((item) => item.title),
+	]
+		.filter(Boolean)
+		.join("\n")
+		.toLowerCase();
+
+	return words.every((word) => haystack.includes(word));
+}
+
+function matchesChecklist(
+	task: Task,
+	checklist: NonNullable<SearchTasksParams["checklist"]>
+): boolean {
+	const items = task.items || [];
+
+	switch (checklist) {
+		case "none":
+			return items.length === 0;
+		case "any":
+			return items.length > 0;
+		case "incomplete":
+			return items.some((item) => item.status !== 1);
+		case "completed":
+			return items.length > 0 && items.every((item) => item.status === 1);
+	}
+}
+
+/**
+ * Собрать предикат по критериям поиска. Даты фильтра проверяются сразу,
+ * до загрузки задач, и считаются по часам dateOptions.defaultTimeZone.
+ */
+export function createTaskFilter(
+	params: SearchTasksParams,
+	dateOptions: DateParseOptions = {}
+): (task: Task) => boolean {
+	const dueRange = parseDateRange(
+		"dueFrom",
+		params.dueFrom,
+		"dueTo",
+		params.dueTo,
+		dateOptions
+	);
+	const startRange = parseDateRange(
+		"startFrom",
+		params.startFrom,
+		"startTo",
+		params.startTo,
+		dateOptions
+	);
+	const priorities = params.priorities?.map((p) => PRIORITY_MAP[p]);
+	const projectIds = params.projectIds?.length
+		? new Set(params.projectIds)
+		: undefined;
+	const status = params.status || "open";
+
+	return (task) => {
+		if (projectIds && !projectIds.has(task.projectId)) {
+			return false;
+		}
+
+		const isCompleted = task.status === 2;
+		if (status === "open" && isCompleted) {
+			return false;
+		}
+		if (status === "completed" && !isCompleted) {
+			return false;
+		}
+
+		if (params.query && !matchesQuery(task, params.query)) {
+			return false;
+		}
+
+		if (priorities && !priorities.includes(task.priority ?? 0)) {
+			return false;
+		}
+
+		if (
+			params.hasDueDate !== undefined &&
+			!!task.dueDate !== params.hasDueDate
+		) {
+			return false;
+		}
+
+		if (!isInRange(task.dueDate, dueRange)) {
+			return false;
+		}
+
+		if (!isInRange(task.startDate, startRange)) {
+			return false;
+		}
+
+		if (
+			params.hasReminder !== undefined &&
+			(task.reminders?.length ?? 0) > 0 !== params.hasReminder
+		) {
+			return false;
+		}
+
+		if (
+			params.isRecurring !== undefined &&
+			!!task.repeatFlag !== params.isRecurring
+		) {
+			return false;
+		}
+
+		if (params.checklist && !matchesChecklist(task, params.checklist)) {
+			return false;
+		}
+
+		return true;
+	};
+}
+
+/**
+ * Отфильтровать задачи по критериям поиска (без сортировки и пагинации)
+ */
+export function filterTasks(
+	tasks: Task[],
+	params: SearchTasksParams,
+	dateOptions: DateParseOptions = {}
+): Task[] {
+	return tasks.filter(createTaskFilter(params, dateOptions));
+}
+
+function getSortValue(
+	task: Task,
+	field: TaskSortField
+): number | string | undefined {
+	switch (field) {
+		case "dueDate":
+		case "startDate": {
+			const date = task[field];
+			return date ? new Date(date).getTime() : undefined;
+		}
+		case "priority":
+			return task.priority ?? 0;
+		case "title":
+			return task.title.toLowerCase();
+		case "sortOrder":
+			return task.sortOrder;
+	}
+}
+
+/**
+ * Отсортировать задачи. Задачи без значения поля всегда идут в конце.
+ */
+export function sortTasks(
+	tasks: Task[],
+	field: TaskSortField,
+	direction: "asc" | "desc" = "asc"
+): Task[] {
+	const factor = direction === "asc" ? 1 : -1;
+
+	return [...tasks].sort((a, b) => {
+		const valueA = getSortValue(a, field);
+		const valueB = getSortValue(b, field);
+
+		if (valueA === undefined && valueB === undefined) return 0;
+		if (valueA === undefined) return 1;
+		if (valueB === undefined) return -1;
+
+		if (typeof valueA === "string" && typeof valueB === "string") {
+			return valueA.localeCompare(valueB) * factor;
+		}
+		return ((valueA as number) - (valueB as number)) * factor;
+	});
+}
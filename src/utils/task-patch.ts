@@ -0,0 +1,416 @@
+/**
+ * Применение patch к задаче (read-modify-write) и расчет изменений
+ */
+
+import {
+	Task,
+	ChecklistItem,
+	TaskPatch,
+	TaskPatchField,
+	TaskFieldChange,
+	TickTickValidationError,
+} from "../types/ticktick.js";
+import { isSameReminder, parseReminder } from "./reminders.js";
+
+/**
+ * Значения, которыми очищаются поля: API оставляет отсутствующие поля без
+ * изменений, поэтому очистка передается явно
+ */
+const EMPTY_VALUES: Required<Pick<Task, TaskPatchField>> = {
+	content: "",
+	desc: "",
+	startDate: "",
+	dueDate: "",
+	timeZone: "",
+	reminders: [],
+	repeatFlag: "",
+	priority: 0,
+	items: [],
+};
+
+/**
+ * Поля, которые patch.set заменяет как есть. Подзадачи обрабатываются
+ * отдельно, а repeat клиент преобразует в repeatFlag до применения patch.
+ */
+const SET_FIELDS: Exclude<
+	keyof Task & keyof NonNullable<TaskPatch["set"]>,
+	"items"
+>[] = [
+	"title",
+	"content",
+	"desc",
+	"isAllDay",
+	"startDate",
+	"dueDate",
+	"timeZone",
+	"reminders",
+	"repeatFlag",
+	"priority",
+	"sortOrder",
+];
+
+const COMPARED_FIELDS: (keyof Task)[] = [
+	"title",
+	"content",
+	"desc",
+	"isAllDay",
+	"startDate",
+	"dueDate",
+	"timeZone",
+	"reminders",
+	"repeatFlag",
+	"priority",
+	"sortOrder",
+	"status",
+];
+
+function hasChecklistOperations(patch: TaskPatch): boolean {
+	return (
+		!!patch.addItems?.length ||
+		!!patch.updateItems?.length ||
+		!!patch.removeItemIds?.length ||
+		!!patch.reorderItemIds?.length
+	);
+}
+
+function validatePatch(patch: TaskPatch): void {
+	const set = patch.set || {};
+
+	for (const field of patch.unset || []) {
+		if (set[field] !== undefined) {
+			throw new TickTickValidationError(
+				`Поле ${field} нельзя одновременно изменить и очистить`,
+				{ field }
+			);
+		}
+	}
+
+	const hasItemOperations = hasChecklistOperations(patch);
+	if (
+		hasItemOperations &&
+		(set.items !== undefined || patch.unset?.includes("items"))
+	) {
+		throw new TickTickValidationError(
+			"Операции над подзадачами нельзя совмещать с заменой или очисткой items",
+			{ field: "items" }
+		);
+	}
+
+	const hasReminderOperations =
+		!!patch.addReminders?.length || !!patch.removeReminders?.length;
+	if (
+		hasReminderOperations &&
+		(set.reminders !== undefined || patch.unset?.includes("reminders"))
+	) {
+		throw new TickTickValidationError(
+			"Операции над напоминаниями нельзя совмещать с заменой или очисткой reminders",
+			{ field: "reminders" }
+		);
+	}
+}
+
+function applyItemOperations(
+	items: ChecklistItem[],
+	patch: TaskPatch
+): ChecklistItem[] {
+	let result = [...items];
+
+	for (const id of patch.removeItemIds || []) {
+		if (!result.some((item) => item.id === id)) {
+			throw new TickTickValidationError(`Подзадача с ID ${id} не найдена`, {
+				field: "removeItemIds",
+				value: id,
+			});
+		}
+		result = result.filter((item) => item.id !== id);
+	}
+
+	for (const update of patch.updateItems || []) {
+		const index = result.findIndex((item) => item.id === update.id);
+		if (index === -1) {
+			throw new TickTickValidationError(
+				`Подзадача с ID ${update.id} не найдена`,
+				{ field: "updateItems", value: update.id }
+			);
+		}
+		const fields = Object.fromEntries(
+			Object.entries(update).filter(([, value]) => value !== undefined)
+		);
+		result[index] = { ...result[index], ...fields };
+	}
+
+	// Новые подзадачи получают ID на стороне API
+	for (const item of patch.addItems || []) {
+		result.push({ ...item } as ChecklistItem);
+	}
+
+	if (patch.reorderItemIds?.length) {
+		result = reorderItems(result, patch.reorderItemIds);
+	}
+
+	return result;
+}
+
+/**
+ * Расставить подзадачи в указанном порядке и пересчитать sortOrder. Подзадачи,
+ * не указанные в списке, сохраняют относительный порядок и идут следом.
+ */
+function reorderItems(
+	items: ChecklistItem[],
+	orderedIds: string[]
+): ChecklistItem[] {
+	for (const id of orderedIds) {
+		if (!items.some((item) => item.id === id)) {
+			throw new TickTickValidationError(`Подзадача с ID ${id} не найдена`, {
+				field: "reorderItemIds",
+				value: id,
+			});
+		}
+	}
+
+	const ordered = orderedIds.map((id) => items.find((item) => item.id === id)!);
+	const rest = items.filter(
+		(item) => !item.id || !orderedIds.includes(item.id)
+	);
+
+	return [...ordered, ...rest].map((item, index) => ({
+		...item,
+		sortOrder: index,
+	}));
+}
+
+/**
+ * Напоминания приводятся к TRIGGER и сравниваются по смещению, поэтому
+ * "30 minutes before" удаляет "TRIGGER:-PT30M"
+ */
+function applyReminderOperations(
+	reminders: string[],
+	patch: TaskPatch
+): string[] {
+	let result = [...reminders];
+
+	for (const reminder of patch.removeReminders || []) {
+		const trigger = parseReminder(reminder);
+		if (!result.some((existing) => isSameReminder(existing, trigger))) {
+			throw new TickTickValidationError(`Напоминание ${reminder} не найдено`, {
+				field: "removeReminders",
+				value: reminder,
+			});
+		}
+		result = result.filter((existing) => !isSameReminder(existing, trigger));
+	}
+
+	for (const reminder of patch.addReminders || []) {
+		const trigger = parseReminder(reminder);
+		if (!result.some((existing) => isSameReminder(existing, trigger))) {
+			result.push(trigger);
+		}
+	}
+
+	return result;
+}
+
+function setTaskField<K extends keyof Task>(
+	task: Task,
+	field: K,
+	value: Task[K]
+): void {
+	task[field] = value;
+}
+
+/**
+ * Применить patch к текущему состоянию задачи и вернуть полный объект для
+ * отправки в API. Поля, не упомянутые в patch, сохраняются.
+ */
+export function applyTaskPatch(task: Task, patch: TaskPatch): Task {
+	validatePatch(patch);
+
+	const result: Task = { ...task };
+	const set = patch.set || {};
+
+	for (const field of SET_FIELDS) {
+		if (set[field] !== undefined) {
+			setTaskField(result, field, set[field]);
+		}
+	}
+	if (set.items !== undefined) {
+		// Подзадачи без ID API создает при сохранении задачи
+		result.items = set.items as ChecklistItem[];
+	}
+
+	for (const field of patch.unset || []) {
+		setTaskField(result, field, EMPTY_VALUES[field]);
+	}
+
+	if (hasChecklistOperations(patch)) {
+		result.items = applyItemOperations(task.items || [], patch);
+	}
+
+	if (patch.addReminders?.length || patch.removeReminders?.length) {
+		result.reminders = applyReminderOperations(task.reminders || [], patch);
+	}
+
+	return result;
+}
+
+/**
+ * Пустые значения ("", [], undefined) считаются одинаковыми
+ */
+function isEmpty(value: unknown): boolean {
+	return (
+		value === undefined ||
+		value === null ||
+		value === "" ||
+		(Array.isArray(value) && value.length === 0)
+	);
+}
+
+/**
+ * Сравнение значений без учета порядка ключей объектов
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+	if (isEmpty(a) && isEmpty(b)) {
+		return true;
+	}
+	if (Array.isArray(a) && Array.isArray(b)) {
+		return (
+			a.length === b.length && a.every((value, i) => isSameValue(value, b[i]))
+		);
+	}
+	if (
+		a &&
+		b &&
+		typeof a === "object" &&
+		typeof b === "object" &&
+		!Array.isArray(a) &&
+		!Array.isArray(b)
+	) {
+		const recordA = a as Record<string, unknown>;
+		const recordB = b as Record<string, unknown>;
+		const keys = new Set([...Object.keys(recordA), ...Object.keys(recordB)]);
+		return [...keys].every((key) => isSameValue(recordA[key], recordB[key]));
+	}
+	return a === b;
+}
+
+/**
+ * Привести startDate подзадачи к timestamp: API возвращает ISO строку, а
+ * принимает timestamp, и без приведения каждая подзадача выглядела бы измененной
+ */
+function normalizeItem(item: ChecklistItem): ChecklistItem {
+	if (typeof item.startDate !== "string" || !item.startDate) {
+		return item;
+	}
+	const timestamp = new Date(item.startDate).getTime();
+	return isNaN(timestamp) ? item : { ...item, startDate: timestamp };
+}
+
+/**
+ * Рассчитать изменения между двумя состояниями задачи. Подзадачи сравниваются
+ * по ID.
+ */
+export function diffTasks(before: Task, after: Task): TaskFieldChange[] {
+	const changes: TaskFieldChange[] = [];
+
+	for (const field of COMPARED_FIELDS) {
+		if (!isSameValue(before[field], after[field])) {
+			changes.push({ field, before: before[field], after: after[field] });
+		}
+	}
+
+	const beforeItems = new Map(
+		(before.items || []).map((item) => [item.id, item])
+	);
+	const afterItems = new Map(
+		(after.items || []).map((item) => [item.id, item])
+	);
+
+	for (const [id, item] of beforeItems) {
+		const afterItem = afterItems.get(id);
+		if (!afterItem) {
+			changes.push({ field: `items[${id}]`, before: item });
+		} else if (!isSameValue(normalizeItem(item), normalizeItem(afterItem))) {
+			changes.push({ field: `items[${id}]`, before: item, after: afterItem });
+		}
+	}
+
+	for (const [id, item] of afterItems) {
+		if (!beforeItems.has(id)) {
+			changes.push({ field: `items[${id}]`, after: item });
+		}
+	}
+
+	return changes;
+}
+
+/**
+ * Момент даты для сравнения: API возвращает даты в своем формате
+ */
+function toTimestamp(value: string | number | undefined): number | undefined {
+	if (value === undefined || value === "") {
+		return undefined;
+	}
+	const timestamp = new Date(value).getTime();
+	return isNaN(timestamp) ? undefined : timestamp;
+}
+
+/**
+ * Поля, в которых копия задачи отличается от исходной: название, описание,
+ * даты, напоминания, повторение, приоритет, теги и подзадачи. Статус не
+ * сравнивается - его переносят после создания копии.
+ */
+export function findCopyDifferences(source: Task, copy: Task): string[] {
+	const differences: string[] = [];
+
+	for (const field of [
+		"title",
+		"content",
+		"desc",
+		"timeZone",
+		"repeatFlag",
+	] as const) {
+		if (!isSameValue(source[field], copy[field])) {
+			differences.push(field);
+		}
+	}
+	if ((source.priority ?? 0) !== (copy.priority ?? 0)) {
+		differences.push("priority");
+	}
+	if (!!source.isAllDay !== !!copy.isAllDay) {
+		differences.push("isAllDay");
+	}
+	for (const field of ["startDate", "dueDate"] as const) {
+		if (toTimestamp(source[field]) !== toTimestamp(copy[field])) {
+			differences.push(field);
+		}
+	}
+
+	const sourceReminders = source.reminders || [];
+	const copyReminders = copy.reminders || [];
+	if (
+		sourceReminders.length !== copyReminders.length ||
+		!sourceReminders.every((reminder) =>
+			copyReminders.some((copied) => isSameReminder(reminder, copied))
+		)
+	) {
+		differences.push("reminders");
+	}
+
+	if (
+		!isSameValue([...(source.tags || [])].sort(), [...(copy.tags || [])].sort())
+	) {
+		differences.push("tags");
+	}
+
+	const describeItems = (task: Task) =>
+		(task.items || []).map((item) => ({
+			title: item.title,
+			status: item.status,
+			startDate: toTimestamp(item.startDate),
+		}));
+	if (!isSameValue(describeItems(source), describeItems(copy))) {
+		differences.push("items");
+	}
+
+	return differences;
+}